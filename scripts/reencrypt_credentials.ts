@@ -0,0 +1,20 @@
+import { PrismaClient } from '@prisma/client';
+import { GatewayCredentialService } from '../src/routers/payment/gateway-credential.service';
+
+// Encrypts plaintext gateway credentials and re-wraps data keys with the
+// active master key. Safe to run repeatedly; keep the old key in
+// CREDENTIAL_MASTER_KEYS until this has finished.
+async function main() {
+  const prisma = new PrismaClient();
+  try {
+    const report = await new GatewayCredentialService(prisma).reencryptAll();
+    console.log('Gateway credentials re-encrypted', report);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch(err => {
+  console.error('Re-encryption failed:', err?.message || err);
+  process.exit(1);
+});
@@ -138,6 +138,37 @@ async function main() {
     console.error('Payment callback test failed:', e?.message || e);
   }
 
+  // Voided link: cancelling a subscription voids its open payment, and paying
+  // that link afterwards must neither complete it nor revive the subscription
+  let voidedLinkRefused = false;
+  try {
+    const voidRes = await client.post(`/api/subscription`, {
+      userId,
+      planId,
+      gateway: 'mock',
+      userEmail,
+      userPhone,
+    });
+    const voidSubscriptionId = voidRes.data?.subscription?.id;
+    const voidAuthority = voidRes.data?.payment?.authority;
+    await client.post(`/api/subscription/cancel`, {
+      subscriptionId: voidSubscriptionId,
+      atPeriodEnd: false,
+    });
+    const paid = await client.post(`/api/payment/verify`, {
+      authority: voidAuthority,
+      status: 'OK',
+    }, { validateStatus: () => true });
+    const after = await client.get(`/api/payment/by-authority`, {
+      params: { authority: voidAuthority },
+    });
+    voidedLinkRefused = paid.status >= 400
+      && after.data?.status === 'FAILED'
+      && after.data?.subscription?.status === 'CANCELLED';
+  } catch (e: any) {
+    console.error('Voided link test failed:', e?.response?.data?.message || e?.message || e);
+  }
+
   console.log(
     JSON.stringify(
       {
@@ -152,6 +183,7 @@ async function main() {
         listBySubscriptionOk,
         restVerifyOk,
         callbackRedirectOk,
+        voidedLinkRefused,
       },
       null,
       2
@@ -0,0 +1,422 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+// Local stand-in for the Pay.ir, IDPay, NextPay, Saman, Mellat and Parsian APIs,
+// so the adapters can be exercised without network access or merchant accounts.
+// Amount 1000 succeeds; amount 13 makes the stand-in reject the request.
+
+const PAID_AMOUNT = 1000;
+const REJECTED_AMOUNT = 13;
+
+type Handler = (body: any, headers: http.IncomingHttpHeaders) => { status: number; body: any };
+
+// SOAP stand-ins get the raw envelope and answer with XML
+const xmlValue = (xml: string, tag: string) => (xml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`)) || [])[1];
+const soapReply = (operation: string, inner: string) => ({
+  status: 200,
+  body: `<?xml version="1.0"?><soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/"><soap:Body>` +
+    `<ns2:${operation}Response xmlns:ns2="urn:test">${inner}</ns2:${operation}Response></soap:Body></soap:Envelope>`,
+});
+const mellatCalls: string[] = [];
+
+const routes: Record<string, Handler> = {
+  '/payir/send': body => {
+    if (body.api !== 'test' && body.api !== 'payir-key') {
+      return { status: 422, body: { status: 0, errorCode: -3, errorMessage: 'api key invalid' } };
+    }
+    if (body.amount === REJECTED_AMOUNT) {
+      return { status: 200, body: { status: 0, errorCode: -5, errorMessage: 'amount too low' } };
+    }
+    return { status: 200, body: { status: 1, token: `PAYIR-${body.factorNumber}` } };
+  },
+  '/payir/verify': body => {
+    if (body.token === 'PAYIR-unpaid') {
+      return { status: 422, body: { status: 0, errorCode: -9, errorMessage: 'transaction not paid' } };
+    }
+    return { status: 200, body: { status: 1, amount: PAID_AMOUNT, transId: 778899, cardNumber: '6037-99**-****-1234' } };
+  },
+  '/idpay/payment': (body, headers) => {
+    if (headers['x-api-key'] !== 'idpay-key') {
+      return { status: 403, body: { error_code: 11, error_message: 'user is blocked' } };
+    }
+    if (body.amount === REJECTED_AMOUNT) {
+      return { status: 406, body: { error_code: 34, error_message: 'amount below minimum' } };
+    }
+    return {
+      status: 201,
+      body: { id: `idp-${body.order_id}`, link: `https://idpay.test/p/ws-sandbox/idp-${body.order_id}` },
+    };
+  },
+  '/idpay/payment/verify': body => {
+    if (!body.order_id) {
+      return { status: 406, body: { error_code: 32, error_message: 'order_id is required' } };
+    }
+    if (body.id === 'idp-unpaid') {
+      return { status: 400, body: { error_code: 53, error_message: 'payment not confirmed' } };
+    }
+    return {
+      status: 200,
+      body: {
+        status: 100,
+        track_id: 10012,
+        id: body.id,
+        order_id: body.order_id,
+        amount: PAID_AMOUNT,
+        payment: { track_id: 888001, amount: PAID_AMOUNT, card_no: '123456******1234' },
+      },
+    };
+  },
+  '/idpay/payment/inquiry': body => {
+    const statuses: Record<string, number> = { 'idp-pending': 1, 'idp-paid': 10, 'idp-verified': 100, 'idp-cancelled': 7 };
+    return { status: 200, body: { status: statuses[body.id] ?? 3, id: body.id, order_id: body.order_id } };
+  },
+  '/nextpay/token': body => {
+    if (body.amount === REJECTED_AMOUNT) {
+      return { status: 200, body: { code: -33, message: 'invalid amount' } };
+    }
+    return { status: 200, body: { code: -1, trans_id: `np-${body.order_id}` } };
+  },
+  '/saman/token': body => {
+    if (body.Amount === REJECTED_AMOUNT) {
+      return { status: 200, body: { status: -1, errorCode: 5, errorDesc: 'invalid amount' } };
+    }
+    return { status: 200, body: { status: 1, token: `sep-${body.ResNum}` } };
+  },
+  '/saman/verify': body => {
+    if (body.RefNum === 'unpaid') {
+      return { status: 200, body: { ResultCode: -2, ResultDescription: 'transaction not found', Success: false } };
+    }
+    return {
+      status: 200,
+      body: {
+        ResultCode: 0,
+        Success: true,
+        TransactionDetail: {
+          RefNum: body.RefNum,
+          MaskedPan: '621986****1234',
+          HashedPan: 'abc',
+          TerminalNumber: body.TerminalNumber,
+          OrginalAmount: PAID_AMOUNT,
+          AffectiveAmount: PAID_AMOUNT,
+        },
+      },
+    };
+  },
+  '/saman/reverse': body => ({ status: 200, body: { ResultCode: 0, ResultDescription: 'reversed', RefNum: body.RefNum } }),
+  '/mellat': xml => {
+    const operation = (String(xml).match(/<ns1:(\w+)/) || [])[1];
+    mellatCalls.push(operation);
+    if (xmlValue(xml, 'userPassword') !== 'secret') {
+      return soapReply(operation, '<return>21</return>');
+    }
+    if (operation === 'bpPayRequest') {
+      return soapReply(operation, Number(xmlValue(xml, 'amount')) === REJECTED_AMOUNT
+        ? '<return>34</return>'
+        : `<return>0,RID${xmlValue(xml, 'orderId')}</return>`);
+    }
+    if (operation === 'bpVerifyRequest') {
+      return soapReply(operation, xmlValue(xml, 'saleReferenceId') === 'unpaid' ? '<return>417</return>' : '<return>0</return>');
+    }
+    if (operation === 'bpSettleRequest') {
+      return soapReply(operation, xmlValue(xml, 'saleReferenceId') === 'nosettle' ? '<return>416</return>' : '<return>0</return>');
+    }
+    if (operation === 'bpInquiryRequest') {
+      return soapReply(operation, '<return>0</return>');
+    }
+    return soapReply(operation, '<return>0</return>');
+  },
+  '/parsian/sale': xml => {
+    if (Number(xmlValue(xml, 'Amount')) === REJECTED_AMOUNT) {
+      return soapReply('SalePaymentRequest',
+        '<SalePaymentRequestResult><Token>0</Token><Message>invalid amount</Message><Status>-112</Status></SalePaymentRequestResult>');
+    }
+    return soapReply('SalePaymentRequest',
+      `<SalePaymentRequestResult><Token>9${xmlValue(xml, 'OrderId').slice(-6)}</Token><Message></Message><Status>0</Status></SalePaymentRequestResult>`);
+  },
+  '/parsian/confirm': xml => {
+    if (xmlValue(xml, 'Token') === '111') {
+      return soapReply('ConfirmPayment',
+        '<ConfirmPaymentResult><Status>-138</Status><Message>not paid</Message></ConfirmPaymentResult>');
+    }
+    return soapReply('ConfirmPayment',
+      `<ConfirmPaymentResult><Status>0</Status><RRN>7001</RRN><CardNumberMasked>603799******1234</CardNumberMasked><Token>${xmlValue(xml, 'Token')}</Token></ConfirmPaymentResult>`);
+  },
+  '/parsian/reverse': () => soapReply('ReversalRequest',
+    '<ReversalRequestResult><Status>0</Status><Message>reversed</Message></ReversalRequestResult>'),
+  '/nextpay/verify': body => {
+    if (body.refund_request === 'yes_money_back') {
+      return body.amount === PAID_AMOUNT
+        ? { status: 200, body: { code: -90, trans_id: body.trans_id } }
+        : { status: 200, body: { code: -91, message: 'refund failed' } };
+    }
+    if (body.amount !== PAID_AMOUNT) {
+      return { status: 200, body: { code: -25, message: 'amount mismatch' } };
+    }
+    return {
+      status: 200,
+      body: { code: 0, amount: PAID_AMOUNT, Shaparak_Ref_Id: '112233', card_holder: '5022-29**-****-1234' },
+    };
+  },
+};
+
+function startStandIn(): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const handler = routes[req.url || ''];
+      const isXml = String(req.headers['content-type'] || '').includes('xml');
+      const reply = handler
+        ? handler(isXml ? raw : raw ? JSON.parse(raw) : {}, req.headers)
+        : { status: 404, body: { message: 'not found' } };
+      const replyIsXml = typeof reply.body === 'string';
+      res.writeHead(reply.status, { 'Content-Type': replyIsXml ? 'text/xml' : 'application/json' });
+      res.end(replyIsXml ? reply.body : JSON.stringify(reply.body));
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+async function main() {
+  const server = await startStandIn();
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  // Point the adapters at the stand-in before env is loaded
+  process.env.DATABASE_URL = process.env.DATABASE_URL || 'postgres://unused';
+  process.env.PAYIR_REQUEST_URL = `${base}/payir/send`;
+  process.env.PAYIR_VERIFY_URL = `${base}/payir/verify`;
+  process.env.PAYIR_GATEWAY_URL = `${base}/payir/`;
+  process.env.IDPAY_REQUEST_URL = `${base}/idpay/payment`;
+  process.env.IDPAY_VERIFY_URL = `${base}/idpay/payment/verify`;
+  process.env.IDPAY_INQUIRY_URL = `${base}/idpay/payment/inquiry`;
+  process.env.NEXTPAY_REQUEST_URL = `${base}/nextpay/token`;
+  process.env.NEXTPAY_VERIFY_URL = `${base}/nextpay/verify`;
+  process.env.NEXTPAY_GATEWAY_URL = `${base}/nextpay/payment/`;
+  process.env.SAMAN_TOKEN_URL = `${base}/saman/token`;
+  process.env.SAMAN_GATEWAY_URL = `${base}/saman/pay`;
+  process.env.SAMAN_VERIFY_URL = `${base}/saman/verify`;
+  process.env.SAMAN_REVERSE_URL = `${base}/saman/reverse`;
+  process.env.MELLAT_SERVICE_URL = `${base}/mellat`;
+  process.env.MELLAT_GATEWAY_URL = `${base}/mellat/pay`;
+  process.env.PARSIAN_SALE_URL = `${base}/parsian/sale`;
+  process.env.PARSIAN_CONFIRM_URL = `${base}/parsian/confirm`;
+  process.env.PARSIAN_REVERSE_URL = `${base}/parsian/reverse`;
+  process.env.PARSIAN_GATEWAY_URL = `${base}/parsian/pay/`;
+  process.env.GATEWAY_BREAKER_MIN_REQUESTS = '3';
+  process.env.GATEWAY_BREAKER_COOLDOWN_SEC = '1';
+
+  const { getPaymentGateway, extractCallbackParams } = require('../src/routers/payment/gateways');
+  const { PaymentGatewayError } = require('../src/utils/errors');
+  const { GatewayCircuitBreaker, isTransportError, isTransportFailure } = require('../src/routers/payment/circuit-breaker');
+
+  const result: Record<string, any> = {};
+  const failures: string[] = [];
+  const check = (name: string, ok: boolean) => {
+    result[name] = ok ? 'ok' : 'FAILED';
+    if (!ok) failures.push(name);
+  };
+  const expectGatewayError = async (name: string, fn: () => Promise<any>, code?: number) => {
+    try {
+      await fn();
+      check(name, false);
+    } catch (e: any) {
+      check(name, e instanceof PaymentGatewayError && (code === undefined || e.code === code));
+    }
+  };
+  const request = (amount: number, orderId: string) => ({
+    amount,
+    description: 'Gateway test',
+    callbackUrl: 'http://localhost:3001/api/payment/callback',
+    orderId,
+    mobile: '09120000000',
+  });
+
+  // Pay.ir
+  const payir = getPaymentGateway('payir', { merchantId: 'payir-key', sandbox: false });
+  const payirCreated = await payir.createPayment(request(PAID_AMOUNT, 'o1'));
+  check('payir.create', payirCreated.authority === 'PAYIR-o1' && payirCreated.paymentUrl === `${base}/payir/PAYIR-o1`);
+  const payirSandbox = getPaymentGateway('payir', { merchantId: '', sandbox: true });
+  check('payir.create.sandbox', (await payirSandbox.createPayment(request(PAID_AMOUNT, 'o2'))).authority === 'PAYIR-o2');
+  await expectGatewayError('payir.create.rejected', () => payir.createPayment(request(REJECTED_AMOUNT, 'o3')), -5);
+  await expectGatewayError('payir.create.badKey',
+    () => getPaymentGateway('payir', { merchantId: 'wrong', sandbox: false }).createPayment(request(PAID_AMOUNT, 'o4')), -3);
+  const payirVerified = await payir.verifyPayment({ authority: 'PAYIR-o1', amount: PAID_AMOUNT });
+  check('payir.verify', payirVerified.refId === '778899' && payirVerified.amount === PAID_AMOUNT);
+  await expectGatewayError('payir.verify.unpaid', () => payir.verifyPayment({ authority: 'PAYIR-unpaid', amount: PAID_AMOUNT }), -9);
+  check('payir.inquiry', (await payir.inquirePayment({ authority: 'PAYIR-o1', amount: PAID_AMOUNT })).state === 'UNKNOWN');
+  await expectGatewayError('payir.refund', () => payir.refundPayment({ authority: 'PAYIR-o1', amount: PAID_AMOUNT }));
+  check('payir.testConnection', (await payir.testConnection()).ok);
+  const payirBadKey = await getPaymentGateway('payir', { merchantId: 'wrong', sandbox: false }).testConnection();
+  check('payir.testConnection.badKey', !payirBadKey.ok && payirBadKey.code === -3);
+
+  // IDPay
+  const idpay = getPaymentGateway('idpay', { merchantId: 'idpay-key', sandbox: true });
+  const idpayCreated = await idpay.createPayment(request(PAID_AMOUNT, 'o5'));
+  check('idpay.create', idpayCreated.authority === 'idp-o5' && idpayCreated.paymentUrl.endsWith('/idp-o5'));
+  await expectGatewayError('idpay.create.rejected', () => idpay.createPayment(request(REJECTED_AMOUNT, 'o6')), 34);
+  await expectGatewayError('idpay.create.badKey',
+    () => getPaymentGateway('idpay', { merchantId: 'wrong', sandbox: true }).createPayment(request(PAID_AMOUNT, 'o7')), 11);
+  const idpayVerified = await idpay.verifyPayment({ authority: 'idp-o5', amount: PAID_AMOUNT, orderId: 'o5' });
+  check('idpay.verify', idpayVerified.refId === '888001' && idpayVerified.amount === PAID_AMOUNT);
+  await expectGatewayError('idpay.verify.unpaid', () => idpay.verifyPayment({ authority: 'idp-unpaid', orderId: 'o8' }), 53);
+  const inquire = async (authority: string) => (await idpay.inquirePayment({ authority, amount: PAID_AMOUNT, orderId: 'o5' })).state;
+  check('idpay.inquiry.pending', (await inquire('idp-pending')) === 'PENDING');
+  check('idpay.inquiry.paid', (await inquire('idp-paid')) === 'PAID');
+  check('idpay.inquiry.verified', (await inquire('idp-verified')) === 'VERIFIED');
+  check('idpay.inquiry.failed', (await inquire('idp-cancelled')) === 'FAILED');
+  await expectGatewayError('idpay.refund', () => idpay.refundPayment({ authority: 'idp-o5', amount: PAID_AMOUNT }));
+
+  // NextPay
+  const nextpay = getPaymentGateway('nextpay', { merchantId: 'nextpay-key', sandbox: false });
+  const nextpayCreated = await nextpay.createPayment(request(PAID_AMOUNT, 'o9'));
+  check('nextpay.create', nextpayCreated.authority === 'np-o9' && nextpayCreated.paymentUrl === `${base}/nextpay/payment/np-o9`);
+  await expectGatewayError('nextpay.create.rejected', () => nextpay.createPayment(request(REJECTED_AMOUNT, 'o10')), -33);
+  const nextpayVerified = await nextpay.verifyPayment({ authority: 'np-o9', amount: PAID_AMOUNT });
+  check('nextpay.verify', nextpayVerified.refId === '112233' && nextpayVerified.amount === PAID_AMOUNT);
+  await expectGatewayError('nextpay.verify.mismatch', () => nextpay.verifyPayment({ authority: 'np-o9', amount: 999 }), -25);
+  check('nextpay.inquiry', (await nextpay.inquirePayment({ authority: 'np-o9', amount: PAID_AMOUNT })).state === 'UNKNOWN');
+  check('nextpay.refund', (await nextpay.refundPayment({ authority: 'np-o9', amount: PAID_AMOUNT })).refundId === 'np-o9');
+  await expectGatewayError('nextpay.refund.partial', () => nextpay.refundPayment({ authority: 'np-o9', amount: 500 }), -91);
+
+  // Saman
+  const saman = getPaymentGateway('saman', { merchantId: '1234567', sandbox: false });
+  const samanCreated = await saman.createPayment(request(PAID_AMOUNT, '1001'));
+  check('saman.create', samanCreated.authority === 'sep-1001' && samanCreated.redirect?.method === 'POST'
+    && samanCreated.redirect?.fields?.Token === 'sep-1001');
+  await expectGatewayError('saman.create.rejected', () => saman.createPayment(request(REJECTED_AMOUNT, '1002')), 5);
+  const samanCallback = { Token: 'sep-1001', State: 'OK', RefNum: 'REF1001', ResNum: '1001' };
+  const samanVerified = await saman.verifyPayment({ authority: 'sep-1001', amount: PAID_AMOUNT, orderId: '1001', params: samanCallback });
+  check('saman.verify', samanVerified.refId === 'REF1001' && samanVerified.amount === PAID_AMOUNT
+    && samanVerified.merchantId === '1234567');
+  await expectGatewayError('saman.verify.unpaid',
+    () => saman.verifyPayment({ authority: 'sep-x', orderId: '1003', params: { RefNum: 'unpaid', ResNum: '1003' } }), -2);
+  await expectGatewayError('saman.verify.otherOrder',
+    () => saman.verifyPayment({ authority: 'sep-1001', orderId: '9999', params: samanCallback }), -1);
+  await expectGatewayError('saman.verify.noCallback', () => saman.verifyPayment({ authority: 'sep-1001', orderId: '1001' }));
+  check('saman.inquiry.noCallback', (await saman.inquirePayment({ authority: 'sep-1001', amount: PAID_AMOUNT })).state === 'PENDING');
+  check('saman.inquiry.cancelled',
+    (await saman.inquirePayment({ authority: 'sep-1001', amount: PAID_AMOUNT, params: { State: 'CanceledByUser' } })).state === 'FAILED');
+  check('saman.refund', (await saman.refundPayment({ authority: 'sep-1001', refId: 'REF1001', amount: PAID_AMOUNT, paymentAmount: PAID_AMOUNT })).refundId === 'REF1001');
+  await expectGatewayError('saman.refund.partial',
+    () => saman.refundPayment({ authority: 'sep-1001', refId: 'REF1001', amount: 500, paymentAmount: PAID_AMOUNT }));
+
+  // Mellat
+  const mellat = getPaymentGateway('mellat', { merchantId: '555', sandbox: false, options: { username: 'shop', password: 'secret' } });
+  const mellatCreated = await mellat.createPayment(request(PAID_AMOUNT, '2001'));
+  check('mellat.create', mellatCreated.authority === 'RID2001' && mellatCreated.redirect?.method === 'POST'
+    && mellatCreated.redirect?.fields?.RefId === 'RID2001');
+  await expectGatewayError('mellat.create.rejected', () => mellat.createPayment(request(REJECTED_AMOUNT, '2002')), 34);
+  await expectGatewayError('mellat.create.nonNumericOrder', () => mellat.createPayment(request(PAID_AMOUNT, 'abc')));
+  await expectGatewayError('mellat.create.badPassword',
+    () => getPaymentGateway('mellat', { merchantId: '555', sandbox: false, options: { username: 'shop', password: 'wrong' } })
+      .createPayment(request(PAID_AMOUNT, '2003')), 21);
+  mellatCalls.length = 0;
+  const mellatCallback = { RefId: 'RID2001', ResCode: '0', SaleOrderId: '2001', SaleReferenceId: '88001', CardHolderPan: '610433****1234' };
+  const mellatVerified = await mellat.verifyPayment({ authority: 'RID2001', amount: PAID_AMOUNT, orderId: '2001', params: mellatCallback });
+  check('mellat.verify', mellatVerified.refId === '88001' && mellatVerified.authority === 'RID2001');
+  check('mellat.verify.settles', mellatCalls.join(',') === 'bpVerifyRequest,bpSettleRequest');
+  await expectGatewayError('mellat.verify.unpaid',
+    () => mellat.verifyPayment({ authority: 'RID2001', orderId: '2001', params: { ...mellatCallback, SaleReferenceId: 'unpaid' } }), 417);
+  mellatCalls.length = 0;
+  await expectGatewayError('mellat.verify.settleFails',
+    () => mellat.verifyPayment({ authority: 'RID2001', orderId: '2001', params: { ...mellatCallback, SaleReferenceId: 'nosettle' } }), 416);
+  check('mellat.verify.reversesUnsettled', mellatCalls.join(',') === 'bpVerifyRequest,bpSettleRequest,bpReversalRequest');
+  await expectGatewayError('mellat.verify.otherOrder',
+    () => mellat.verifyPayment({ authority: 'RID2001', orderId: '2999', params: mellatCallback }), -1);
+  check('mellat.inquiry.noCallback', (await mellat.inquirePayment({ authority: 'RID2001', amount: PAID_AMOUNT, orderId: '2001' })).state === 'PENDING');
+  check('mellat.inquiry.verified',
+    (await mellat.inquirePayment({ authority: 'RID2001', amount: PAID_AMOUNT, orderId: '2001', params: mellatCallback })).state === 'VERIFIED');
+  check('mellat.inquiry.failed',
+    (await mellat.inquirePayment({ authority: 'RID2001', amount: PAID_AMOUNT, orderId: '2001', params: { ResCode: '17' } })).state === 'FAILED');
+  await expectGatewayError('mellat.refund', () => mellat.refundPayment({ authority: 'RID2001', amount: PAID_AMOUNT }));
+
+  // Parsian
+  const parsian = getPaymentGateway('parsian', { merchantId: 'pin123', sandbox: false });
+  const parsianCreated = await parsian.createPayment(request(PAID_AMOUNT, '3001'));
+  check('parsian.create', parsianCreated.authority === '93001' && parsianCreated.paymentUrl === `${base}/parsian/pay/?Token=93001`
+    && parsianCreated.redirect === undefined);
+  await expectGatewayError('parsian.create.rejected', () => parsian.createPayment(request(REJECTED_AMOUNT, '3002')), -112);
+  const parsianVerified = await parsian.verifyPayment({ authority: '93001', amount: PAID_AMOUNT, orderId: '3001', params: { Token: '93001', status: '0', OrderId: '3001' } });
+  check('parsian.verify', parsianVerified.refId === '7001' && parsianVerified.authority === '93001');
+  check('parsian.verify.noCallback', (await parsian.verifyPayment({ authority: '93001', orderId: '3001' })).refId === '7001');
+  await expectGatewayError('parsian.verify.unpaid', () => parsian.verifyPayment({ authority: '111', orderId: '3003' }), -138);
+  check('parsian.inquiry', (await parsian.inquirePayment({ authority: '93001', amount: PAID_AMOUNT })).state === 'UNKNOWN');
+  check('parsian.refund', (await parsian.refundPayment({ authority: '93001', amount: PAID_AMOUNT, paymentAmount: PAID_AMOUNT })).refundId === '93001');
+  await expectGatewayError('parsian.refund.partial',
+    () => parsian.refundPayment({ authority: '93001', amount: 1, paymentAmount: PAID_AMOUNT }));
+
+  // Network errors map to PaymentGatewayError without a code
+  const unreachable = getPaymentGateway('nextpay', { merchantId: 'nextpay-key', sandbox: false });
+  (unreachable as any).verifyUrl = 'http://127.0.0.1:1/verify';
+  try {
+    await unreachable.verifyPayment({ authority: 'np-o9', amount: PAID_AMOUNT });
+    check('network.error', false);
+  } catch (e: any) {
+    check('network.error', e instanceof PaymentGatewayError && e.code === undefined && e.transport);
+  }
+
+  // Circuit breaker
+  check('breaker.transportError', isTransportError(new PaymentGatewayError('timeout', undefined, true))
+    && !isTransportError(new PaymentGatewayError('rejected', -9))
+    && !isTransportError(new PaymentGatewayError('rejected without a code')));
+  check('breaker.httpErrors', isTransportFailure({ code: 'ECONNABORTED' })
+    && isTransportFailure({ message: 'socket hang up' })
+    && isTransportFailure({ response: { status: 503 } })
+    && !isTransportFailure({ response: { status: 400, data: { errors: { code: -9 } } } }));
+  const breaker = new GatewayCircuitBreaker();
+  breaker.recordSuccess('user-1', 'zarinpal');
+  breaker.recordFailure('user-1', 'zarinpal');
+  check('breaker.belowThreshold', breaker.getState('user-1', 'zarinpal') === 'CLOSED');
+  breaker.recordFailure('user-1', 'zarinpal');
+  check('breaker.opens', breaker.getState('user-1', 'zarinpal') === 'OPEN' && breaker.getHealth('zarinpal', 'user-1').failureRate === 0.67);
+  check('breaker.perCredential', breaker.getState('user-2', 'zarinpal') === 'CLOSED'
+    && breaker.prioritize('user-2', ['zarinpal', 'zibal']).join(',') === 'zarinpal,zibal'
+    && breaker.getHealth('zarinpal').state === 'OPEN');
+  check('breaker.prioritize', breaker.prioritize('user-1', ['zarinpal', 'zibal', 'idpay']).join(',') === 'zibal,idpay,zarinpal');
+  await new Promise(resolve => setTimeout(resolve, 1100));
+  check('breaker.halfOpen', breaker.getState('user-1', 'zarinpal') === 'HALF_OPEN');
+  breaker.recordFailure('user-1', 'zarinpal');
+  check('breaker.reopens', breaker.getState('user-1', 'zarinpal') === 'OPEN');
+  await new Promise(resolve => setTimeout(resolve, 1100));
+  breaker.recordSuccess('user-1', 'zarinpal');
+  check('breaker.closes', breaker.getState('user-1', 'zarinpal') === 'CLOSED' && breaker.getHealth('zarinpal', 'user-1').failures === 0);
+
+  // Currencies
+  const { convertAmount, formatMoney } = require('../src/utils/currency');
+  check('currency.convert', convertAmount(500, 'IRT', 'IRR') === 5000 && convertAmount(5000, 'IRR', 'IRT') === 500);
+  let inexact = false;
+  try { convertAmount(15, 'IRR', 'IRT'); } catch { inexact = true; }
+  check('currency.convert.inexact', inexact);
+  check('currency.format', formatMoney(50000, 'IRT', 'en') === `${(50000).toLocaleString('fa-IR')} Toman`);
+  check('currency.supports', saman.supportsCurrency('IRT') && saman.supportsCurrency('IRR') && nextpay.supportsCurrency('IRT'));
+  const nextpayToman = await nextpay.verifyPayment({ authority: 'np-o9', amount: PAID_AMOUNT, currency: 'IRT' });
+  check('currency.nextpay.native', nextpayToman.currency === 'IRT' && nextpayToman.amount === PAID_AMOUNT);
+
+  // Callback parameters
+  const callback = (params: Record<string, string>) => {
+    const { authority, status } = extractCallbackParams(params);
+    return `${authority}:${status}`;
+  };
+  check('callback.zarinpal', callback({ Authority: 'A1', Status: 'OK' }) === 'A1:OK');
+  check('callback.zibal', callback({ trackId: '55', success: '0', status: '3' }) === '55:NOK');
+  check('callback.payir', callback({ token: 'PAYIR-o1', status: '1' }) === 'PAYIR-o1:OK');
+  check('callback.idpay', callback({ id: 'idp-o5', order_id: 'o5', status: '7' }) === 'idp-o5:NOK');
+  check('callback.nextpay', callback({ trans_id: 'np-o9', order_id: 'o9', amount: '1000' }) === 'np-o9:');
+  check('callback.saman', callback(samanCallback) === 'sep-1001:OK');
+  check('callback.saman.cancelled', callback({ Token: 'sep-1001', State: 'CanceledByUser' }) === 'sep-1001:NOK');
+  check('callback.mellat', callback(mellatCallback) === 'RID2001:OK');
+  check('callback.mellat.failed', callback({ RefId: 'RID2001', ResCode: '17' }) === 'RID2001:NOK');
+  check('callback.parsian', callback({ Token: '93001', status: '0', OrderId: '3001', RRN: '7001' }) === '93001:OK');
+  check('callback.params', extractCallbackParams(mellatCallback).params.SaleReferenceId === '88001');
+
+  server.close();
+  console.log(JSON.stringify(result, null, 2));
+  if (failures.length > 0) {
+    throw new Error(`Gateway checks failed: ${failures.join(', ')}`);
+  }
+}
+
+main().then(() => process.exit(0)).catch((err) => {
+  console.error('Gateway tests failed:', err?.message || err);
+  process.exit(1);
+});
@@ -11,17 +11,68 @@ const envSchema = z.object({
   APP_NAME: z.string().default('Subscription API'),
   NODE_ENV: z.string().default('development'),
   MASTER_API_KEY: z.string().optional(),
+  PAYMENT: z.object({
+    SUCCESS_URL: z.string().url(),
+    FAILURE_URL: z.string().url(),
+  }),
   ZARINPAL: z.object({
     SANDBOX: z.boolean().default(true),
     REQUEST_URL: z.string().default('https://sandbox.zarinpal.com/pg/v4/payment/request.json'),
     VERIFY_URL: z.string().default('https://sandbox.zarinpal.com/pg/v4/payment/verify.json'),
     GATEWAY_URL: z.string().default('https://sandbox.zarinpal.com/pg/StartPay/'),
+    INQUIRY_URL: z.string().default('https://sandbox.zarinpal.com/pg/v4/payment/inquiry.json'),
+    REFUND_URL: z.string().default('https://next.zarinpal.com/api/v4/graphql'),
   }),
   ZIBAL: z.object({
     SANDBOX: z.boolean().default(true),
     REQUEST_URL: z.string().default('https://api.zibal.ir/v1/request'),
     VERIFY_URL: z.string().default('https://api.zibal.ir/v1/verify'),
     GATEWAY_URL: z.string().default('https://gateway.zibal.ir/start/'),
+    INQUIRY_URL: z.string().default('https://gateway.zibal.ir/v1/inquiry'),
+    REFUND_URL: z.string().default('https://api.zibal.ir/v1/account/refund'),
+  }),
+  PAYIR: z.object({
+    SANDBOX: z.boolean().default(true),
+    REQUEST_URL: z.string().default('https://pay.ir/pg/send'),
+    VERIFY_URL: z.string().default('https://pay.ir/pg/verify'),
+    GATEWAY_URL: z.string().default('https://pay.ir/pg/'),
+  }),
+  IDPAY: z.object({
+    SANDBOX: z.boolean().default(true),
+    REQUEST_URL: z.string().default('https://api.idpay.ir/v1.1/payment'),
+    VERIFY_URL: z.string().default('https://api.idpay.ir/v1.1/payment/verify'),
+    INQUIRY_URL: z.string().default('https://api.idpay.ir/v1.1/payment/inquiry'),
+  }),
+  NEXTPAY: z.object({
+    REQUEST_URL: z.string().default('https://nextpay.org/nx/gateway/token'),
+    VERIFY_URL: z.string().default('https://nextpay.org/nx/gateway/verify'),
+    GATEWAY_URL: z.string().default('https://nextpay.org/nx/gateway/payment/'),
+  }),
+  SAMAN: z.object({
+    TOKEN_URL: z.string().default('https://sep.shaparak.ir/onlinepg/onlinepg'),
+    GATEWAY_URL: z.string().default('https://sep.shaparak.ir/OnlinePG/OnlinePG'),
+    VERIFY_URL: z.string().default('https://sep.shaparak.ir/verifyTxnRandomSessionkey/ipg/VerifyTransaction'),
+    REVERSE_URL: z.string().default('https://sep.shaparak.ir/verifyTxnRandomSessionkey/ipg/ReverseTransaction'),
+  }),
+  MELLAT: z.object({
+    SERVICE_URL: z.string().default('https://bpm.shaparak.ir/pgwchannel/services/pgw'),
+    GATEWAY_URL: z.string().default('https://bpm.shaparak.ir/pgwchannel/startpay.mellat'),
+  }),
+  PARSIAN: z.object({
+    SALE_URL: z.string().default('https://pec.shaparak.ir/NewIPGServices/Sale/SaleService.asmx'),
+    CONFIRM_URL: z.string().default('https://pec.shaparak.ir/NewIPGServices/Confirm/ConfirmService.asmx'),
+    REVERSE_URL: z.string().default('https://pec.shaparak.ir/NewIPGServices/Reverse/ReversalService.asmx'),
+    GATEWAY_URL: z.string().default('https://pec.shaparak.ir/NewIPG/'),
+  }),
+  GATEWAY_BREAKER: z.object({
+    WINDOW_SEC: z.number().default(300),
+    MIN_REQUESTS: z.number().default(5),
+    FAILURE_RATE: z.number().default(0.5),
+    COOLDOWN_SEC: z.number().default(60),
+  }),
+  CREDENTIALS: z.object({
+    MASTER_KEYS: z.string().optional(),
+    ACTIVE_KEY_ID: z.string().optional(),
   }),
   SMS: z.object({
     API_KEY: z.string().optional(),
@@ -38,6 +89,54 @@ const envSchema = z.object({
     API_KEY: z.string().optional(),
     FROM: z.string().optional(),
   }),
+  INVOICE: z.object({
+    PDF_RENDERER_URL: z.string().optional(),
+    PDF_TIMEOUT_MS: z.number().default(15000),
+  }),
+  JOBS: z.object({
+    ENABLED: z.boolean().default(true),
+    LOCK_TTL_SEC: z.number().default(300),
+    BATCH_SIZE: z.number().default(100),
+    EXPIRY_INTERVAL_SEC: z.number().default(60),
+    RENEWAL_INTERVAL_SEC: z.number().default(900),
+    DUNNING_INTERVAL_SEC: z.number().default(3600),
+    TRIAL_INTERVAL_SEC: z.number().default(3600),
+    RECONCILE_INTERVAL_SEC: z.number().default(600),
+    WEBHOOK_INTERVAL_SEC: z.number().default(10),
+    IDEMPOTENCY_INTERVAL_SEC: z.number().default(3600),
+  }),
+  RENEWAL: z.object({
+    LEAD_DAYS: z.number().default(7),
+    REMINDER_DAYS: z.array(z.number()).default([3, 1]),
+  }),
+  GRACE: z.object({
+    DAYS: z.number().default(3),
+    DUNNING_DAYS: z.array(z.number()).default([0, 1, 2]),
+  }),
+  TRIAL: z.object({
+    REMINDER_DAYS: z.number().default(2),
+  }),
+  ALERTS: z.object({
+    EMAIL: z.string().optional(),
+    PHONE: z.string().optional(),
+  }),
+  IDEMPOTENCY: z.object({
+    TTL_HOURS: z.number().default(24),
+  }),
+  RECONCILE: z.object({
+    MIN_AGE_MIN: z.number().default(15),
+    ABANDON_AFTER_HOURS: z.number().default(24),
+  }),
+  WEBHOOK: z.object({
+    TIMEOUT_MS: z.number().default(10000),
+    MAX_ATTEMPTS: z.number().default(12),
+    RETRY_BASE_SEC: z.number().default(60),
+    RETRY_MAX_SEC: z.number().default(21600),
+    DISABLE_AFTER_HOURS: z.number().default(72),
+    SECRET_ROTATION_HOURS: z.number().default(24),
+    BATCH_PER_WEBHOOK: z.number().default(10),
+    ALLOW_PRIVATE_URLS: z.boolean().default(false),
+  }),
 });
 
 const parsedEnv = {
@@ -48,17 +147,68 @@ const parsedEnv = {
   APP_NAME: process.env.APP_NAME,
   NODE_ENV: process.env.NODE_ENV,
   MASTER_API_KEY: process.env.MASTER_API_KEY,
+  PAYMENT: {
+    SUCCESS_URL: process.env.PAYMENT_SUCCESS_URL || `${process.env.FRONTEND_URL || 'http://localhost:3000'}/payment/verify`,
+    FAILURE_URL: process.env.PAYMENT_FAILURE_URL || `${process.env.FRONTEND_URL || 'http://localhost:3000'}/payment/verify`,
+  },
   ZARINPAL: {
     SANDBOX: process.env.ZARINPAL_SANDBOX === 'true',
     REQUEST_URL: process.env.ZARINPAL_REQUEST_URL,
     VERIFY_URL: process.env.ZARINPAL_VERIFY_URL,
     GATEWAY_URL: process.env.ZARINPAL_GATEWAY_URL,
+    INQUIRY_URL: process.env.ZARINPAL_INQUIRY_URL,
+    REFUND_URL: process.env.ZARINPAL_REFUND_URL,
   },
   ZIBAL: {
     SANDBOX: process.env.ZIBAL_SANDBOX === 'true',
     REQUEST_URL: process.env.ZIBAL_REQUEST_URL,
     VERIFY_URL: process.env.ZIBAL_VERIFY_URL,
     GATEWAY_URL: process.env.ZIBAL_GATEWAY_URL,
+    INQUIRY_URL: process.env.ZIBAL_INQUIRY_URL,
+    REFUND_URL: process.env.ZIBAL_REFUND_URL,
+  },
+  PAYIR: {
+    SANDBOX: process.env.PAYIR_SANDBOX === 'true',
+    REQUEST_URL: process.env.PAYIR_REQUEST_URL,
+    VERIFY_URL: process.env.PAYIR_VERIFY_URL,
+    GATEWAY_URL: process.env.PAYIR_GATEWAY_URL,
+  },
+  IDPAY: {
+    SANDBOX: process.env.IDPAY_SANDBOX === 'true',
+    REQUEST_URL: process.env.IDPAY_REQUEST_URL,
+    VERIFY_URL: process.env.IDPAY_VERIFY_URL,
+    INQUIRY_URL: process.env.IDPAY_INQUIRY_URL,
+  },
+  NEXTPAY: {
+    REQUEST_URL: process.env.NEXTPAY_REQUEST_URL,
+    VERIFY_URL: process.env.NEXTPAY_VERIFY_URL,
+    GATEWAY_URL: process.env.NEXTPAY_GATEWAY_URL,
+  },
+  SAMAN: {
+    TOKEN_URL: process.env.SAMAN_TOKEN_URL,
+    GATEWAY_URL: process.env.SAMAN_GATEWAY_URL,
+    VERIFY_URL: process.env.SAMAN_VERIFY_URL,
+    REVERSE_URL: process.env.SAMAN_REVERSE_URL,
+  },
+  MELLAT: {
+    SERVICE_URL: process.env.MELLAT_SERVICE_URL,
+    GATEWAY_URL: process.env.MELLAT_GATEWAY_URL,
+  },
+  PARSIAN: {
+    SALE_URL: process.env.PARSIAN_SALE_URL,
+    CONFIRM_URL: process.env.PARSIAN_CONFIRM_URL,
+    REVERSE_URL: process.env.PARSIAN_REVERSE_URL,
+    GATEWAY_URL: process.env.PARSIAN_GATEWAY_URL,
+  },
+  GATEWAY_BREAKER: {
+    WINDOW_SEC: Number(process.env.GATEWAY_BREAKER_WINDOW_SEC || 300),
+    MIN_REQUESTS: Number(process.env.GATEWAY_BREAKER_MIN_REQUESTS || 5),
+    FAILURE_RATE: Number(process.env.GATEWAY_BREAKER_FAILURE_RATE || 0.5),
+    COOLDOWN_SEC: Number(process.env.GATEWAY_BREAKER_COOLDOWN_SEC || 60),
+  },
+  CREDENTIALS: {
+    MASTER_KEYS: process.env.CREDENTIAL_MASTER_KEYS,
+    ACTIVE_KEY_ID: process.env.CREDENTIAL_ACTIVE_KEY_ID,
   },
   SMS: {
     API_KEY: process.env.SMS_API_KEY,
@@ -75,6 +225,60 @@ const parsedEnv = {
     API_KEY: process.env.RESEND_API_KEY,
     FROM: process.env.RESEND_FROM,
   },
+  INVOICE: {
+    PDF_RENDERER_URL: process.env.INVOICE_PDF_RENDERER_URL,
+    PDF_TIMEOUT_MS: Number(process.env.INVOICE_PDF_TIMEOUT_MS || 15000),
+  },
+  JOBS: {
+    ENABLED: process.env.JOBS_ENABLED !== 'false',
+    LOCK_TTL_SEC: Number(process.env.JOBS_LOCK_TTL_SEC || 300),
+    BATCH_SIZE: Number(process.env.JOBS_BATCH_SIZE || 100),
+    EXPIRY_INTERVAL_SEC: Number(process.env.JOBS_EXPIRY_INTERVAL_SEC || 60),
+    RENEWAL_INTERVAL_SEC: Number(process.env.JOBS_RENEWAL_INTERVAL_SEC || 900),
+    DUNNING_INTERVAL_SEC: Number(process.env.JOBS_DUNNING_INTERVAL_SEC || 3600),
+    TRIAL_INTERVAL_SEC: Number(process.env.JOBS_TRIAL_INTERVAL_SEC || 3600),
+    RECONCILE_INTERVAL_SEC: Number(process.env.JOBS_RECONCILE_INTERVAL_SEC || 600),
+    WEBHOOK_INTERVAL_SEC: Number(process.env.JOBS_WEBHOOK_INTERVAL_SEC || 10),
+    IDEMPOTENCY_INTERVAL_SEC: Number(process.env.JOBS_IDEMPOTENCY_INTERVAL_SEC || 3600),
+  },
+  RENEWAL: {
+    LEAD_DAYS: Number(process.env.RENEWAL_LEAD_DAYS || 7),
+    REMINDER_DAYS: (process.env.RENEWAL_REMINDER_DAYS || '3,1')
+      .split(',')
+      .map(d => Number(d.trim()))
+      .filter(d => !Number.isNaN(d)),
+  },
+  GRACE: {
+    DAYS: Number(process.env.GRACE_DAYS || 3),
+    DUNNING_DAYS: (process.env.GRACE_DUNNING_DAYS || '0,1,2')
+      .split(',')
+      .map(d => Number(d.trim()))
+      .filter(d => !Number.isNaN(d)),
+  },
+  TRIAL: {
+    REMINDER_DAYS: Number(process.env.TRIAL_REMINDER_DAYS || 2),
+  },
+  ALERTS: {
+    EMAIL: process.env.ADMIN_ALERT_EMAIL,
+    PHONE: process.env.ADMIN_ALERT_PHONE,
+  },
+  IDEMPOTENCY: {
+    TTL_HOURS: Number(process.env.IDEMPOTENCY_TTL_HOURS || 24),
+  },
+  RECONCILE: {
+    MIN_AGE_MIN: Number(process.env.RECONCILE_MIN_AGE_MIN || 15),
+    ABANDON_AFTER_HOURS: Number(process.env.RECONCILE_ABANDON_AFTER_HOURS || 24),
+  },
+  WEBHOOK: {
+    TIMEOUT_MS: Number(process.env.WEBHOOK_TIMEOUT_MS || 10000),
+    MAX_ATTEMPTS: Number(process.env.WEBHOOK_MAX_ATTEMPTS || 12),
+    RETRY_BASE_SEC: Number(process.env.WEBHOOK_RETRY_BASE_SEC || 60),
+    RETRY_MAX_SEC: Number(process.env.WEBHOOK_RETRY_MAX_SEC || 21600),
+    DISABLE_AFTER_HOURS: Number(process.env.WEBHOOK_DISABLE_AFTER_HOURS || 72),
+    SECRET_ROTATION_HOURS: Number(process.env.WEBHOOK_SECRET_ROTATION_HOURS || 24),
+    BATCH_PER_WEBHOOK: Number(process.env.WEBHOOK_BATCH_PER_WEBHOOK || 10),
+    ALLOW_PRIVATE_URLS: process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true',
+  },
   EMAIL: {
     HOST: process.env.SMTP_HOST,
     PORT: process.env.SMTP_PORT,
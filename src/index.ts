@@ -5,14 +5,26 @@ import { env } from './config/env';
 import { PrismaClient } from '@prisma/client';
 import { SubscriptionService } from './routers/subscription/subscription.service';
 import { PaymentService } from './routers/payment/payment.service';
-import { createSubscriptionSchema, verifyPaymentSchema, createUserSchema, createPlanSchema, createApiKeySchema, deactivateApiKeySchema, upsertGatewayCredentialSchema } from './utils/validators';
+import { createSubscriptionSchema, changePlanSchema, cancelSubscriptionSchema, resumeSubscriptionSchema, payTrialSchema, refundPaymentSchema, settleRefundSchema, reconcilePaymentSchema, verifyPaymentSchema, createUserSchema, createPlanSchema, updatePlanSchema, createApiKeySchema, deactivateApiKeySchema, upsertGatewayCredentialSchema, updateGatewayCredentialSchema, gatewayCredentialRefSchema, createCouponSchema, updateCouponSchema, createSellerSchema, updateSellerSchema, updateBillingSchema, analyticsQuerySchema } from './utils/validators';
 import { ApiKeyService } from './routers/apikey/apikey.service';
 import { AuditService } from './routers/audit/audit.service';
 import { AuthService } from './routers/auth/auth.service';
 import { WebhookService } from './routers/webhook/webhook.service';
-import { createWebhookSchema, updateWebhookSchema, requestOtpSchema, verifyOtpSchema } from './utils/validators';
+import { createWebhookSchema, updateWebhookSchema, webhookRefSchema, rotateWebhookSecretSchema, listWebhookDeliveriesSchema, replayWebhookSchema, requestOtpSchema, verifyOtpSchema } from './utils/validators';
 import { GatewayCredentialService } from './routers/payment/gateway-credential.service';
-import { getSupportedGateways } from './routers/payment/gateways';
+import { CouponService } from './routers/coupon/coupon.service';
+import { InvoiceService } from './routers/invoice/invoice.service';
+import { AnalyticsService } from './routers/analytics/analytics.service';
+import { ReconciliationService } from './routers/payment/reconciliation.service';
+import { IdempotencyService, IdempotentResponse } from './routers/idempotency/idempotency.service';
+import { AppError, ConflictError, NotFoundError, ValidationError } from './utils/errors';
+import { renderRedirectPage } from './utils/html';
+import { getSupportedGateways, extractCallbackParams } from './routers/payment/gateways';
+import { createJobScheduler } from './jobs';
+import { SubscriptionStatus, PaymentStatus } from './types/enums';
+import { AnalyticsQuery } from './types/analytics.types';
+import { MaskedGatewayCredential } from './types/payment.types';
+import { GatewayCredentialEventData } from './types/webhook.types';
 
 /**
  * Main Server Application
@@ -39,8 +51,9 @@ app.use(express.json());
 // In production, you'd want to restrict this to your actual domain
 app.use((req, res, next) => {
   res.header('Access-Control-Allow-Origin', '*');
-  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key');
+  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key, Idempotency-Key');
+  res.header('Access-Control-Expose-Headers', 'Idempotent-Replayed');
   
   // Handle preflight requests
   if (req.method === 'OPTIONS') {
@@ -92,6 +105,10 @@ const authService = new AuthService(prisma);
 const webhookService = new WebhookService(prisma);
 const audit = new AuditService(prisma);
 const gatewayCreds = new GatewayCredentialService(prisma);
+const couponService = new CouponService(prisma);
+const invoiceService = new InvoiceService(prisma);
+const analyticsService = new AnalyticsService(prisma);
+const idempotency = new IdempotencyService(prisma);
 
 function extractKey(req: express.Request): string | undefined {
   const headerKey = (req.header('x-api-key') || '').trim();
@@ -110,6 +127,7 @@ app.use(async (req, res, next) => {
   const exempt =
     req.path === '/health' ||
     req.path === '/api/payment/callback' ||
+    req.path === '/api/payment/redirect' ||
     req.path === '/api/auth/request-otp' ||
     req.path === '/api/auth/verify-otp' ||
     req.path === '/openapi.yaml' ||
@@ -121,6 +139,7 @@ app.use(async (req, res, next) => {
   const result = await apiKeyService.verifyAndTouch(key);
   if (!result.ok) return res.status(401).json({ error: 'Unauthorized', message: 'Invalid API key' });
   (req as any).user = result.user || undefined;
+  (req as any).apiKeyId = result.keyId;
   next();
 });
 
@@ -144,31 +163,90 @@ app.get('/health', (req, res) => {
 /**
  * Payment callback endpoint (for gateway redirects)
  * 
- * When a user completes payment on Zarinpal, they get redirected to this URL.
- * This endpoint extracts the parameters and redirects to your frontend with
- * the payment details so your frontend can verify and show the result.
+ * When a user completes payment on the gateway, they get redirected to this URL.
+ * The payment is verified with the gateway and the subscription is activated
+ * right here, before the user is redirected to the frontend, so a payment is
+ * never left PENDING because the user closed the tab.
  * 
- * In a production app, you'd set this as your callback URL in Zarinpal's dashboard.
+ * The user then lands on PAYMENT_SUCCESS_URL or PAYMENT_FAILURE_URL with
+ * `authority`, `status` and `paymentId` query parameters.
+ * 
+ * Set this as your callback URL in the gateway dashboard if it asks for one.
  * For example: https://yourdomain.com/api/payment/callback
  * 
- * The gateway adds parameters like: ?Authority=xxx&Status=OK
+ * Gateways send their own parameters, e.g. ?Authority=xxx&Status=OK (Zarinpal),
+ * ?trackId=xxx&success=1&status=2 (Zibal) or ?token=xxx&status=1 (Pay.ir).
+ * IDPay and the bank IPGs (Saman, Mellat, Parsian) post them as a form, so
+ * the callback also accepts POST.
  */
-app.get('/api/payment/callback', (req, res) => {
-  const { Authority, Status, trackId, status } = req.query;
-  const authority = (Authority as string) || (trackId as string) || '';
-  const statusParam = (Status as string) || (status as string) || '';
-  
-  // In production, you'd redirect to your actual frontend URL
-  // For example: https://yourdomain.com/payment/verify?authority=xxx&status=OK
-  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+async function handlePaymentCallback(req: express.Request, res: express.Response) {
+  const callbackParams = req.method === 'POST' ? { ...req.query, ...req.body } : req.query;
+  const { authority, status: statusParam, params } = extractCallbackParams(callbackParams);
+
+  const redirectTo = (base: string, params: Record<string, string | undefined>) => {
+    const url = new URL(base);
+    for (const [key, value] of Object.entries(params)) {
+      if (value) url.searchParams.set(key, value);
+    }
+    res.redirect(url.toString());
+  };
+
+  if (!authority) {
+    redirectTo(env.PAYMENT.FAILURE_URL, { status: 'NOK', reason: 'missing_authority' });
+    return;
+  }
+
+  let payment;
+  try {
+    payment = await paymentService.verifyPayment(authority, statusParam, params);
+  } catch (err: any) {
+    console.error(`[Callback] Verification failed for ${authority}:`, err?.message || err);
+    redirectTo(env.PAYMENT.FAILURE_URL, { authority, status: 'NOK' });
+    return;
+  }
+
+  if (payment.status === PaymentStatus.COMPLETED) {
+    try {
+      await subscriptionService.handlePaymentCompleted(payment);
+    } catch (err: any) {
+      // The payment itself is recorded as COMPLETED; activation can be retried
+      // through POST /api/payment/verify, so the user still sees a success page
+      console.error(`[Callback] Activation failed for payment ${payment.id}:`, err?.message || err);
+    }
+  }
 
-  res.redirect(
-    `${frontendUrl}/payment/verify?authority=${authority}&status=${statusParam}`
-  );
+  redirectTo(env.PAYMENT.SUCCESS_URL, {
+    authority,
+    status: 'OK',
+    paymentId: payment.id,
+    subscriptionId: payment.subscriptionId,
+  });
+}
+
+app.get('/api/payment/callback', handlePaymentCallback);
+app.post('/api/payment/callback', express.urlencoded({ extended: false }), handlePaymentCallback);
+
+/**
+ * Payment redirect page
+ * 
+ * Bank IPGs (Saman, Mellat) only accept the payment token as a form post, so
+ * their payment links point here. The page posts the form to the bank.
+ * 
+ * Example: GET /api/payment/redirect?authority=xxx
+ */
+app.get('/api/payment/redirect', async (req, res) => {
+  try {
+    const authority = String(req.query.authority || '');
+    const redirect = await paymentService.getPaymentRedirect(authority);
+    res.type('html').send(renderRedirectPage(redirect));
+  } catch (err: any) {
+    res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
+  }
 });
 
 const subscriptionService = new SubscriptionService(prisma);
 const paymentService = new PaymentService(prisma);
+const reconciliationService = new ReconciliationService(prisma);
 
 function requireMaster(req: express.Request, res: express.Response): boolean {
   const key = extractKey(req);
@@ -209,6 +287,30 @@ app.get('/api/gateways/supported', async (_req, res): Promise<void> => {
   res.json(getSupportedGateways());
 });
 
+/**
+ * Gateway health and routing
+ * 
+ * Shows each gateway's circuit breaker state and recent failure rate, the
+ * failover order, and which gateway the next payment would try first.
+ * Users see their own order; the master key sees all gateways, or a user's
+ * order with ?userId=. Add ?planId= to include a plan's fallbackGateways.
+ */
+app.get('/api/gateways/health', async (req, res): Promise<void> => {
+  const user = (req as any).user;
+  const master = isMaster(extractKey(req));
+  if (!user && !master) {
+    res.status(401).json({ error: 'Unauthorized', message: 'User context required' });
+    return;
+  }
+  try {
+    const userId = master ? (req.query.userId ? String(req.query.userId) : undefined) : user.id;
+    const planId = req.query.planId ? String(req.query.planId) : undefined;
+    res.json(await paymentService.getGatewayRouting(userId, planId));
+  } catch (err: any) {
+    res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
+  }
+});
+
 app.get('/api/gateway/credentials', async (req, res): Promise<void> => {
   const user = (req as any).user;
   if (!user) {
@@ -231,20 +333,313 @@ app.post('/api/gateway/credential', async (req, res): Promise<void> => {
   }
   try {
     const input = upsertGatewayCredentialSchema.parse(req.body);
-    const saved = await gatewayCreds.upsert(user.id, input.gateway, input.merchantId, input.sandbox, input.config);
+    const saved = await gatewayCreds.upsert(user.id, input.gateway, input.merchantId, input.sandbox, input.config, input.priority);
     await audit.log({
       userId: user.id,
       action: 'GATEWAY_CREDENTIAL_UPSERTED',
       targetType: 'GatewayCredential',
       targetId: saved.id,
-      metadata: { gateway: saved.gateway },
+      metadata: { gateway: saved.gateway, priority: saved.priority },
     });
+    await webhookService.dispatch(user.id, 'gateway_credential.updated', gatewayCredentialEvent(saved));
     res.status(201).json(saved);
   } catch (err: any) {
     res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
   }
 });
 
+app.patch('/api/gateway/credential', async (req, res): Promise<void> => {
+  const user = (req as any).user;
+  if (!user) {
+    res.status(401).json({ error: 'Unauthorized', message: 'User context required' });
+    return;
+  }
+  try {
+    const input = updateGatewayCredentialSchema.parse(req.body);
+    const updated = await gatewayCreds.setSandbox(user.id, input.gateway, input.sandbox);
+    await audit.log({
+      userId: user.id,
+      action: 'GATEWAY_CREDENTIAL_UPDATED',
+      targetType: 'GatewayCredential',
+      targetId: updated.id,
+      metadata: { gateway: updated.gateway, sandbox: updated.sandbox },
+    });
+    await webhookService.dispatch(user.id, 'gateway_credential.updated', gatewayCredentialEvent(updated));
+    res.json(updated);
+  } catch (err: any) {
+    if (err instanceof NotFoundError) {
+      res.status(404).json({ error: 'Not Found', message: err.message });
+      return;
+    }
+    res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
+  }
+});
+
+app.delete('/api/gateway/credential', async (req, res): Promise<void> => {
+  const user = (req as any).user;
+  if (!user) {
+    res.status(401).json({ error: 'Unauthorized', message: 'User context required' });
+    return;
+  }
+  try {
+    const input = gatewayCredentialRefSchema.parse(req.body);
+    const removed = await gatewayCreds.remove(user.id, input.gateway);
+    await audit.log({
+      userId: user.id,
+      action: 'GATEWAY_CREDENTIAL_DELETED',
+      targetType: 'GatewayCredential',
+      targetId: removed.id,
+      metadata: { gateway: removed.gateway },
+    });
+    await webhookService.dispatch(user.id, 'gateway_credential.deleted', gatewayCredentialEvent(removed));
+    res.json({ success: true });
+  } catch (err: any) {
+    if (err instanceof NotFoundError) {
+      res.status(404).json({ error: 'Not Found', message: err.message });
+      return;
+    }
+    if (err instanceof ConflictError) {
+      res.status(409).json({ error: 'Conflict', message: err.message });
+      return;
+    }
+    res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
+  }
+});
+
+// Webhook payload for a credential; leaves out the (masked) merchant details
+function gatewayCredentialEvent(cred: MaskedGatewayCredential): GatewayCredentialEventData {
+  return { id: cred.id, userId: cred.userId, gateway: cred.gateway, sandbox: cred.sandbox, priority: cred.priority };
+}
+
+app.post('/api/gateway/credential/test', async (req, res): Promise<void> => {
+  const user = (req as any).user;
+  if (!user) {
+    res.status(401).json({ error: 'Unauthorized', message: 'User context required' });
+    return;
+  }
+  try {
+    const input = gatewayCredentialRefSchema.parse(req.body);
+    const result = await gatewayCreds.testConnection(user.id, input.gateway);
+    await audit.log({
+      userId: user.id,
+      action: 'GATEWAY_CREDENTIAL_TESTED',
+      targetType: 'GatewayCredential',
+      targetId: result.credential.id,
+      metadata: { gateway: result.credential.gateway, ok: result.ok, code: result.code },
+    });
+    res.json(result);
+  } catch (err: any) {
+    res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
+  }
+});
+
+app.get('/api/webhook/events', async (_req, res): Promise<void> => {
+  res.json(webhookService.listEventTypes());
+});
+
+app.get('/api/webhooks', async (req, res): Promise<void> => {
+  const user = (req as any).user;
+  if (!user) {
+    res.status(401).json({ error: 'Unauthorized', message: 'User context required' });
+    return;
+  }
+  try {
+    const list = await webhookService.list(user.id);
+    res.json(list);
+  } catch (err: any) {
+    res.status(500).json({ error: 'Internal Server Error', message: err?.message || 'Failed to list webhooks' });
+  }
+});
+
+app.post('/api/webhook', async (req, res): Promise<void> => {
+  const user = (req as any).user;
+  if (!user) {
+    res.status(401).json({ error: 'Unauthorized', message: 'User context required' });
+    return;
+  }
+  try {
+    const input = createWebhookSchema.parse(req.body);
+    const hook = await webhookService.create(user.id, input.url, input.eventTypes, input.secret);
+    await audit.log({
+      userId: user.id,
+      action: 'WEBHOOK_CREATED',
+      targetType: 'Webhook',
+      targetId: hook.id,
+      metadata: { url: hook.url, eventTypes: hook.eventTypes },
+    });
+    res.status(201).json(hook);
+  } catch (err: any) {
+    res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
+  }
+});
+
+app.patch('/api/webhook', async (req, res): Promise<void> => {
+  const user = (req as any).user;
+  if (!user) {
+    res.status(401).json({ error: 'Unauthorized', message: 'User context required' });
+    return;
+  }
+  try {
+    const { id, ...changes } = updateWebhookSchema.parse(req.body);
+    const hook = await webhookService.update(user.id, id, changes);
+    if (!hook) {
+      res.status(404).json({ error: 'Not Found', message: 'Webhook not found' });
+      return;
+    }
+    await audit.log({
+      userId: user.id,
+      action: 'WEBHOOK_UPDATED',
+      targetType: 'Webhook',
+      targetId: hook.id,
+      metadata: changes,
+    });
+    res.json(hook);
+  } catch (err: any) {
+    res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
+  }
+});
+
+app.delete('/api/webhook', async (req, res): Promise<void> => {
+  const user = (req as any).user;
+  if (!user) {
+    res.status(401).json({ error: 'Unauthorized', message: 'User context required' });
+    return;
+  }
+  try {
+    const input = webhookRefSchema.parse(req.body);
+    const ok = await webhookService.remove(user.id, input.id);
+    if (!ok) {
+      res.status(404).json({ error: 'Not Found', message: 'Webhook not found' });
+      return;
+    }
+    await audit.log({
+      userId: user.id,
+      action: 'WEBHOOK_DELETED',
+      targetType: 'Webhook',
+      targetId: input.id,
+    });
+    res.json({ success: true });
+  } catch (err: any) {
+    res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
+  }
+});
+
+app.post('/api/webhook/rotate-secret', async (req, res): Promise<void> => {
+  const user = (req as any).user;
+  if (!user) {
+    res.status(401).json({ error: 'Unauthorized', message: 'User context required' });
+    return;
+  }
+  try {
+    const input = rotateWebhookSecretSchema.parse(req.body);
+    const hook = await webhookService.rotateSecret(user.id, input.id, input.graceHours);
+    if (!hook) {
+      res.status(404).json({ error: 'Not Found', message: 'Webhook not found' });
+      return;
+    }
+    await audit.log({
+      userId: user.id,
+      action: 'WEBHOOK_SECRET_ROTATED',
+      targetType: 'Webhook',
+      targetId: hook.id,
+      metadata: { previousSecretExpiresAt: hook.previousSecretExpiresAt },
+    });
+    res.json(hook);
+  } catch (err: any) {
+    res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
+  }
+});
+
+app.post('/api/webhook/test', async (req, res): Promise<void> => {
+  const user = (req as any).user;
+  if (!user) {
+    res.status(401).json({ error: 'Unauthorized', message: 'User context required' });
+    return;
+  }
+  try {
+    const input = webhookRefSchema.parse(req.body);
+    const delivery = await webhookService.sendTest(user.id, input.id);
+    if (!delivery) {
+      res.status(404).json({ error: 'Not Found', message: 'Webhook not found' });
+      return;
+    }
+    res.json({ ok: delivery.status === 'SUCCESS', delivery });
+  } catch (err: any) {
+    res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
+  }
+});
+
+app.get('/api/webhook/deliveries', async (req, res): Promise<void> => {
+  const user = (req as any).user;
+  if (!user) {
+    res.status(401).json({ error: 'Unauthorized', message: 'User context required' });
+    return;
+  }
+  try {
+    const { webhookId, ...filter } = listWebhookDeliveriesSchema.parse(req.query);
+    const page = await webhookService.listDeliveries(user.id, webhookId, filter);
+    if (!page) {
+      res.status(404).json({ error: 'Not Found', message: 'Webhook not found' });
+      return;
+    }
+    res.json(page);
+  } catch (err: any) {
+    res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
+  }
+});
+
+app.post('/api/webhook/delivery/redeliver', async (req, res): Promise<void> => {
+  const user = (req as any).user;
+  if (!user) {
+    res.status(401).json({ error: 'Unauthorized', message: 'User context required' });
+    return;
+  }
+  try {
+    const input = webhookRefSchema.parse(req.body);
+    const delivery = await webhookService.redeliver(user.id, input.id);
+    if (!delivery) {
+      res.status(404).json({ error: 'Not Found', message: 'Delivery not found' });
+      return;
+    }
+    await audit.log({
+      userId: user.id,
+      action: 'WEBHOOK_REDELIVERED',
+      targetType: 'WebhookDelivery',
+      targetId: input.id,
+      metadata: { redeliveryId: delivery.id, status: delivery.status },
+    });
+    res.json({ ok: delivery.status === 'SUCCESS', delivery });
+  } catch (err: any) {
+    res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
+  }
+});
+
+app.post('/api/webhook/replay', async (req, res): Promise<void> => {
+  const user = (req as any).user;
+  if (!user) {
+    res.status(401).json({ error: 'Unauthorized', message: 'User context required' });
+    return;
+  }
+  try {
+    const { webhookId, ...input } = replayWebhookSchema.parse(req.body);
+    const result = await webhookService.replay(user.id, webhookId, input);
+    if (!result) {
+      res.status(404).json({ error: 'Not Found', message: 'Webhook not found' });
+      return;
+    }
+    await audit.log({
+      userId: user.id,
+      action: 'WEBHOOK_REPLAYED',
+      targetType: 'Webhook',
+      targetId: webhookId,
+      metadata: { ...input, queued: result.queued },
+    });
+    res.status(202).json(result);
+  } catch (err: any) {
+    res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
+  }
+});
+
 app.get('/api/apikey', async (req, res): Promise<void> => {
   if (!requireMaster(req, res)) return;
   try {
@@ -259,8 +654,8 @@ app.delete('/api/apikey', async (req, res): Promise<void> => {
   if (!requireMaster(req, res)) return;
   try {
     const input = deactivateApiKeySchema.parse(req.body);
-    const ok = await apiKeyService.deactivate(input.id);
-    if (!ok) {
+    const key = await apiKeyService.deactivate(input.id);
+    if (!key) {
       res.status(404).json({ error: 'Not Found', message: 'Key not found' });
       return;
     }
@@ -269,19 +664,42 @@ app.delete('/api/apikey', async (req, res): Promise<void> => {
       targetType: 'ApiKey',
       targetId: input.id,
     });
+    if (key.userId) {
+      await webhookService.dispatch(key.userId, 'apikey.revoked', { id: key.id, userId: key.userId, label: key.label });
+    }
     res.json({ success: true });
   } catch (err: any) {
     res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
   }
 });
+function idempotencyOwner(req: express.Request): string | undefined {
+  const user = (req as any).user;
+  if (user?.id) return user.id;
+  if (isMaster(extractKey(req))) return 'master';
+  // Keys without a user each get their own namespace
+  const apiKeyId = (req as any).apiKeyId;
+  return apiKeyId ? `apikey:${apiKeyId}` : undefined;
+}
+
+function sendIdempotent(res: express.Response, result: IdempotentResponse): void {
+  if (result.replayed) res.setHeader('Idempotent-Replayed', 'true');
+  res.status(result.status).json(result.body);
+}
+
 app.post('/api/subscription', async (req, res) => {
   try {
     const input = createSubscriptionSchema.parse(req.body);
-    const result = await subscriptionService.createSubscription(input);
-    res.json(result);
+    const result = await idempotency.run(
+      'POST /api/subscription',
+      idempotencyOwner(req),
+      req.header('idempotency-key') || undefined,
+      input,
+      () => subscriptionService.createSubscription(input)
+    );
+    sendIdempotent(res, result);
   } catch (err: any) {
-    res.status(400).json({
-      error: 'Bad Request',
+    res.status(err instanceof ConflictError ? 409 : 400).json({
+      error: err instanceof ConflictError ? 'Conflict' : 'Bad Request',
       message: err?.message || 'Invalid input',
     });
   }
@@ -290,31 +708,36 @@ app.post('/api/subscription', async (req, res) => {
 app.post('/api/payment/verify', async (req, res) => {
   try {
     const input = verifyPaymentSchema.parse(req.body);
-    const payment = await paymentService.verifyPayment(input.authority, input.status);
-
-    if (payment.status === 'COMPLETED') {
-      await subscriptionService.activateSubscription(
-        payment.subscriptionId,
-        payment.userEmail || undefined,
-        payment.userPhone || undefined
-      );
-    }
+    const result = await idempotency.run(
+      'POST /api/payment/verify',
+      idempotencyOwner(req),
+      req.header('idempotency-key') || undefined,
+      input,
+      async () => {
+        const payment = await paymentService.verifyPayment(input.authority, input.status);
 
-    res.json({
-      success: payment.status === 'COMPLETED',
-      payment: {
-        id: payment.id,
-        amount: payment.amount,
-        currency: payment.currency,
-        status: payment.status,
-        paidAt: payment.paidAt,
-        gatewayTxId: payment.gatewayTxId,
-      },
-      subscriptionId: payment.subscriptionId,
-    });
+        if (payment.status === PaymentStatus.COMPLETED) {
+          await subscriptionService.handlePaymentCompleted(payment);
+        }
+
+        return {
+          success: payment.status === PaymentStatus.COMPLETED,
+          payment: {
+            id: payment.id,
+            amount: payment.amount,
+            currency: payment.currency,
+            status: payment.status,
+            paidAt: payment.paidAt,
+            gatewayTxId: payment.gatewayTxId,
+          },
+          subscriptionId: payment.subscriptionId,
+        };
+      }
+    );
+    sendIdempotent(res, result);
   } catch (err: any) {
-    res.status(400).json({
-      error: 'Bad Request',
+    res.status(err instanceof ConflictError ? 409 : 400).json({
+      error: err instanceof ConflictError ? 'Conflict' : 'Bad Request',
       message: err?.message || 'Invalid input',
     });
   }
@@ -365,6 +788,64 @@ app.get('/api/payment/by-subscription', async (req, res) => {
   }
 });
 
+app.post('/api/payment/refund', async (req, res): Promise<void> => {
+  if (!requireMaster(req, res)) return;
+  try {
+    const input = refundPaymentSchema.parse(req.body);
+    const result = await paymentService.refundPayment(input.paymentId, {
+      amount: input.amount,
+      reason: input.reason,
+      requestedBy: 'master',
+    });
+    let subscription = null;
+    if (input.revokeSubscription) {
+      const current = await prisma.subscription.findUnique({ where: { id: result.payment.subscriptionId } });
+      if (current && current.status !== SubscriptionStatus.CANCELLED && current.status !== SubscriptionStatus.EXPIRED) {
+        subscription = await subscriptionService.cancelSubscription(current.id, {
+          atPeriodEnd: false,
+          reason: input.reason || 'Payment refunded',
+        });
+      }
+    }
+    res.json({ ...result, subscription });
+  } catch (err: any) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: err?.message || 'Invalid input',
+    });
+  }
+});
+
+app.post('/api/payment/refund/settle', async (req, res): Promise<void> => {
+  if (!requireMaster(req, res)) return;
+  try {
+    const input = settleRefundSchema.parse(req.body);
+    const result = await paymentService.settleRefund(input.refundId, input.outcome, input.gatewayRefundId);
+    res.json(result);
+  } catch (err: any) {
+    if (err instanceof NotFoundError) {
+      res.status(404).json({ error: 'Not Found', message: err.message });
+      return;
+    }
+    res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
+  }
+});
+
+app.post('/api/payment/reconcile', async (req, res): Promise<void> => {
+  if (!requireMaster(req, res)) return;
+  try {
+    const input = reconcilePaymentSchema.parse(req.body);
+    const result = await reconciliationService.reconcilePayment(input.paymentId);
+    const payment = await paymentService.getPaymentByAuthority(result.authority);
+    res.json({ ...result, payment });
+  } catch (err: any) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: err?.message || 'Invalid input',
+    });
+  }
+});
+
 app.post('/api/user', async (req, res) => {
   if (!isFrontendRequest(req)) {
     res.status(403).json({ error: 'Forbidden', message: 'Endpoint restricted to frontend origin' });
@@ -396,7 +877,8 @@ app.post('/api/user', async (req, res) => {
   }
 });
 
-app.post('/api/plan', async (req, res) => {
+app.post('/api/plan', async (req, res): Promise<void> => {
+  if (!requireMaster(req, res)) return;
   try {
     const input = createPlanSchema.parse(req.body);
     const plan = await subscriptionService.createPlan({
@@ -405,9 +887,12 @@ app.post('/api/plan', async (req, res) => {
       price: input.price,
       currency: input.currency,
       duration: input.duration,
+      trialDays: input.trialDays,
       features: input.features,
       isActive: input.isActive,
       gateway: input.gateway,
+      fallbackGateways: input.fallbackGateways,
+      sellerId: input.sellerId,
     });
     res.json(plan);
   } catch (err: any) {
@@ -418,6 +903,264 @@ app.post('/api/plan', async (req, res) => {
   }
 });
 
+app.patch('/api/plan', async (req, res): Promise<void> => {
+  if (!requireMaster(req, res)) return;
+  try {
+    const { id, ...changes } = updatePlanSchema.parse(req.body);
+    const plan = await subscriptionService.updatePlan(id, changes);
+    await audit.log({
+      action: 'PLAN_UPDATED',
+      targetType: 'Plan',
+      targetId: plan.id,
+      metadata: changes,
+    });
+    res.json(plan);
+  } catch (err: any) {
+    if (err instanceof NotFoundError) {
+      res.status(404).json({ error: 'Not Found', message: err.message });
+      return;
+    }
+    res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
+  }
+});
+
+app.post('/api/coupon', async (req, res): Promise<void> => {
+  if (!requireMaster(req, res)) return;
+  try {
+    const input = createCouponSchema.parse(req.body);
+    const coupon = await couponService.create(input);
+    await audit.log({
+      action: 'COUPON_CREATED',
+      targetType: 'Coupon',
+      targetId: coupon.id,
+      metadata: { code: coupon.code, type: coupon.type, value: coupon.value },
+    });
+    res.status(201).json(coupon);
+  } catch (err: any) {
+    res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
+  }
+});
+
+app.get('/api/coupon', async (req, res): Promise<void> => {
+  if (!requireMaster(req, res)) return;
+  try {
+    const list = await couponService.list();
+    res.json(list);
+  } catch (err: any) {
+    res.status(500).json({ error: 'Internal Server Error', message: err?.message || 'Failed to list coupons' });
+  }
+});
+
+app.patch('/api/coupon', async (req, res): Promise<void> => {
+  if (!requireMaster(req, res)) return;
+  try {
+    const { id, ...changes } = updateCouponSchema.parse(req.body);
+    const coupon = await couponService.update(id, changes);
+    await audit.log({
+      action: 'COUPON_UPDATED',
+      targetType: 'Coupon',
+      targetId: coupon.id,
+      metadata: changes,
+    });
+    res.json(coupon);
+  } catch (err: any) {
+    res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
+  }
+});
+
+app.get('/api/coupon/stats', async (req, res): Promise<void> => {
+  if (!requireMaster(req, res)) return;
+  try {
+    const id = String(req.query.id || '');
+    if (!id) {
+      res.status(400).json({ error: 'Bad Request', message: 'id is required' });
+      return;
+    }
+    const stats = await couponService.getStats(id);
+    res.json(stats);
+  } catch (err: any) {
+    res.status(404).json({ error: 'Not Found', message: err?.message || 'Coupon not found' });
+  }
+});
+
+app.post('/api/seller', async (req, res): Promise<void> => {
+  if (!requireMaster(req, res)) return;
+  try {
+    const input = createSellerSchema.parse(req.body);
+    const seller = await invoiceService.createSeller(input);
+    await audit.log({
+      action: 'SELLER_CREATED',
+      targetType: 'Seller',
+      targetId: seller.id,
+      metadata: { name: seller.name, isDefault: seller.isDefault },
+    });
+    res.status(201).json(seller);
+  } catch (err: any) {
+    res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
+  }
+});
+
+app.get('/api/seller', async (req, res): Promise<void> => {
+  if (!requireMaster(req, res)) return;
+  try {
+    const list = await invoiceService.listSellers();
+    res.json(list);
+  } catch (err: any) {
+    res.status(500).json({ error: 'Internal Server Error', message: err?.message || 'Failed to list sellers' });
+  }
+});
+
+app.patch('/api/seller', async (req, res): Promise<void> => {
+  if (!requireMaster(req, res)) return;
+  try {
+    const { id, ...changes } = updateSellerSchema.parse(req.body);
+    const seller = await invoiceService.updateSeller(id, changes);
+    await audit.log({
+      action: 'SELLER_UPDATED',
+      targetType: 'Seller',
+      targetId: seller.id,
+      metadata: changes,
+    });
+    res.json(seller);
+  } catch (err: any) {
+    if (err instanceof NotFoundError) {
+      res.status(404).json({ error: 'Not Found', message: err.message });
+      return;
+    }
+    res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
+  }
+});
+
+app.patch('/api/user/billing', async (req, res): Promise<void> => {
+  const user = (req as any).user;
+  if (!user) {
+    res.status(401).json({ error: 'Unauthorized', message: 'User context required' });
+    return;
+  }
+  try {
+    const billing = updateBillingSchema.parse(req.body);
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data: { billing },
+    });
+    await audit.log({
+      userId: user.id,
+      action: 'USER_BILLING_UPDATED',
+      targetType: 'User',
+      targetId: user.id,
+    });
+    res.json({ billing: updated.billing });
+  } catch (err: any) {
+    res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid input' });
+  }
+});
+
+app.get('/api/invoices', async (req, res): Promise<void> => {
+  const user = (req as any).user;
+  const master = isMaster(extractKey(req));
+  if (!user && !master) {
+    res.status(401).json({ error: 'Unauthorized', message: 'User context required' });
+    return;
+  }
+  try {
+    // Users only see their own invoices; the master key may list anyone's, or all
+    const userId = master ? (req.query.userId ? String(req.query.userId) : undefined) : user.id;
+    const invoices = await invoiceService.listInvoices(userId);
+    res.json(invoices);
+  } catch (err: any) {
+    res.status(500).json({ error: 'Internal Server Error', message: err?.message || 'Failed to list invoices' });
+  }
+});
+
+app.get('/api/invoice', async (req, res): Promise<void> => {
+  const user = (req as any).user;
+  const master = isMaster(extractKey(req));
+  if (!user && !master) {
+    res.status(401).json({ error: 'Unauthorized', message: 'User context required' });
+    return;
+  }
+  const id = String(req.query.id || '');
+  const paymentId = String(req.query.paymentId || '');
+  const format = String(req.query.format || 'json');
+  if (!id && !paymentId) {
+    res.status(400).json({ error: 'Bad Request', message: 'id or paymentId is required' });
+    return;
+  }
+  if (format !== 'json' && format !== 'html' && format !== 'pdf') {
+    res.status(400).json({ error: 'Bad Request', message: 'format must be json, html or pdf' });
+    return;
+  }
+  try {
+    if (paymentId && !master) {
+      const payment = await prisma.payment.findUnique({
+        where: { id: paymentId },
+        include: { subscription: true },
+      });
+      if (!payment || payment.subscription.userId !== user.id) {
+        throw new NotFoundError('Invoice');
+      }
+    }
+    const invoice = id ? await invoiceService.getInvoice(id) : await invoiceService.getForPayment(paymentId);
+    if (!master && invoice.userId !== user.id) {
+      throw new NotFoundError('Invoice');
+    }
+    if (format === 'json') {
+      res.json(invoice);
+      return;
+    }
+    const document = await invoiceService.render(invoice, format);
+    res.setHeader('Content-Type', document.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${document.filename}"`);
+    res.send(document.content);
+  } catch (err: any) {
+    if (err instanceof NotFoundError) {
+      res.status(404).json({ error: 'Not Found', message: err.message });
+      return;
+    }
+    if (err instanceof AppError && err.statusCode === 503) {
+      res.status(503).json({ error: 'Service Unavailable', message: err.message });
+      return;
+    }
+    res.status(500).json({ error: 'Internal Server Error', message: err?.message || 'Failed to get invoice' });
+  }
+});
+
+/**
+ * Analytics (master key)
+ * 
+ * Query: from, to (ISO dates; default the last 365 days), interval
+ * (day | week | month) and calendar (jalali | gregorian)
+ */
+async function sendAnalytics(
+  req: express.Request,
+  res: express.Response,
+  report: (query: AnalyticsQuery) => Promise<unknown>
+): Promise<void> {
+  if (!requireMaster(req, res)) return;
+  let query: AnalyticsQuery;
+  try {
+    query = analyticsQuerySchema.parse(req.query);
+  } catch (err: any) {
+    res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid query' });
+    return;
+  }
+  try {
+    res.json({ from: query.from, to: query.to, interval: query.interval, calendar: query.calendar, ...(await report(query)) as object });
+  } catch (err: any) {
+    if (err instanceof ValidationError) {
+      res.status(400).json({ error: 'Bad Request', message: err.message });
+      return;
+    }
+    res.status(500).json({ error: 'Internal Server Error', message: err?.message || 'Failed to build report' });
+  }
+}
+
+app.get('/api/analytics/mrr', (req, res) => sendAnalytics(req, res, query => analyticsService.getMrr(query)));
+app.get('/api/analytics/subscriptions', (req, res) => sendAnalytics(req, res, query => analyticsService.getSubscriptionFlow(query)));
+app.get('/api/analytics/revenue', (req, res) => sendAnalytics(req, res, query => analyticsService.getRevenue(query)));
+app.get('/api/analytics/payments', (req, res) => sendAnalytics(req, res, query => analyticsService.getPaymentSuccess(query)));
+app.get('/api/analytics/trials', (req, res) => sendAnalytics(req, res, query => analyticsService.getTrialConversion(query)));
+
 app.get('/api/plans/available', async (_req, res) => {
   try {
     const plans = await subscriptionService.getAvailablePlans();
@@ -441,6 +1184,92 @@ app.get('/api/subscriptions/me', async (req, res) => {
   }
 });
 
+async function requireSubscriptionAccess(
+  req: express.Request,
+  res: express.Response,
+  subscriptionId: string
+): Promise<boolean> {
+  const user = (req as any).user;
+  const key = extractKey(req);
+  if (!user && !isMaster(key)) {
+    res.status(401).json({ error: 'Unauthorized', message: 'User context required' });
+    return false;
+  }
+  const subscription = await prisma.subscription.findUnique({ where: { id: subscriptionId } });
+  if (!subscription) {
+    res.status(404).json({ error: 'Not Found', message: 'Subscription not found' });
+    return false;
+  }
+  if (user && subscription.userId !== user.id && !isMaster(key)) {
+    res.status(403).json({ error: 'Forbidden', message: 'Access denied' });
+    return false;
+  }
+  return true;
+}
+
+app.post('/api/subscription/change-plan', async (req, res) => {
+  try {
+    const input = changePlanSchema.parse(req.body);
+    if (!(await requireSubscriptionAccess(req, res, input.subscriptionId))) return;
+    const result = await subscriptionService.changePlan(input);
+    res.json(result);
+  } catch (err: any) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: err?.message || 'Invalid input',
+    });
+  }
+});
+
+app.post('/api/subscription/cancel', async (req, res) => {
+  try {
+    const input = cancelSubscriptionSchema.parse(req.body);
+    if (!(await requireSubscriptionAccess(req, res, input.subscriptionId))) return;
+    const subscription = await subscriptionService.cancelSubscription(input.subscriptionId, {
+      atPeriodEnd: input.atPeriodEnd,
+      reason: input.reason,
+    });
+    res.json(subscription);
+  } catch (err: any) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: err?.message || 'Invalid input',
+    });
+  }
+});
+
+app.post('/api/subscription/resume', async (req, res) => {
+  try {
+    const input = resumeSubscriptionSchema.parse(req.body);
+    if (!(await requireSubscriptionAccess(req, res, input.subscriptionId))) return;
+    const subscription = await subscriptionService.resumeSubscription(input.subscriptionId);
+    res.json(subscription);
+  } catch (err: any) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: err?.message || 'Invalid input',
+    });
+  }
+});
+
+app.post('/api/subscription/pay', async (req, res) => {
+  try {
+    const input = payTrialSchema.parse(req.body);
+    if (!(await requireSubscriptionAccess(req, res, input.subscriptionId))) return;
+    const payment = await subscriptionService.createTrialConversionPayment(
+      input.subscriptionId,
+      input.userEmail,
+      input.userPhone
+    );
+    res.json(payment);
+  } catch (err: any) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: err?.message || 'Invalid input',
+    });
+  }
+});
+
 app.post('/api/auth/request-otp', async (req, res) => {
   try {
     const input = requestOtpSchema.parse(req.body);
@@ -455,6 +1284,7 @@ app.post('/api/auth/verify-otp', async (req, res) => {
   try {
     const input = verifyOtpSchema.parse(req.body);
     const result = await authService.verifyOtp(input.phone, input.code);
+    await webhookService.dispatch(result.user.id, 'apikey.created', { id: result.apiKeyId, userId: result.user.id, label: 'login' });
     res.json({ user: result.user, apiKey: result.apiKey });
   } catch (err: any) {
     res.status(400).json({ error: 'Bad Request', message: err?.message || 'Invalid OTP' });
@@ -516,6 +1346,9 @@ app.listen(PORT, () => {
   ║  • Callback: GET /api/payment/callback ║
   ╚════════════════════════════════════════╝
   `);
+  if (env.JOBS.ENABLED) {
+    createJobScheduler(prisma).start();
+  }
   try {
     const child = spawn('python3', ['-m', 'http.server', '3000'], {
       cwd: path.resolve(process.cwd(), 'public'),
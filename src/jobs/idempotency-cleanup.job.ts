@@ -0,0 +1,27 @@
+import { PrismaClient } from '@prisma/client';
+import { ScheduledJob } from '../types/job.types';
+import { IdempotencyService } from '../routers/idempotency/idempotency.service';
+import { env } from '../config/env';
+
+/**
+ * Idempotency Cleanup Job
+ *
+ * Deletes stored Idempotency-Key responses once they have expired, so keys
+ * that are never reused do not pile up.
+ */
+export class IdempotencyCleanupJob implements ScheduledJob {
+  name = 'idempotency-cleanup';
+  intervalMs = env.JOBS.IDEMPOTENCY_INTERVAL_SEC * 1000;
+  private idempotency: IdempotencyService;
+
+  constructor(prisma: PrismaClient) {
+    this.idempotency = new IdempotencyService(prisma);
+  }
+
+  async run(): Promise<void> {
+    const count = await this.idempotency.purgeExpired();
+    if (count > 0) {
+      console.log(`[Jobs] ${this.name}: deleted ${count} expired idempotency key(s)`);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { PrismaClient } from '@prisma/client';
+import { JobScheduler } from './scheduler';
+import { SubscriptionExpiryJob } from './subscription-expiry.job';
+import { SubscriptionRenewalJob } from './subscription-renewal.job';
+import { SubscriptionDunningJob } from './subscription-dunning.job';
+import { SubscriptionTrialJob } from './subscription-trial.job';
+import { PaymentReconciliationJob } from './payment-reconciliation.job';
+import { WebhookDeliveryJob } from './webhook-delivery.job';
+import { IdempotencyCleanupJob } from './idempotency-cleanup.job';
+
+/**
+ * Creates the scheduler with every background job registered
+ *
+ * @param prisma - Shared Prisma client
+ * @returns Scheduler ready to be started
+ */
+export function createJobScheduler(prisma: PrismaClient): JobScheduler {
+  return new JobScheduler(prisma)
+    .register(new SubscriptionExpiryJob(prisma))
+    .register(new SubscriptionRenewalJob(prisma))
+    .register(new SubscriptionDunningJob(prisma))
+    .register(new SubscriptionTrialJob(prisma))
+    .register(new PaymentReconciliationJob(prisma))
+    .register(new WebhookDeliveryJob(prisma))
+    .register(new IdempotencyCleanupJob(prisma));
+}
+
+export { JobScheduler };
@@ -0,0 +1,63 @@
+import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import os from 'os';
+
+/**
+ * Job Lock Service
+ *
+ * Provides a lease-based lock stored in the database so that a job only runs
+ * on one instance at a time, even when several API servers are deployed.
+ * A lease expires on its own, so a crashed instance never blocks a job forever.
+ */
+export class JobLockService {
+  private prisma: PrismaClient;
+  readonly instanceId: string;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.instanceId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  }
+
+  /**
+   * Tries to take (or extend) the lease for a job
+   *
+   * @param name - Job name used as the lock key
+   * @param ttlMs - How long the lease is held before others may take it
+   * @returns true if this instance now holds the lease
+   */
+  async acquire(name: string, ttlMs: number): Promise<boolean> {
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + ttlMs);
+
+    const taken = await this.prisma.jobLock.updateMany({
+      where: {
+        name,
+        OR: [{ lockedUntil: { lt: now } }, { lockedBy: this.instanceId }],
+      },
+      data: { lockedBy: this.instanceId, lockedUntil },
+    });
+    if (taken.count === 1) return true;
+
+    try {
+      await this.prisma.jobLock.create({
+        data: { name, lockedBy: this.instanceId, lockedUntil },
+      });
+      return true;
+    } catch {
+      // Another instance holds a live lease
+      return false;
+    }
+  }
+
+  /**
+   * Releases the lease if this instance still holds it
+   *
+   * @param name - Job name used as the lock key
+   */
+  async release(name: string): Promise<void> {
+    await this.prisma.jobLock.updateMany({
+      where: { name, lockedBy: this.instanceId },
+      data: { lockedBy: null, lockedUntil: new Date() },
+    });
+  }
+}
@@ -0,0 +1,29 @@
+import { PrismaClient } from '@prisma/client';
+import { ScheduledJob } from '../types/job.types';
+import { ReconciliationService } from '../routers/payment/reconciliation.service';
+import { env } from '../config/env';
+
+/**
+ * Payment Reconciliation Job
+ *
+ * Asks the gateway about payments that have been PENDING for longer than
+ * RECONCILE_MIN_AGE_MIN and completes or fails them.
+ */
+export class PaymentReconciliationJob implements ScheduledJob {
+  name = 'payment-reconciliation';
+  intervalMs = env.JOBS.RECONCILE_INTERVAL_SEC * 1000;
+  private reconciliationService: ReconciliationService;
+
+  constructor(prisma: PrismaClient) {
+    this.reconciliationService = new ReconciliationService(prisma);
+  }
+
+  async run(): Promise<void> {
+    const results = await this.reconciliationService.reconcilePending(env.JOBS.BATCH_SIZE);
+    const completed = results.filter(r => r.action === 'completed').length;
+    const failed = results.filter(r => r.action === 'failed').length;
+    if (completed > 0 || failed > 0) {
+      console.log(`[Jobs] ${this.name}: completed ${completed}, failed ${failed} of ${results.length} payment(s)`);
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { PrismaClient } from '@prisma/client';
+import { ScheduledJob } from '../types/job.types';
+import { JobLockService } from './job-lock.service';
+import { env } from '../config/env';
+
+/**
+ * Job Scheduler
+ *
+ * Runs registered background jobs on a fixed interval. Every run first takes
+ * a database lease for the job, so when several instances are running only
+ * one of them does the work for a given tick. A job never overlaps with
+ * itself on the same instance either.
+ */
+export class JobScheduler {
+  private locks: JobLockService;
+  private jobs: ScheduledJob[] = [];
+  private timers: NodeJS.Timeout[] = [];
+  private running = new Set<string>();
+
+  constructor(prisma: PrismaClient) {
+    this.locks = new JobLockService(prisma);
+  }
+
+  register(job: ScheduledJob): this {
+    this.jobs.push(job);
+    return this;
+  }
+
+  start(): void {
+    for (const job of this.jobs) {
+      const timer = setInterval(() => {
+        void this.runOnce(job);
+      }, job.intervalMs);
+      timer.unref();
+      this.timers.push(timer);
+      void this.runOnce(job);
+    }
+  }
+
+  stop(): void {
+    for (const timer of this.timers) clearInterval(timer);
+    this.timers = [];
+  }
+
+  /**
+   * Runs a single tick of a job if this instance can take its lease
+   *
+   * @param job - The job to run
+   */
+  async runOnce(job: ScheduledJob): Promise<void> {
+    if (this.running.has(job.name)) return;
+    this.running.add(job.name);
+    try {
+      const acquired = await this.locks.acquire(job.name, env.JOBS.LOCK_TTL_SEC * 1000);
+      if (!acquired) return;
+      try {
+        await job.run();
+      } finally {
+        await this.locks.release(job.name);
+      }
+    } catch (error: any) {
+      console.error(`[Jobs] ${job.name} failed:`, error?.message || error);
+    } finally {
+      this.running.delete(job.name);
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { PrismaClient } from '@prisma/client';
+import { ScheduledJob } from '../types/job.types';
+import { DunningService } from '../routers/subscription/dunning.service';
+import { env } from '../config/env';
+
+/**
+ * Subscription Dunning Job
+ *
+ * Sends payment reminders to PAST_DUE subscriptions during their grace period.
+ */
+export class SubscriptionDunningJob implements ScheduledJob {
+  name = 'subscription-dunning';
+  intervalMs = env.JOBS.DUNNING_INTERVAL_SEC * 1000;
+  private dunningService: DunningService;
+
+  constructor(prisma: PrismaClient) {
+    this.dunningService = new DunningService(prisma);
+  }
+
+  async run(): Promise<void> {
+    const sent = await this.dunningService.sendDueReminders(env.JOBS.BATCH_SIZE);
+    if (sent > 0) {
+      console.log(`[Jobs] ${this.name}: sent ${sent} reminder(s)`);
+    }
+  }
+}
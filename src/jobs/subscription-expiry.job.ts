@@ -0,0 +1,33 @@
+import { PrismaClient } from '@prisma/client';
+import { ScheduledJob } from '../types/job.types';
+import { SubscriptionService } from '../routers/subscription/subscription.service';
+import { env } from '../config/env';
+
+/**
+ * Subscription Expiry Job
+ *
+ * Periodically moves ACTIVE subscriptions whose endDate has passed to EXPIRED,
+ * or to PAST_DUE when they are eligible for a grace period, and expires PAST_DUE
+ * subscriptions once their grace period is over. Subscriptions cancelled at
+ * period end become CANCELLED instead. The lifecycle events (webhook,
+ * audit entry, notification) are emitted by SubscriptionService so that each
+ * transition happens only once.
+ */
+export class SubscriptionExpiryJob implements ScheduledJob {
+  name = 'subscription-expiry';
+  intervalMs = env.JOBS.EXPIRY_INTERVAL_SEC * 1000;
+  private subscriptionService: SubscriptionService;
+
+  constructor(prisma: PrismaClient) {
+    this.subscriptionService = new SubscriptionService(prisma);
+  }
+
+  async run(): Promise<void> {
+    const cancelled = await this.subscriptionService.applyScheduledCancellations(env.JOBS.BATCH_SIZE);
+    const pastDue = await this.subscriptionService.startGracePeriods(env.JOBS.BATCH_SIZE);
+    const expired = await this.subscriptionService.expireLapsedSubscriptions(env.JOBS.BATCH_SIZE);
+    if (cancelled > 0 || pastDue > 0 || expired > 0) {
+      console.log(`[Jobs] ${this.name}: cancelled ${cancelled}, ${pastDue} past due, expired ${expired} subscription(s)`);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { PrismaClient } from '@prisma/client';
+import { ScheduledJob } from '../types/job.types';
+import { RenewalService } from '../routers/subscription/renewal.service';
+import { env } from '../config/env';
+
+/**
+ * Subscription Renewal Job
+ *
+ * Opens renewal invoices for auto-renewing subscriptions that are entering
+ * the renewal window, then sends any reminders that have come due.
+ */
+export class SubscriptionRenewalJob implements ScheduledJob {
+  name = 'subscription-renewal';
+  intervalMs = env.JOBS.RENEWAL_INTERVAL_SEC * 1000;
+  private renewalService: RenewalService;
+
+  constructor(prisma: PrismaClient) {
+    this.renewalService = new RenewalService(prisma);
+  }
+
+  async run(): Promise<void> {
+    const opened = await this.renewalService.openDueRenewals(env.JOBS.BATCH_SIZE);
+    const reminded = await this.renewalService.sendDueReminders(env.JOBS.BATCH_SIZE);
+    if (opened > 0 || reminded > 0) {
+      console.log(`[Jobs] ${this.name}: opened ${opened} renewal(s), sent ${reminded} reminder(s)`);
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { PrismaClient } from '@prisma/client';
+import { ScheduledJob } from '../types/job.types';
+import { SubscriptionService } from '../routers/subscription/subscription.service';
+import { env } from '../config/env';
+
+/**
+ * Subscription Trial Job
+ *
+ * Reminds users a few days before their free trial ends and sends them the
+ * link to pay. Trials that end unpaid are expired by the expiry job.
+ */
+export class SubscriptionTrialJob implements ScheduledJob {
+  name = 'subscription-trial';
+  intervalMs = env.JOBS.TRIAL_INTERVAL_SEC * 1000;
+  private subscriptionService: SubscriptionService;
+
+  constructor(prisma: PrismaClient) {
+    this.subscriptionService = new SubscriptionService(prisma);
+  }
+
+  async run(): Promise<void> {
+    const sent = await this.subscriptionService.sendTrialEndingReminders(env.JOBS.BATCH_SIZE);
+    if (sent > 0) {
+      console.log(`[Jobs] ${this.name}: sent ${sent} reminder(s)`);
+    }
+  }
+}
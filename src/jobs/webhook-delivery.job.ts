@@ -0,0 +1,28 @@
+import { PrismaClient } from '@prisma/client';
+import { ScheduledJob } from '../types/job.types';
+import { WebhookService } from '../routers/webhook/webhook.service';
+import { env } from '../config/env';
+
+/**
+ * Webhook Delivery Job
+ *
+ * Sends queued webhook deliveries that are due: new events and retries of
+ * failed ones. Deliveries live in the database, so nothing is lost when the
+ * process restarts.
+ */
+export class WebhookDeliveryJob implements ScheduledJob {
+  name = 'webhook-delivery';
+  intervalMs = env.JOBS.WEBHOOK_INTERVAL_SEC * 1000;
+  private webhookService: WebhookService;
+
+  constructor(prisma: PrismaClient) {
+    this.webhookService = new WebhookService(prisma);
+  }
+
+  async run(): Promise<void> {
+    const { delivered, failed } = await this.webhookService.processDue(env.JOBS.BATCH_SIZE);
+    if (delivered > 0 || failed > 0) {
+      console.log(`[Jobs] ${this.name}: delivered ${delivered}, failed ${failed} webhook(s)`);
+    }
+  }
+}
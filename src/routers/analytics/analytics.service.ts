@@ -0,0 +1,336 @@
+import { PrismaClient } from '@prisma/client';
+import { PaymentStatus, SubscriptionStatus } from '../../types/enums';
+import {
+  AnalyticsQuery,
+  MrrReport,
+  PaymentOutcomes,
+  PaymentSuccessReport,
+  PeriodBucket,
+  RevenueReport,
+  RevenueTotals,
+  SubscriptionFlow,
+  SubscriptionFlowReport,
+  TrialConversionReport,
+  TrialOutcomes,
+} from '../../types/analytics.types';
+import { convertAmount, toCurrencyCode } from '../../utils/currency';
+import { periodBuckets, periodKey } from '../../utils/calendar';
+
+// Payments that brought money in; refunds are reported separately
+const PAID_STATUSES: string[] = [PaymentStatus.COMPLETED, PaymentStatus.PARTIALLY_REFUNDED, PaymentStatus.REFUNDED];
+
+const DAYS_PER_MONTH = 30;
+
+// When a paying subscription started and, if it has ended, when it churned
+interface PaidLifetime {
+  paidFrom: Date;
+  churnedAt: Date | null;
+  monthlyValue: number;
+}
+
+/**
+ * Analytics Service
+ *
+ * Read-only reports over payments and subscriptions for the master key:
+ * MRR, new and churned subscriptions, revenue, payment success rates and
+ * trial conversion. Every report takes a date range and splits it into
+ * Jalali or Gregorian days, weeks or months (see utils/calendar).
+ *
+ * Amounts are converted to Rials so plans priced in Toman add up with the rest.
+ */
+export class AnalyticsService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Monthly recurring revenue: each paying subscription's plan price spread
+   * over 30 days, summed at the end of every period. Coupons are not taken
+   * off, since they only discount the first payment.
+   */
+  async getMrr(query: AnalyticsQuery): Promise<MrrReport> {
+    const buckets = periodBuckets(query.from, query.to, query.calendar, query.interval);
+    const lifetimes = await this.loadPaidLifetimes();
+    const now = new Date();
+
+    const at = (moment: Date) => {
+      const active = lifetimes.filter(life => this.isActiveAt(life, moment));
+      return {
+        mrr: Math.round(active.reduce((sum, life) => sum + life.monthlyValue, 0)),
+        activeSubscriptions: active.length,
+      };
+    };
+
+    return {
+      currency: 'IRR',
+      ...at(now),
+      periods: buckets.map(bucket => ({
+        ...bucket,
+        ...at(bucket.end < now ? bucket.end : now),
+      })),
+    };
+  }
+
+  /**
+   * New and churned paying subscriptions per period. A subscription is new
+   * when its first payment goes through (a trial counts once it is paid for)
+   * and churned when it is cancelled or expires. Trials that end unpaid are
+   * in the trial report instead.
+   */
+  async getSubscriptionFlow(query: AnalyticsQuery): Promise<SubscriptionFlowReport> {
+    const buckets = periodBuckets(query.from, query.to, query.calendar, query.interval);
+    const lifetimes = await this.loadPaidLifetimes();
+
+    const flow = (start: Date, end: Date): SubscriptionFlow => {
+      const started = lifetimes.filter(life => life.paidFrom >= start && life.paidFrom < end).length;
+      const churned = lifetimes.filter(life => life.churnedAt && life.churnedAt >= start && life.churnedAt < end).length;
+      const activeAtStart = lifetimes.filter(life => this.isActiveAt(life, start)).length;
+      return {
+        new: started,
+        churned,
+        net: started - churned,
+        churnRate: this.rate(churned, activeAtStart),
+      };
+    };
+
+    return {
+      totals: flow(query.from, query.to),
+      periods: buckets.map(bucket => ({ ...bucket, ...flow(bucket.start, bucket.end) })),
+    };
+  }
+
+  /**
+   * Revenue from payments made in the range, by period, plan and gateway.
+   * Refunds are counted against the payment they refund.
+   */
+  async getRevenue(query: AnalyticsQuery): Promise<RevenueReport> {
+    const buckets = periodBuckets(query.from, query.to, query.calendar, query.interval);
+    const payments = await this.prisma.payment.findMany({
+      where: {
+        status: { in: PAID_STATUSES },
+        OR: [
+          { paidAt: { gte: query.from, lt: query.to } },
+          { paidAt: null, createdAt: { gte: query.from, lt: query.to } },
+        ],
+      },
+      include: { subscription: { select: { planId: true } } },
+    });
+
+    const emptyTotals = (): RevenueTotals => ({ payments: 0, gross: 0, refunded: 0, net: 0 });
+    const totals = emptyTotals();
+    const periods = buckets.map(bucket => ({ ...bucket, ...emptyTotals() }));
+    const index = this.indexBuckets(buckets, query);
+    const byPlan = new Map<string, RevenueTotals>();
+    const byGateway = new Map<string, RevenueTotals>();
+
+    for (const payment of payments) {
+      const gross = this.toRials(payment.amount, payment.currency);
+      const refunded = this.toRials(payment.refundedAmount, payment.currency);
+      // Plan changes and scheduled downgrades are paid for the plan in the metadata
+      const metadata = payment.metadata ? JSON.parse(payment.metadata) : {};
+      const planId: string = metadata.targetPlanId || metadata.planId || payment.subscription.planId;
+
+      const targets = [
+        totals,
+        periods[index(payment.paidAt || payment.createdAt)],
+        this.entry(byPlan, planId, emptyTotals),
+        this.entry(byGateway, payment.gateway, emptyTotals),
+      ];
+      for (const target of targets.filter(Boolean)) {
+        target.payments++;
+        target.gross += gross;
+        target.refunded += refunded;
+        target.net += gross - refunded;
+      }
+    }
+
+    const planNames = await this.planNames([...byPlan.keys()]);
+    return {
+      currency: 'IRR',
+      totals,
+      periods,
+      byPlan: [...byPlan.entries()]
+        .map(([planId, stats]) => ({ planId, planName: planNames.get(planId) || planId, ...stats }))
+        .sort((a, b) => b.net - a.net),
+      byGateway: [...byGateway.entries()]
+        .map(([gateway, stats]) => ({ gateway, ...stats }))
+        .sort((a, b) => b.net - a.net),
+    };
+  }
+
+  /**
+   * Outcomes of payment attempts started in the range, by period and gateway
+   */
+  async getPaymentSuccess(query: AnalyticsQuery): Promise<PaymentSuccessReport> {
+    const buckets = periodBuckets(query.from, query.to, query.calendar, query.interval);
+    const payments = await this.prisma.payment.findMany({
+      where: { createdAt: { gte: query.from, lt: query.to } },
+      select: { gateway: true, status: true, createdAt: true },
+    });
+
+    const emptyOutcomes = (): PaymentOutcomes => ({
+      attempts: 0, succeeded: 0, failed: 0, suspicious: 0, pending: 0, successRate: null,
+    });
+    const totals = emptyOutcomes();
+    const periods = buckets.map(bucket => ({ ...bucket, ...emptyOutcomes() }));
+    const index = this.indexBuckets(buckets, query);
+    const byGateway = new Map<string, PaymentOutcomes>();
+
+    for (const payment of payments) {
+      const targets = [totals, periods[index(payment.createdAt)], this.entry(byGateway, payment.gateway, emptyOutcomes)];
+      for (const target of targets.filter(Boolean)) {
+        target.attempts++;
+        if (PAID_STATUSES.includes(payment.status)) target.succeeded++;
+        else if (payment.status === PaymentStatus.FAILED) target.failed++;
+        else if (payment.status === PaymentStatus.SUSPICIOUS) target.suspicious++;
+        else target.pending++;
+      }
+    }
+
+    const withRate = <T extends PaymentOutcomes>(stats: T): T => ({
+      ...stats,
+      successRate: this.rate(stats.succeeded, stats.attempts - stats.pending),
+    });
+    return {
+      totals: withRate(totals),
+      periods: periods.map(withRate),
+      byGateway: [...byGateway.entries()]
+        .map(([gateway, stats]) => withRate({ gateway, ...stats }))
+        .sort((a, b) => b.attempts - a.attempts),
+    };
+  }
+
+  /**
+   * Trials started in the range and what became of them, by the period they
+   * started in and by plan
+   */
+  async getTrialConversion(query: AnalyticsQuery): Promise<TrialConversionReport> {
+    const buckets = periodBuckets(query.from, query.to, query.calendar, query.interval);
+    const trials = await this.prisma.subscription.findMany({
+      where: {
+        trialEndsAt: { not: null },
+        createdAt: { gte: query.from, lt: query.to },
+      },
+      select: {
+        planId: true,
+        status: true,
+        createdAt: true,
+        payments: { where: { status: { in: PAID_STATUSES } }, select: { id: true }, take: 1 },
+      },
+    });
+
+    const emptyOutcomes = (): TrialOutcomes => ({
+      started: 0, converted: 0, expired: 0, cancelled: 0, active: 0, conversionRate: null,
+    });
+    const totals = emptyOutcomes();
+    const periods = buckets.map(bucket => ({ ...bucket, ...emptyOutcomes() }));
+    const index = this.indexBuckets(buckets, query);
+    const byPlan = new Map<string, TrialOutcomes>();
+
+    for (const trial of trials) {
+      const targets = [totals, periods[index(trial.createdAt)], this.entry(byPlan, trial.planId, emptyOutcomes)];
+      for (const target of targets.filter(Boolean)) {
+        target.started++;
+        if (trial.payments.length > 0) target.converted++;
+        else if (trial.status === SubscriptionStatus.EXPIRED) target.expired++;
+        else if (trial.status === SubscriptionStatus.CANCELLED) target.cancelled++;
+        else target.active++;
+      }
+    }
+
+    const withRate = <T extends TrialOutcomes>(stats: T): T => ({
+      ...stats,
+      conversionRate: this.rate(stats.converted, stats.started - stats.active),
+    });
+    const planNames = await this.planNames([...byPlan.keys()]);
+    return {
+      totals: withRate(totals),
+      periods: periods.map(withRate),
+      byPlan: [...byPlan.entries()]
+        .map(([planId, stats]) => withRate({ planId, planName: planNames.get(planId) || planId, ...stats }))
+        .sort((a, b) => b.started - a.started),
+    };
+  }
+
+  /**
+   * Loads every subscription that was ever paid for, with the span it was paying
+   */
+  private async loadPaidLifetimes(): Promise<PaidLifetime[]> {
+    const subscriptions = await this.prisma.subscription.findMany({
+      where: { payments: { some: { status: { in: PAID_STATUSES } } } },
+      select: {
+        status: true,
+        endDate: true,
+        graceEndsAt: true,
+        cancelledAt: true,
+        updatedAt: true,
+        plan: { select: { price: true, currency: true, duration: true } },
+        payments: {
+          where: { status: { in: PAID_STATUSES } },
+          select: { paidAt: true, createdAt: true },
+        },
+      },
+    });
+
+    return subscriptions.map(subscription => {
+      const paidFrom = subscription.payments
+        .map(payment => payment.paidAt || payment.createdAt)
+        .reduce((first, date) => (date < first ? date : first));
+
+      // Expired subscriptions lapse at the end of the grace period, if they had one
+      let churnedAt: Date | null = null;
+      if (subscription.status === SubscriptionStatus.CANCELLED) {
+        churnedAt = subscription.cancelledAt || subscription.updatedAt;
+      } else if (subscription.status === SubscriptionStatus.EXPIRED) {
+        churnedAt = subscription.graceEndsAt || subscription.endDate || subscription.updatedAt;
+      }
+
+      const { price, currency, duration } = subscription.plan;
+      return {
+        paidFrom,
+        churnedAt,
+        monthlyValue: (this.toRials(price, currency) * DAYS_PER_MONTH) / Math.max(duration, 1),
+      };
+    });
+  }
+
+  private isActiveAt(life: PaidLifetime, moment: Date): boolean {
+    return life.paidFrom <= moment && (!life.churnedAt || life.churnedAt > moment);
+  }
+
+  /**
+   * Maps a date to its period's position in `buckets`
+   */
+  private indexBuckets(buckets: PeriodBucket[], query: AnalyticsQuery): (date: Date) => number {
+    const positions = new Map(buckets.map((bucket, position) => [bucket.period, position]));
+    return (date: Date) => positions.get(periodKey(date, query.calendar, query.interval)) ?? -1;
+  }
+
+  private entry<T>(map: Map<string, T>, key: string, create: () => T): T {
+    let value = map.get(key);
+    if (!value) {
+      value = create();
+      map.set(key, value);
+    }
+    return value;
+  }
+
+  private async planNames(ids: string[]): Promise<Map<string, string>> {
+    if (ids.length === 0) return new Map();
+    const plans = await this.prisma.plan.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, name: true },
+    });
+    return new Map(plans.map(plan => [plan.id, plan.name]));
+  }
+
+  private toRials(amount: number, currency: string): number {
+    return convertAmount(amount, toCurrencyCode(currency), 'IRR');
+  }
+
+  private rate(part: number, whole: number): number | null {
+    return whole > 0 ? Math.round((part / whole) * 10000) / 10000 : null;
+  }
+}
@@ -42,14 +42,13 @@ export class ApiKeyService {
     });
   }
 
-  async deactivate(id: string): Promise<boolean> {
+  async deactivate(id: string): Promise<ApiKey | null> {
     const found = await this.prisma.apiKey.findUnique({ where: { id } });
-    if (!found) return false;
-    await this.prisma.apiKey.update({
+    if (!found) return null;
+    return this.prisma.apiKey.update({
       where: { id },
       data: { isActive: false },
     });
-    return true;
   }
 
   async deactivateForUser(id: string, userId: string): Promise<boolean> {
@@ -62,7 +61,7 @@ export class ApiKeyService {
     return true;
   }
 
-  async verifyAndTouch(key: string): Promise<{ ok: boolean; user?: User | null }> {
+  async verifyAndTouch(key: string): Promise<{ ok: boolean; keyId?: string; user?: User | null }> {
     const hash = this.hash(key);
     const found = await this.prisma.apiKey.findUnique({ where: { hash }, include: { user: true } });
     if (!found || !found.isActive) return { ok: false };
@@ -70,6 +69,6 @@ export class ApiKeyService {
       where: { id: found.id },
       data: { lastUsedAt: new Date() },
     });
-    return { ok: true, user: found.user || null };
+    return { ok: true, keyId: found.id, user: found.user || null };
   }
 }
@@ -73,7 +73,7 @@ export class AuthService {
     await (this.sms as any)['sendPattern']?.(env.SMS.OTP_PATTERN_CODE, phone, values);
   }
 
-  async verifyOtp(rawPhone: string, code: string): Promise<{ user: User; apiKey: string }> {
+  async verifyOtp(rawPhone: string, code: string): Promise<{ user: User; apiKey: string; apiKeyId: string }> {
     const phone = this.normalizePhone(rawPhone);
     const record = await this.prisma.otpCode.findFirst({
       where: { phone, usedAt: null, expiresAt: { gt: new Date() } },
@@ -97,11 +97,11 @@ export class AuthService {
 
     const apiKeyPlain = crypto.randomBytes(32).toString('hex');
     const apiHash = crypto.createHash('sha256').update(apiKeyPlain).digest('hex');
-    await this.prisma.apiKey.create({
+    const created = await this.prisma.apiKey.create({
       data: { userId: user.id, hash: apiHash, label: 'login' },
     });
 
-    return { user, apiKey: apiKeyPlain };
+    return { user, apiKey: apiKeyPlain, apiKeyId: created.id };
   }
 
   async validateOtp(rawPhone: string, code: string): Promise<boolean> {
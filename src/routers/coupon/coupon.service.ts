@@ -0,0 +1,283 @@
+import { Prisma, PrismaClient, Coupon, Plan } from '@prisma/client';
+import { CouponType, PaymentStatus } from '../../types/enums';
+import {
+  CreateCouponInput,
+  UpdateCouponInput,
+  CouponQuote,
+  CouponStats,
+} from '../../types/coupon.types';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+
+/**
+ * Coupon Service
+ *
+ * Manages discount codes for campaigns. A coupon takes a percentage or a fixed
+ * amount off the plan price of a new subscription's first payment.
+ *
+ * Redemptions are the payments that carry the coupon. Failed payments do not
+ * count towards maxRedemptions or perUserLimit, so a declined card does not
+ * use up a code. The limits are checked when a plan is priced, and again
+ * under a lock on the coupon row when the payment carrying it is stored, so
+ * concurrent checkouts cannot redeem a coupon past its limits.
+ */
+export class CouponService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Creates a coupon
+   *
+   * @param input - Coupon details; the code is stored upper-case
+   * @returns Created coupon
+   */
+  async create(input: CreateCouponInput): Promise<Coupon> {
+    const code = this.normalizeCode(input.code);
+    const existing = await this.prisma.coupon.findUnique({ where: { code } });
+    if (existing) {
+      throw new ValidationError(`Coupon ${code} already exists`);
+    }
+
+    this.assertValue(input.type, input.value);
+    this.assertDates(input.startsAt, input.expiresAt);
+
+    return this.prisma.coupon.create({
+      data: {
+        code,
+        description: input.description,
+        type: input.type,
+        value: input.value,
+        planIds: input.planIds || [],
+        startsAt: input.startsAt,
+        expiresAt: input.expiresAt,
+        maxRedemptions: input.maxRedemptions,
+        perUserLimit: input.perUserLimit === undefined ? 1 : input.perUserLimit,
+        isActive: input.isActive ?? true,
+      },
+    });
+  }
+
+  /**
+   * Updates a coupon's restrictions
+   *
+   * The code, type and value cannot change once payments may carry the coupon;
+   * create a new coupon instead.
+   *
+   * @param id - Coupon ID
+   * @param input - Fields to change
+   * @returns Updated coupon
+   */
+  async update(id: string, input: UpdateCouponInput): Promise<Coupon> {
+    const coupon = await this.prisma.coupon.findUnique({ where: { id } });
+    if (!coupon) {
+      throw new NotFoundError('Coupon');
+    }
+
+    this.assertDates(
+      input.startsAt === undefined ? coupon.startsAt : input.startsAt,
+      input.expiresAt === undefined ? coupon.expiresAt : input.expiresAt
+    );
+
+    return this.prisma.coupon.update({
+      where: { id },
+      data: {
+        description: input.description,
+        planIds: input.planIds,
+        startsAt: input.startsAt,
+        expiresAt: input.expiresAt,
+        maxRedemptions: input.maxRedemptions,
+        perUserLimit: input.perUserLimit,
+        isActive: input.isActive,
+      },
+    });
+  }
+
+  /**
+   * Lists all coupons with their redemption stats, newest first
+   *
+   * @returns Coupons with a `stats` field
+   */
+  async list(): Promise<Array<Coupon & { stats: CouponStats }>> {
+    const coupons = await this.prisma.coupon.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+    return Promise.all(
+      coupons.map(async coupon => ({ ...coupon, stats: await this.buildStats(coupon) }))
+    );
+  }
+
+  /**
+   * Returns redemption stats for a coupon
+   *
+   * @param id - Coupon ID
+   * @returns Counts by payment status, total discount given and revenue collected
+   */
+  async getStats(id: string): Promise<CouponStats> {
+    const coupon = await this.prisma.coupon.findUnique({ where: { id } });
+    if (!coupon) {
+      throw new NotFoundError('Coupon');
+    }
+    return this.buildStats(coupon);
+  }
+
+  /**
+   * Checks that a coupon can be used and prices a plan with it
+   *
+   * @param code - Coupon code as entered by the user (case-insensitive)
+   * @param userId - The user redeeming it
+   * @param plan - The plan being bought
+   * @returns The coupon and the discounted amount
+   * @throws ValidationError explaining why the coupon cannot be used
+   */
+  async quote(code: string, userId: string, plan: Plan): Promise<CouponQuote> {
+    const coupon = await this.prisma.coupon.findUnique({
+      where: { code: this.normalizeCode(code) },
+    });
+    if (!coupon || !coupon.isActive) {
+      throw new ValidationError('Invalid coupon code');
+    }
+
+    const now = new Date();
+    if (coupon.startsAt && coupon.startsAt > now) {
+      throw new ValidationError('This coupon is not active yet');
+    }
+    if (coupon.expiresAt && coupon.expiresAt <= now) {
+      throw new ValidationError('This coupon has expired');
+    }
+    if (coupon.planIds.length > 0 && !coupon.planIds.includes(plan.id)) {
+      throw new ValidationError('This coupon cannot be used for this plan');
+    }
+
+    await this.assertRedeemable(this.prisma, coupon, userId);
+
+    const discountAmount = this.calculateDiscount(coupon, plan.price);
+    return {
+      coupon,
+      originalAmount: plan.price,
+      discountAmount,
+      amount: plan.price - discountAmount,
+    };
+  }
+
+  /**
+   * Stores a payment that carries a coupon, if the coupon is still within its limits
+   *
+   * The coupon row is locked for the transaction, so concurrent redemptions
+   * are counted one after the other and the last one over a limit is refused.
+   *
+   * @param couponId - The coupon the payment carries
+   * @param userId - The user redeeming it
+   * @param store - Creates the payment inside the transaction
+   * @returns What store returned
+   * @throws ValidationError if the coupon has reached a limit meanwhile
+   */
+  async redeem<T>(couponId: string, userId: string, store: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+    return this.prisma.$transaction(async tx => {
+      await tx.$queryRaw`SELECT id FROM "Coupon" WHERE id = ${couponId} FOR UPDATE`;
+      const coupon = await tx.coupon.findUnique({ where: { id: couponId } });
+      if (!coupon) {
+        throw new NotFoundError('Coupon');
+      }
+      await this.assertRedeemable(tx, coupon, userId);
+      return store(tx);
+    });
+  }
+
+  /**
+   * Works out the discount for a price
+   *
+   * Gateways cannot take a zero-amount payment, so the discount never brings
+   * the price below 1.
+   */
+  private calculateDiscount(coupon: Coupon, price: number): number {
+    const discount = coupon.type === CouponType.PERCENT
+      ? Math.floor((price * coupon.value) / 100)
+      : coupon.value;
+    return Math.max(0, Math.min(discount, price - 1));
+  }
+
+  private async assertRedeemable(
+    db: PrismaClient | Prisma.TransactionClient,
+    coupon: Coupon,
+    userId: string
+  ): Promise<void> {
+    if (coupon.maxRedemptions !== null) {
+      const used = await this.countRedemptions(db, coupon.id);
+      if (used >= coupon.maxRedemptions) {
+        throw new ValidationError('This coupon has reached its redemption limit');
+      }
+    }
+    if (coupon.perUserLimit !== null) {
+      const usedByUser = await this.countRedemptions(db, coupon.id, userId);
+      if (usedByUser >= coupon.perUserLimit) {
+        throw new ValidationError('You have already used this coupon');
+      }
+    }
+  }
+
+  private async countRedemptions(
+    db: PrismaClient | Prisma.TransactionClient,
+    couponId: string,
+    userId?: string
+  ): Promise<number> {
+    return db.payment.count({
+      where: {
+        couponId,
+        userId,
+        status: { not: PaymentStatus.FAILED },
+      },
+    });
+  }
+
+  private async buildStats(coupon: Coupon): Promise<CouponStats> {
+    const groups = await this.prisma.payment.groupBy({
+      by: ['status'],
+      where: { couponId: coupon.id },
+      _count: { _all: true },
+      _sum: { discountAmount: true, amount: true },
+    });
+
+    const byStatus = (status: PaymentStatus) => groups.find(g => g.status === status);
+    const completed = byStatus(PaymentStatus.COMPLETED);
+    const pending = byStatus(PaymentStatus.PENDING);
+    const failed = byStatus(PaymentStatus.FAILED);
+    const redemptions = groups
+      .filter(g => g.status !== PaymentStatus.FAILED)
+      .reduce((sum, g) => sum + g._count._all, 0);
+
+    return {
+      couponId: coupon.id,
+      code: coupon.code,
+      redemptions,
+      completed: completed?._count._all || 0,
+      pending: pending?._count._all || 0,
+      failed: failed?._count._all || 0,
+      totalDiscount: completed?._sum.discountAmount || 0,
+      revenue: completed?._sum.amount || 0,
+      remaining: coupon.maxRedemptions === null
+        ? null
+        : Math.max(0, coupon.maxRedemptions - redemptions),
+    };
+  }
+
+  private normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  private assertValue(type: string, value: number): void {
+    if (type === CouponType.PERCENT && (value < 1 || value > 99)) {
+      throw new ValidationError('Percentage coupons must be between 1 and 99');
+    }
+    if (type === CouponType.FIXED && value < 1) {
+      throw new ValidationError('Fixed coupons must discount a positive amount');
+    }
+  }
+
+  private assertDates(startsAt?: Date | null, expiresAt?: Date | null): void {
+    if (startsAt && expiresAt && expiresAt <= startsAt) {
+      throw new ValidationError('expiresAt must be after startsAt');
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import { ConflictError, ValidationError } from '../../utils/errors';
+import { env } from '../../config/env';
+
+export interface IdempotentResponse {
+  status: number;
+  body: any;
+  replayed: boolean;
+}
+
+/**
+ * Idempotency Service
+ *
+ * Lets clients retry a POST safely by sending an `Idempotency-Key` header.
+ * The first request with a key runs and its successful response is stored;
+ * a retry with the same key and body gets the stored response back instead
+ * of running again. Keys are scoped per route and per caller, and expire
+ * after IDEMPOTENCY_TTL_HOURS.
+ *
+ * Failed requests release their key, so the client can retry them.
+ */
+export class IdempotencyService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Runs a handler at most once per idempotency key
+   *
+   * @param scope - The route, e.g. "POST /api/subscription"
+   * @param owner - Who is calling (user ID, "master" or "apikey:<id>")
+   * @param key - The client's Idempotency-Key; the handler just runs if absent
+   * @param request - The parsed request body, used to detect key reuse
+   * @param handler - Produces the response body on success
+   * @returns The response, and whether it was replayed from a previous request
+   * @throws ConflictError if a request with the same key is still running,
+   *         ValidationError if the key was used with a different body or
+   *         the caller could not be identified
+   */
+  async run(
+    scope: string,
+    owner: string | undefined,
+    key: string | undefined,
+    request: unknown,
+    handler: () => Promise<any>
+  ): Promise<IdempotentResponse> {
+    if (!key) {
+      return { status: 200, body: await handler(), replayed: false };
+    }
+    if (key.length > 255) {
+      throw new ValidationError('Idempotency-Key must be at most 255 characters');
+    }
+    if (!owner) {
+      throw new ValidationError('Idempotency-Key requires an identified caller');
+    }
+
+    const requestHash = crypto.createHash('sha256').update(JSON.stringify(request ?? null)).digest('hex');
+    const where = { scope_owner_key: { scope, owner, key } };
+
+    const existing = await this.prisma.idempotencyKey.findUnique({ where });
+    if (existing) {
+      const expiresAt = existing.createdAt.getTime() + env.IDEMPOTENCY.TTL_HOURS * 60 * 60 * 1000;
+      if (expiresAt < Date.now()) {
+        await this.prisma.idempotencyKey.deleteMany({ where: { id: existing.id } });
+      } else {
+        if (existing.requestHash !== requestHash) {
+          throw new ValidationError('Idempotency-Key was already used with a different request');
+        }
+        if (existing.status !== 'COMPLETED') {
+          throw new ConflictError('A request with this Idempotency-Key is still in progress');
+        }
+        return { status: existing.responseStatus || 200, body: existing.responseBody, replayed: true };
+      }
+    }
+
+    let record;
+    try {
+      record = await this.prisma.idempotencyKey.create({
+        data: { scope, owner, key, requestHash },
+      });
+    } catch (error: any) {
+      // Unique constraint: a concurrent request with the same key got there first
+      if (error?.code === 'P2002') {
+        throw new ConflictError('A request with this Idempotency-Key is still in progress');
+      }
+      throw error;
+    }
+
+    let body: any;
+    try {
+      body = await handler();
+    } catch (error) {
+      await this.prisma.idempotencyKey.deleteMany({ where: { id: record.id } });
+      throw error;
+    }
+
+    await this.prisma.idempotencyKey.update({
+      where: { id: record.id },
+      data: {
+        status: 'COMPLETED',
+        responseStatus: 200,
+        responseBody: JSON.parse(JSON.stringify(body ?? null)),
+      },
+    });
+
+    return { status: 200, body, replayed: false };
+  }
+
+  /**
+   * Deletes keys older than IDEMPOTENCY_TTL_HOURS
+   *
+   * Expired keys are otherwise only removed when the same key is reused.
+   *
+   * @returns Number of keys deleted
+   */
+  async purgeExpired(): Promise<number> {
+    const cutoff = new Date(Date.now() - env.IDEMPOTENCY.TTL_HOURS * 60 * 60 * 1000);
+    const { count } = await this.prisma.idempotencyKey.deleteMany({
+      where: { createdAt: { lt: cutoff } },
+    });
+    return count;
+  }
+}
@@ -0,0 +1,130 @@
+import axios from 'axios';
+import { Invoice } from '@prisma/client';
+import { InvoiceLine, InvoiceParty } from '../../types/invoice.types';
+import { escapeHtml } from '../../utils/html';
+import { formatMoney } from '../../utils/currency';
+import { AppError } from '../../utils/errors';
+import { env } from '../../config/env';
+
+function renderParty(title: string, party: InvoiceParty): string {
+  const rows: Array<[string, string | undefined]> = [
+    ['نام', party.legalName || party.name],
+    ['شناسه ملی', party.nationalId],
+    ['کد اقتصادی', party.economicCode],
+    ['شماره ثبت', party.registrationNumber],
+    ['نشانی', party.address],
+    ['کد پستی', party.postalCode],
+    ['تلفن', party.phone],
+    ['ایمیل', party.email],
+  ];
+  const cells = rows
+    .filter(([, value]) => value)
+    .map(([label, value]) => `<div><span class="label">${label}:</span> ${escapeHtml(value!)}</div>`)
+    .join('\n        ');
+  return `<section class="party">
+        <h2>${title}</h2>
+        ${cells}
+      </section>`;
+}
+
+/**
+ * Renders an invoice as a standalone, printable HTML page (Persian, RTL,
+ * Jalali dates)
+ *
+ * @param invoice - The stored invoice; seller, buyer and lines come from its snapshots
+ * @returns HTML document
+ */
+export function renderInvoiceHtml(invoice: Invoice): string {
+  const seller = invoice.sellerDetails as unknown as InvoiceParty;
+  const buyer = invoice.buyerDetails as unknown as InvoiceParty;
+  const lines = invoice.lines as unknown as InvoiceLine[];
+  const money = (amount: number) => escapeHtml(formatMoney(amount, invoice.currency));
+
+  const rows = lines
+    .map((line, index) => `<tr>
+          <td>${(index + 1).toLocaleString('fa-IR')}</td>
+          <td>${escapeHtml(line.description)}</td>
+          <td>${line.quantity.toLocaleString('fa-IR')}</td>
+          <td>${money(line.unitPrice)}</td>
+          <td>${money(line.amount)}</td>
+        </tr>`)
+    .join('\n        ');
+
+  return `<!DOCTYPE html>
+<html lang="fa" dir="rtl">
+  <head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(invoice.number)}</title>
+    <style>
+      body { font-family: Vazirmatn, Tahoma, sans-serif; margin: 32px; color: #222; }
+      header { display: flex; justify-content: space-between; align-items: baseline; }
+      .parties { display: flex; gap: 24px; margin: 24px 0; }
+      .party { flex: 1; border: 1px solid #ccc; padding: 12px; }
+      .party h2 { font-size: 16px; margin: 0 0 8px; }
+      .label { color: #666; }
+      table { width: 100%; border-collapse: collapse; }
+      th, td { border: 1px solid #ccc; padding: 8px; text-align: right; }
+      th { background: #f3f3f3; }
+      tfoot td { font-weight: bold; }
+    </style>
+  </head>
+  <body>
+    <header>
+      <h1>صورتحساب فروش خدمات</h1>
+      <div>
+        <div><span class="label">شماره:</span> ${escapeHtml(invoice.number)}</div>
+        <div><span class="label">تاریخ:</span> ${invoice.issuedAt.toLocaleDateString('fa-IR')}</div>
+      </div>
+    </header>
+    <div class="parties">
+      ${renderParty('فروشنده', seller)}
+      ${renderParty('خریدار', buyer)}
+    </div>
+    <table>
+      <thead>
+        <tr><th>ردیف</th><th>شرح</th><th>تعداد</th><th>مبلغ واحد</th><th>مبلغ</th></tr>
+      </thead>
+      <tbody>
+        ${rows}
+      </tbody>
+      <tfoot>
+        <tr><td colspan="4">مبلغ قابل پرداخت</td><td>${money(invoice.total)}</td></tr>
+      </tfoot>
+    </table>
+  </body>
+</html>`;
+}
+
+export function isPdfRenderingEnabled(): boolean {
+  return Boolean(env.INVOICE.PDF_RENDERER_URL);
+}
+
+/**
+ * Converts invoice HTML to PDF with the Gotenberg service at
+ * INVOICE_PDF_RENDERER_URL (headless Chromium, so Persian text and RTL
+ * layout render the same as in a browser)
+ *
+ * @param html - The invoice page
+ * @returns PDF file contents
+ * @throws AppError (503) if no renderer is configured or it fails
+ */
+export async function renderInvoicePdf(html: string): Promise<Buffer> {
+  if (!env.INVOICE.PDF_RENDERER_URL) {
+    throw new AppError('PDF invoices are not enabled (INVOICE_PDF_RENDERER_URL is not set)', 503);
+  }
+
+  const form = new FormData();
+  form.append('files', new Blob([html], { type: 'text/html' }), 'index.html');
+  form.append('printBackground', 'true');
+
+  try {
+    const response = await axios.post(
+      `${env.INVOICE.PDF_RENDERER_URL.replace(/\/$/, '')}/forms/chromium/convert/html`,
+      form,
+      { responseType: 'arraybuffer', timeout: env.INVOICE.PDF_TIMEOUT_MS }
+    );
+    return Buffer.from(response.data);
+  } catch (error: any) {
+    throw new AppError(`PDF rendering failed: ${error.message}`, 503);
+  }
+}
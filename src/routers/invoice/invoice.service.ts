@@ -0,0 +1,335 @@
+import { PrismaClient, Invoice, Payment, Prisma, Seller } from '@prisma/client';
+import { PaymentPurpose, PaymentStatus } from '../../types/enums';
+import {
+  CreateSellerInput,
+  InvoiceDocument,
+  InvoiceLine,
+  InvoiceParty,
+  UpdateSellerInput,
+} from '../../types/invoice.types';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { isPdfRenderingEnabled, renderInvoiceHtml, renderInvoicePdf } from './invoice.renderer';
+
+const PARTY_FIELDS: Array<keyof InvoiceParty> = [
+  'name',
+  'legalName',
+  'nationalId',
+  'economicCode',
+  'registrationNumber',
+  'address',
+  'postalCode',
+  'phone',
+  'email',
+];
+
+/**
+ * Invoice Service
+ *
+ * Issues an invoice for every completed payment. Each seller numbers its
+ * invoices sequentially without gaps: the counter is taken in the same
+ * transaction that creates the invoice.
+ *
+ * Plan prices are what the customer pays, VAT included, so the VAT line is
+ * worked out of the amount paid at the seller's rate. Seller and buyer
+ * details are copied onto the invoice, so later edits don't change invoices
+ * already issued.
+ */
+export class InvoiceService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Creates a seller
+   *
+   * @param input - Company details, VAT rate and invoice number prefix
+   * @returns Created seller
+   */
+  async createSeller(input: CreateSellerInput): Promise<Seller> {
+    this.assertVatRate(input.vatRate);
+    return this.prisma.$transaction(async tx => {
+      if (input.isDefault) {
+        await tx.seller.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+      }
+      return tx.seller.create({
+        data: {
+          ...this.partyData(input),
+          name: input.name,
+          vatRate: input.vatRate,
+          invoicePrefix: input.invoicePrefix,
+          // The first seller is the default until another one is chosen
+          isDefault: input.isDefault ?? (await tx.seller.count()) === 0,
+        },
+      });
+    });
+  }
+
+  /**
+   * Updates a seller. Invoices already issued keep the details they were issued with.
+   *
+   * @param id - Seller ID
+   * @param input - Fields to change
+   * @returns Updated seller
+   */
+  async updateSeller(id: string, input: UpdateSellerInput): Promise<Seller> {
+    const seller = await this.prisma.seller.findUnique({ where: { id } });
+    if (!seller) {
+      throw new NotFoundError('Seller');
+    }
+    this.assertVatRate(input.vatRate);
+
+    return this.prisma.$transaction(async tx => {
+      if (input.isDefault) {
+        await tx.seller.updateMany({ where: { isDefault: true, id: { not: id } }, data: { isDefault: false } });
+      }
+      return tx.seller.update({
+        where: { id },
+        data: {
+          ...this.partyData(input),
+          name: input.name,
+          vatRate: input.vatRate,
+          invoicePrefix: input.invoicePrefix,
+          isDefault: input.isDefault,
+        },
+      });
+    });
+  }
+
+  async listSellers(): Promise<Seller[]> {
+    return this.prisma.seller.findMany({ orderBy: { createdAt: 'asc' } });
+  }
+
+  /**
+   * Issues the invoice for a completed payment
+   *
+   * Safe to call more than once: a payment has at most one invoice, and a
+   * second call returns it.
+   *
+   * @param payment - The completed payment
+   * @returns The invoice, or null when no seller is set up
+   */
+  async issueForPayment(payment: Payment): Promise<Invoice | null> {
+    const existing = await this.prisma.invoice.findUnique({ where: { paymentId: payment.id } });
+    if (existing) {
+      return existing;
+    }
+
+    const subscription = await this.prisma.subscription.findUnique({
+      where: { id: payment.subscriptionId },
+      include: { plan: true, user: true },
+    });
+    if (!subscription) {
+      throw new NotFoundError('Subscription');
+    }
+
+    const metadata = payment.metadata ? JSON.parse(payment.metadata) : {};
+    const planId = metadata.targetPlanId || metadata.planId || subscription.planId;
+    const plan = planId === subscription.planId
+      ? subscription.plan
+      : await this.prisma.plan.findUnique({ where: { id: planId } }) || subscription.plan;
+
+    const seller = plan.sellerId
+      ? await this.prisma.seller.findUnique({ where: { id: plan.sellerId } })
+      : await this.prisma.seller.findFirst({ where: { isDefault: true } });
+    if (!seller) {
+      console.warn(`[Invoice] No seller set up; payment ${payment.id} was not invoiced`);
+      return null;
+    }
+
+    const user = subscription.user;
+    const billing = (user.billing && typeof user.billing === 'object' ? user.billing : {}) as Partial<InvoiceParty>;
+    const buyer: InvoiceParty = {
+      ...billing,
+      name: billing.name || user.name || payment.userEmail || payment.userPhone || user.id,
+      email: billing.email || payment.userEmail || user.email || undefined,
+      phone: billing.phone || payment.userPhone || user.phone || undefined,
+    };
+
+    const amounts = this.splitVat(payment, seller.vatRate);
+    const lines: InvoiceLine[] = [
+      {
+        kind: 'ITEM',
+        description: this.describe(payment, plan.name, plan.duration),
+        quantity: 1,
+        unitPrice: amounts.subtotal,
+        amount: amounts.subtotal,
+      },
+    ];
+    if (amounts.discount > 0) {
+      lines.push({ kind: 'DISCOUNT', description: 'تخفیف', quantity: 1, unitPrice: -amounts.discount, amount: -amounts.discount });
+    }
+    lines.push({
+      kind: 'TAX',
+      description: `مالیات بر ارزش افزوده (${seller.vatRate.toLocaleString('fa-IR')}٪)`,
+      quantity: 1,
+      unitPrice: amounts.tax,
+      amount: amounts.tax,
+    });
+
+    try {
+      return await this.prisma.$transaction(async tx => {
+        // Taking the number locks the seller row until the invoice is stored,
+        // so numbers are unique and a failed insert gives its number back
+        const counter = await tx.seller.update({
+          where: { id: seller.id },
+          data: { nextInvoiceNumber: { increment: 1 } },
+        });
+        const sequence = counter.nextInvoiceNumber - 1;
+
+        return tx.invoice.create({
+          data: {
+            number: `${counter.invoicePrefix}-${String(sequence).padStart(6, '0')}`,
+            sequence,
+            sellerId: seller.id,
+            paymentId: payment.id,
+            userId: subscription.userId,
+            currency: payment.currency,
+            subtotal: amounts.subtotal,
+            discount: amounts.discount,
+            tax: amounts.tax,
+            total: payment.amount,
+            vatRate: seller.vatRate,
+            sellerDetails: this.toJson(this.partyOf(seller)),
+            buyerDetails: this.toJson(buyer),
+            lines: this.toJson(lines),
+          },
+        });
+      });
+    } catch (error) {
+      // Another caller invoiced the payment first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const invoice = await this.prisma.invoice.findUnique({ where: { paymentId: payment.id } });
+        if (invoice) return invoice;
+      }
+      throw error;
+    }
+  }
+
+  async getInvoice(id: string): Promise<Invoice> {
+    const invoice = await this.prisma.invoice.findUnique({ where: { id } });
+    if (!invoice) {
+      throw new NotFoundError('Invoice');
+    }
+    return invoice;
+  }
+
+  async listInvoices(userId?: string): Promise<Invoice[]> {
+    return this.prisma.invoice.findMany({
+      where: userId ? { userId } : undefined,
+      orderBy: { issuedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Returns a payment's invoice, issuing it if the payment completed but
+   * invoicing failed at the time
+   *
+   * @param paymentId - Payment ID
+   * @returns The invoice
+   * @throws NotFoundError if the payment doesn't exist or can't be invoiced
+   */
+  async getForPayment(paymentId: string): Promise<Invoice> {
+    const invoice = await this.prisma.invoice.findUnique({ where: { paymentId } });
+    if (invoice) {
+      return invoice;
+    }
+    const payment = await this.prisma.payment.findUnique({ where: { id: paymentId } });
+    if (!payment || payment.status !== PaymentStatus.COMPLETED) {
+      throw new NotFoundError('Invoice');
+    }
+    const issued = await this.issueForPayment(payment);
+    if (!issued) {
+      throw new NotFoundError('Invoice');
+    }
+    return issued;
+  }
+
+  /**
+   * Renders an invoice for download or as an email attachment
+   *
+   * @param invoice - The invoice
+   * @param format - 'pdf' or 'html'
+   * @param fallback - Render HTML instead when a PDF can't be made
+   * @returns File name, content type and contents
+   */
+  async render(invoice: Invoice, format: 'html' | 'pdf', fallback = false): Promise<InvoiceDocument> {
+    const html = renderInvoiceHtml(invoice);
+    if (format === 'pdf' && (isPdfRenderingEnabled() || !fallback)) {
+      try {
+        return {
+          invoice,
+          filename: `${invoice.number}.pdf`,
+          contentType: 'application/pdf',
+          content: await renderInvoicePdf(html),
+        };
+      } catch (error: any) {
+        if (!fallback) throw error;
+        console.warn(`[Invoice] ${error.message}; sending ${invoice.number} as HTML`);
+      }
+    }
+    return {
+      invoice,
+      filename: `${invoice.number}.html`,
+      contentType: 'text/html; charset=utf-8',
+      content: Buffer.from(html, 'utf8'),
+    };
+  }
+
+  /**
+   * Splits the amount paid into the line items, the coupon discount and VAT,
+   * all excluding VAT except the total. Rounding goes to the VAT line, so the
+   * parts always add up to what was paid.
+   */
+  private splitVat(payment: Payment, vatRate: number): { subtotal: number; discount: number; tax: number } {
+    const exVat = (amount: number) => Math.round((amount * 100) / (100 + vatRate));
+    const net = exVat(payment.amount);
+    const subtotal = payment.discountAmount > 0
+      ? exVat(payment.originalAmount ?? payment.amount + payment.discountAmount)
+      : net;
+    return { subtotal, discount: subtotal - net, tax: payment.amount - net };
+  }
+
+  private describe(payment: Payment, planName: string, duration: number): string {
+    const period = `${duration.toLocaleString('fa-IR')} روز`;
+    switch (payment.purpose) {
+      case PaymentPurpose.RENEWAL:
+        return `تمدید اشتراک ${planName} (${period})`;
+      case PaymentPurpose.PLAN_CHANGE:
+        return `تغییر اشتراک به ${planName} (مابه‌التفاوت)`;
+      default:
+        return `اشتراک ${planName} (${period})`;
+    }
+  }
+
+  private partyOf(seller: Seller): InvoiceParty {
+    const party: InvoiceParty = { name: seller.name };
+    for (const field of PARTY_FIELDS) {
+      const value = seller[field];
+      if (value) party[field] = value;
+    }
+    return party;
+  }
+
+  private partyData(input: Partial<InvoiceParty>): Omit<Partial<InvoiceParty>, 'name'> {
+    const { name: _name, ...rest } = input;
+    const data: Omit<Partial<InvoiceParty>, 'name'> = {};
+    for (const field of PARTY_FIELDS) {
+      if (field !== 'name' && field in rest) {
+        data[field] = rest[field];
+      }
+    }
+    return data;
+  }
+
+  private assertVatRate(vatRate?: number): void {
+    if (vatRate !== undefined && (vatRate < 0 || vatRate > 100)) {
+      throw new ValidationError('vatRate must be a percentage between 0 and 100');
+    }
+  }
+
+  private toJson(value: unknown): Prisma.InputJsonValue {
+    return JSON.parse(JSON.stringify(value));
+  }
+}
@@ -1,5 +1,13 @@
 import { Resend } from 'resend';
 import { env } from '../../config/env';
+import { formatMoney } from '../../utils/currency';
+import { escapeHtml } from '../../utils/html';
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
 
 export class EmailService {
   private resend?: Resend;
@@ -10,7 +18,7 @@ export class EmailService {
     }
   }
 
-  async sendEmail(to: string, subject: string, html: string): Promise<void> {
+  async sendEmail(to: string, subject: string, html: string, attachments?: EmailAttachment[]): Promise<void> {
     try {
       if (!this.resend) {
         console.log(`[Email Service] Would send to ${to}: ${subject}`);
@@ -22,6 +30,7 @@ export class EmailService {
         to,
         subject,
         html,
+        attachments,
       });
       if (error) {
         throw error;
@@ -32,22 +41,74 @@ export class EmailService {
     }
   }
 
-  async sendPaymentLink(to: string, paymentUrl: string, planName: string, amount: number): Promise<void> {
+  async sendPaymentLink(to: string, paymentUrl: string, planName: string, amount: number, currency: string): Promise<void> {
     const html = `
       <h1>Payment for ${planName}</h1>
-      <p>Amount: ${amount.toLocaleString('fa-IR')} IRR</p>
+      <p>Amount: ${formatMoney(amount, currency, 'en')}</p>
       <p>Please click the link below to pay:</p>
       <a href="${paymentUrl}">Pay Now</a>
     `;
     await this.sendEmail(to, `Payment for ${planName}`, html);
   }
 
-  async sendSubscriptionActivated(to: string, planName: string, endDate: Date): Promise<void> {
+  async sendSubscriptionActivated(to: string, planName: string, endDate: Date, attachments?: EmailAttachment[]): Promise<void> {
     const html = `
       <h1>Subscription Activated</h1>
       <p>Your subscription to ${planName} is now active.</p>
-      <p>Expires on: ${endDate.toLocaleDateString('fa-IR')}</p>
+      <p>Expires on: ${endDate.toLocaleDateString('fa-IR')}</p>${attachments?.length ? `
+      <p>Your invoice is attached.</p>` : ''}
+    `;
+    await this.sendEmail(to, `Subscription Activated - ${planName}`, html, attachments);
+  }
+
+  async sendRenewalReminder(to: string, paymentUrl: string, planName: string, amount: number, currency: string, endDate: Date): Promise<void> {
+    const html = `
+      <h1>Renew ${planName}</h1>
+      <p>Your subscription ends on ${endDate.toLocaleDateString('fa-IR')}.</p>
+      <p>Amount: ${formatMoney(amount, currency, 'en')}</p>
+      <p>Please click the link below to renew:</p>
+      <a href="${paymentUrl}">Renew Now</a>
+    `;
+    await this.sendEmail(to, `Renewal reminder - ${planName}`, html);
+  }
+
+  async sendDunningReminder(to: string, paymentUrl: string, planName: string, amount: number, currency: string, graceEndsAt: Date): Promise<void> {
+    const html = `
+      <h1>Payment overdue for ${planName}</h1>
+      <p>We could not renew your subscription. Your access will end on ${graceEndsAt.toLocaleDateString('fa-IR')}.</p>
+      <p>Amount: ${formatMoney(amount, currency, 'en')}</p>
+      <p>Please click the link below to keep your subscription:</p>
+      <a href="${paymentUrl}">Pay Now</a>
+    `;
+    await this.sendEmail(to, `Payment overdue - ${planName}`, html);
+  }
+
+  async sendTrialEnding(to: string, planName: string, trialEndsAt: Date, paymentUrl?: string): Promise<void> {
+    const html = `
+      <h1>Your ${planName} trial is ending</h1>
+      <p>Your free trial ends on ${trialEndsAt.toLocaleDateString('fa-IR')}.</p>
+      ${paymentUrl ? `<p>Please click the link below to keep your subscription:</p>
+      <a href="${paymentUrl}">Pay Now</a>` : '<p>Subscribe to keep your access.</p>'}
+    `;
+    await this.sendEmail(to, `Trial ending - ${planName}`, html);
+  }
+
+  async sendSubscriptionExpired(to: string, planName: string): Promise<void> {
+    const html = `
+      <h1>Subscription Expired</h1>
+      <p>Your subscription to ${planName} has ended.</p>
+      <p>Subscribe again to restore access.</p>
+    `;
+    await this.sendEmail(to, `Subscription Expired - ${planName}`, html);
+  }
+
+  async sendWebhookDisabled(to: string, url: string, failingSince: Date, lastError?: string): Promise<void> {
+    const html = `
+      <h1>Webhook disabled</h1>
+      <p>Deliveries to ${escapeHtml(url)} have been failing since ${failingSince.toLocaleString('fa-IR')}, so we stopped sending events to it.</p>
+      ${lastError ? `<p>Last error: ${escapeHtml(lastError)}</p>` : ''}
+      <p>Fix the endpoint, then turn the webhook back on.</p>
     `;
-    await this.sendEmail(to, `Subscription Activated - ${planName}`, html);
+    await this.sendEmail(to, 'Webhook disabled', html);
   }
 }
@@ -1,6 +1,7 @@
 import { SmsService } from './sms.service';
-import { EmailService } from './email.service';
+import { EmailAttachment, EmailService } from './email.service';
 import { GenericNotificationInput } from '../../types/subscription.types';
+import { env } from '../../config/env';
 
 /**
  * Notification Service
@@ -36,27 +37,29 @@ export class NotificationService {
    * @param paymentUrl - The payment URL to send
    * @param planName - Name of the subscription plan
    * @param amount - Payment amount
+   * @param currency - Currency of the amount (IRR or IRT)
    */
   async sendPaymentLink(
     email: string | undefined,
     phone: string | undefined,
     paymentUrl: string,
     planName: string,
-    amount: number
+    amount: number,
+    currency: string
   ): Promise<void> {
     const promises: Promise<void>[] = [];
 
     // Send via SMS if phone number is provided
     if (phone) {
       promises.push(
-        this.smsService.sendPaymentLink(phone, paymentUrl, planName, amount)
+        this.smsService.sendPaymentLink(phone, paymentUrl, planName, amount, currency)
       );
     }
 
     // Send via Email if email address is provided
     if (email) {
       promises.push(
-        this.emailService.sendPaymentLink(email, paymentUrl, planName, amount)
+        this.emailService.sendPaymentLink(email, paymentUrl, planName, amount, currency)
       );
     }
 
@@ -76,12 +79,14 @@ export class NotificationService {
    * @param phone - User's phone number (optional)
    * @param planName - Name of the subscription plan
    * @param endDate - When the subscription expires
+   * @param attachments - Files for the email, e.g. the invoice (optional)
    */
   async sendSubscriptionActivated(
     email: string | undefined,
     phone: string | undefined,
     planName: string,
-    endDate: Date
+    endDate: Date,
+    attachments?: EmailAttachment[]
   ): Promise<void> {
     const promises: Promise<void>[] = [];
 
@@ -95,7 +100,7 @@ export class NotificationService {
     // Send via Email if email address is provided
     if (email) {
       promises.push(
-        this.emailService.sendSubscriptionActivated(email, planName, endDate)
+        this.emailService.sendSubscriptionActivated(email, planName, endDate, attachments)
       );
     }
 
@@ -103,6 +108,190 @@ export class NotificationService {
     await Promise.allSettled(promises);
   }
 
+  /**
+   * Sends a renewal reminder with the open renewal payment link
+   * 
+   * Used for the follow-up reminders of an auto-renewal invoice. The message
+   * includes how long is left until the current period ends.
+   * 
+   * @param email - User's email address (optional)
+   * @param phone - User's phone number (optional)
+   * @param paymentUrl - The renewal payment URL
+   * @param planName - Name of the subscription plan
+   * @param amount - Renewal amount
+   * @param currency - Currency of the amount
+   * @param endDate - When the current period ends
+   */
+  async sendRenewalReminder(
+    email: string | undefined,
+    phone: string | undefined,
+    paymentUrl: string,
+    planName: string,
+    amount: number,
+    currency: string,
+    endDate: Date
+  ): Promise<void> {
+    const promises: Promise<void>[] = [];
+
+    if (phone) {
+      promises.push(
+        this.smsService.sendRenewalReminder(phone, paymentUrl, planName, amount, currency, endDate)
+      );
+    }
+
+    if (email) {
+      promises.push(
+        this.emailService.sendRenewalReminder(email, paymentUrl, planName, amount, currency, endDate)
+      );
+    }
+
+    await Promise.allSettled(promises);
+  }
+
+  /**
+   * Sends a dunning reminder for a past-due subscription
+   * 
+   * Tells the user their renewal is overdue, when access will be cut off and
+   * where to pay.
+   * 
+   * @param email - User's email address (optional)
+   * @param phone - User's phone number (optional)
+   * @param paymentUrl - The renewal payment URL
+   * @param planName - Name of the subscription plan
+   * @param amount - Renewal amount
+   * @param currency - Currency of the amount
+   * @param graceEndsAt - When access will be cut off
+   */
+  async sendDunningReminder(
+    email: string | undefined,
+    phone: string | undefined,
+    paymentUrl: string,
+    planName: string,
+    amount: number,
+    currency: string,
+    graceEndsAt: Date
+  ): Promise<void> {
+    const promises: Promise<void>[] = [];
+
+    if (phone) {
+      promises.push(
+        this.smsService.sendDunningReminder(phone, paymentUrl, planName, amount, currency, graceEndsAt)
+      );
+    }
+
+    if (email) {
+      promises.push(
+        this.emailService.sendDunningReminder(email, paymentUrl, planName, amount, currency, graceEndsAt)
+      );
+    }
+
+    await Promise.allSettled(promises);
+  }
+
+  /**
+   * Sends a trial ending reminder
+   * 
+   * @param email - User's email address (optional)
+   * @param phone - User's phone number (optional)
+   * @param planName - Name of the subscription plan
+   * @param trialEndsAt - When the trial ends
+   * @param paymentUrl - Link to pay for the plan (optional)
+   */
+  async sendTrialEnding(
+    email: string | undefined,
+    phone: string | undefined,
+    planName: string,
+    trialEndsAt: Date,
+    paymentUrl?: string
+  ): Promise<void> {
+    const promises: Promise<void>[] = [];
+
+    if (phone) {
+      promises.push(this.smsService.sendTrialEnding(phone, planName, trialEndsAt, paymentUrl));
+    }
+
+    if (email) {
+      promises.push(this.emailService.sendTrialEnding(email, planName, trialEndsAt, paymentUrl));
+    }
+
+    await Promise.allSettled(promises);
+  }
+
+  /**
+   * Sends a subscription expiry notification
+   * 
+   * This tells the user that their subscription period has ended and access
+   * to the plan has been revoked.
+   * 
+   * @param email - User's email address (optional)
+   * @param phone - User's phone number (optional)
+   * @param planName - Name of the subscription plan
+   */
+  async sendSubscriptionExpired(
+    email: string | undefined,
+    phone: string | undefined,
+    planName: string
+  ): Promise<void> {
+    const promises: Promise<void>[] = [];
+
+    if (phone) {
+      promises.push(this.smsService.sendSubscriptionExpired(phone, planName));
+    }
+
+    if (email) {
+      promises.push(this.emailService.sendSubscriptionExpired(email, planName));
+    }
+
+    await Promise.allSettled(promises);
+  }
+
+  /**
+   * Tells a webhook's owner that it was disabled because deliveries kept failing
+   * 
+   * @param email - Owner's email address (optional; nothing is sent without it)
+   * @param url - The webhook's URL
+   * @param failingSince - When deliveries started failing
+   * @param lastError - Why the last delivery failed
+   */
+  async sendWebhookDisabled(
+    email: string | undefined,
+    url: string,
+    failingSince: Date,
+    lastError?: string
+  ): Promise<void> {
+    if (!email) return;
+    await Promise.allSettled([this.emailService.sendWebhookDisabled(email, url, failingSince, lastError)]);
+  }
+
+  /**
+   * Alerts the operators about something that needs a human
+   * 
+   * Goes to ADMIN_ALERT_EMAIL and ADMIN_ALERT_PHONE; if neither is set the
+   * alert is only logged.
+   * 
+   * @param subject - Short summary of the problem
+   * @param details - Key/value details for the email body
+   */
+  async sendAdminAlert(subject: string, details: Record<string, any>): Promise<void> {
+    console.warn(`[Admin Alert] ${subject}`, details);
+    const promises: Promise<void>[] = [];
+
+    if (env.ALERTS.PHONE) {
+      promises.push(this.smsService.sendSms(env.ALERTS.PHONE, `${env.APP_NAME}\n${subject}`));
+    }
+
+    if (env.ALERTS.EMAIL) {
+      const rows = Object.entries(details)
+        .map(([key, value]) => `<li><b>${key}</b>: ${typeof value === 'object' ? JSON.stringify(value) : value}</li>`)
+        .join('');
+      promises.push(
+        this.emailService.sendEmail(env.ALERTS.EMAIL, `[${env.APP_NAME}] ${subject}`, `<h1>${subject}</h1><ul>${rows}</ul>`)
+      );
+    }
+
+    await Promise.allSettled(promises);
+  }
+
   /**
    * Generic notification sender
    * 
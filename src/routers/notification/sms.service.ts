@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { env } from '../../config/env';
+import { formatMoney } from '../../utils/currency';
 
 /**
  * SMS Service for sending notifications
@@ -97,17 +98,19 @@ export class SmsService {
    * @param paymentUrl - The payment URL to send
    * @param planName - Name of the subscription plan
    * @param amount - Payment amount
+   * @param currency - Currency of the amount
    */
   async sendPaymentLink(
     phone: string,
     paymentUrl: string,
     planName: string,
-    amount: number
+    amount: number,
+    currency: string
   ): Promise<void> {
     const values = {
       app_name: env.APP_NAME,
       plan_name: planName,
-      amount: amount.toLocaleString('fa-IR'),
+      amount: formatMoney(amount, currency),
       payment_url: paymentUrl,
     };
     await this.sendPattern(env.SMS.PATTERN_CODE, phone, values);
@@ -130,4 +133,90 @@ export class SmsService {
 تاریخ انقضا: ${endDate.toLocaleDateString('fa-IR')}`;
     await this.sendSms(phone, message);
   }
+
+  /**
+   * Sends a renewal reminder with the payment link
+   * 
+   * @param phone - Recipient's phone number
+   * @param paymentUrl - The renewal payment URL
+   * @param planName - Name of the subscription plan
+   * @param amount - Renewal amount
+   * @param currency - Currency of the amount
+   * @param endDate - When the current period ends
+   */
+  async sendRenewalReminder(
+    phone: string,
+    paymentUrl: string,
+    planName: string,
+    amount: number,
+    currency: string,
+    endDate: Date
+  ): Promise<void> {
+    const message = `${env.APP_NAME}
+اشتراک ${planName} شما در تاریخ ${endDate.toLocaleDateString('fa-IR')} به پایان می‌رسد.
+مبلغ تمدید: ${formatMoney(amount, currency)}
+لینک پرداخت: ${paymentUrl}`;
+    await this.sendSms(phone, message);
+  }
+
+  /**
+   * Sends a dunning reminder for an overdue renewal
+   * 
+   * @param phone - Recipient's phone number
+   * @param paymentUrl - The renewal payment URL
+   * @param planName - Name of the subscription plan
+   * @param amount - Renewal amount
+   * @param currency - Currency of the amount
+   * @param graceEndsAt - When access will be cut off
+   */
+  async sendDunningReminder(
+    phone: string,
+    paymentUrl: string,
+    planName: string,
+    amount: number,
+    currency: string,
+    graceEndsAt: Date
+  ): Promise<void> {
+    const message = `${env.APP_NAME}
+پرداخت تمدید اشتراک ${planName} انجام نشده است.
+دسترسی شما در تاریخ ${graceEndsAt.toLocaleDateString('fa-IR')} قطع می‌شود.
+مبلغ: ${formatMoney(amount, currency)}
+لینک پرداخت: ${paymentUrl}`;
+    await this.sendSms(phone, message);
+  }
+
+  /**
+   * Sends a trial ending reminder, with the payment link when one is open
+   * 
+   * @param phone - Recipient's phone number
+   * @param planName - Name of the subscription plan
+   * @param trialEndsAt - When the trial ends
+   * @param paymentUrl - Link to pay for the plan (optional)
+   */
+  async sendTrialEnding(
+    phone: string,
+    planName: string,
+    trialEndsAt: Date,
+    paymentUrl?: string
+  ): Promise<void> {
+    let message = `${env.APP_NAME}
+دوره آزمایشی اشتراک ${planName} در تاریخ ${trialEndsAt.toLocaleDateString('fa-IR')} به پایان می‌رسد.`;
+    if (paymentUrl) {
+      message += `
+برای ادامه اشتراک پرداخت کنید: ${paymentUrl}`;
+    }
+    await this.sendSms(phone, message);
+  }
+
+  /**
+   * Sends a subscription expiry notification
+   * 
+   * @param phone - Recipient's phone number
+   * @param planName - Name of the subscription plan
+   */
+  async sendSubscriptionExpired(phone: string, planName: string): Promise<void> {
+    const message = `${env.APP_NAME}
+اشتراک ${planName} شما به پایان رسید.`;
+    await this.sendSms(phone, message);
+  }
 }
@@ -0,0 +1,148 @@
+import { GatewayBreakerState, GatewayHealth } from '../../types/payment.types';
+import { PaymentGatewayError } from '../../utils/errors';
+import { env } from '../../config/env';
+
+interface Outcome {
+  at: number;
+  ok: boolean;
+}
+
+/**
+ * Whether an error means the gateway could not be reached or did not answer
+ * (timeout, connection refused, 5xx) rather than a definitive rejection.
+ * Adapters decide this from the HTTP error and record it on the
+ * PaymentGatewayError; anything else is judged the same way.
+ */
+export function isTransportError(error: unknown): boolean {
+  if (error instanceof PaymentGatewayError) return error.transport;
+  return isTransportFailure(error);
+}
+
+/**
+ * Classifies a raw HTTP (axios) error: no response at all, a timeout, a 5xx
+ * or a rate limit is a transport failure; any other response is the
+ * gateway's answer
+ */
+export function isTransportFailure(error: any): boolean {
+  if (error?.code === 'ECONNABORTED' || error?.code === 'ETIMEDOUT') return true;
+  const status = error?.response?.status;
+  return typeof status !== 'number' || status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Gateway Circuit Breaker
+ *
+ * Tracks the outcome of recent gateway calls and opens a circuit when its
+ * transport failure rate over GATEWAY_BREAKER_WINDOW_SEC reaches
+ * GATEWAY_BREAKER_FAILURE_RATE. Payments then go to the next gateway in the
+ * failover order. After GATEWAY_BREAKER_COOLDOWN_SEC the gateway is tried
+ * again (half-open); one success closes it, one failure opens it again.
+ *
+ * Circuits are per credential (user and gateway), so one merchant's broken
+ * setup never reroutes another merchant's payments. State is kept in memory,
+ * so each instance judges gateways by its own traffic.
+ */
+export class GatewayCircuitBreaker {
+  private outcomes = new Map<string, Outcome[]>();
+  private openUntil = new Map<string, number>();
+
+  getState(userId: string, gateway: string): GatewayBreakerState {
+    return this.state(this.key(userId, gateway));
+  }
+
+  recordSuccess(userId: string, gateway: string): void {
+    const key = this.key(userId, gateway);
+    if (this.state(key) !== 'CLOSED') {
+      this.openUntil.delete(key);
+      this.outcomes.delete(key);
+      console.log(`[CircuitBreaker] ${gateway} recovered for user ${userId}, circuit closed`);
+    }
+    this.record(key, true);
+  }
+
+  recordFailure(userId: string, gateway: string): void {
+    const key = this.key(userId, gateway);
+    if (this.state(key) === 'HALF_OPEN') {
+      this.open(key);
+      return;
+    }
+    this.record(key, false);
+
+    const { requests, failures } = this.stats([key]);
+    if (
+      this.state(key) === 'CLOSED' &&
+      requests >= env.GATEWAY_BREAKER.MIN_REQUESTS &&
+      failures / requests >= env.GATEWAY_BREAKER.FAILURE_RATE
+    ) {
+      this.open(key);
+    }
+  }
+
+  /**
+   * Breaker stats for one user's credential, or summed over every user's
+   * credentials for the gateway (open if any of them is open)
+   */
+  getHealth(gateway: string, userId?: string): GatewayHealth {
+    const keys = userId
+      ? [this.key(userId, gateway)]
+      : Array.from(new Set([...this.outcomes.keys(), ...this.openUntil.keys()])).filter(key => key.endsWith(`:${gateway}`));
+    const { requests, failures } = this.stats(keys);
+    const states = keys.map(key => this.state(key));
+    const state: GatewayBreakerState = states.includes('OPEN') ? 'OPEN' : states.includes('HALF_OPEN') ? 'HALF_OPEN' : 'CLOSED';
+    const until = keys.map(key => this.openUntil.get(key)).filter((t): t is number => t !== undefined);
+    return {
+      gateway,
+      state,
+      requests,
+      failures,
+      failureRate: requests === 0 ? 0 : Math.round((failures / requests) * 100) / 100,
+      openUntil: state === 'CLOSED' ? null : new Date(Math.max(...until)),
+    };
+  }
+
+  /**
+   * Orders a user's gateways for an attempt: the configured order is kept,
+   * but gateways with an open circuit move to the end as a last resort
+   */
+  prioritize(userId: string, gateways: string[]): string[] {
+    const open = gateways.filter(g => this.getState(userId, g) === 'OPEN');
+    return [...gateways.filter(g => this.getState(userId, g) !== 'OPEN'), ...open];
+  }
+
+  private key(userId: string, gateway: string): string {
+    return `${userId}:${gateway}`;
+  }
+
+  private state(key: string): GatewayBreakerState {
+    const until = this.openUntil.get(key);
+    if (until === undefined) return 'CLOSED';
+    return Date.now() < until ? 'OPEN' : 'HALF_OPEN';
+  }
+
+  private open(key: string): void {
+    this.openUntil.set(key, Date.now() + env.GATEWAY_BREAKER.COOLDOWN_SEC * 1000);
+    console.warn(`[CircuitBreaker] ${key} failing, circuit open for ${env.GATEWAY_BREAKER.COOLDOWN_SEC}s`);
+  }
+
+  private record(key: string, ok: boolean): void {
+    const list = this.prune(key);
+    list.push({ at: Date.now(), ok });
+    this.outcomes.set(key, list);
+  }
+
+  private stats(keys: string[]): { requests: number; failures: number } {
+    const list = keys.flatMap(key => this.prune(key));
+    return { requests: list.length, failures: list.filter(o => !o.ok).length };
+  }
+
+  private prune(key: string): Outcome[] {
+    const since = Date.now() - env.GATEWAY_BREAKER.WINDOW_SEC * 1000;
+    const list = (this.outcomes.get(key) || []).filter(o => o.at >= since);
+    if (list.length > 0) this.outcomes.set(key, list);
+    else this.outcomes.delete(key);
+    return list;
+  }
+}
+
+// Shared by every PaymentService in the process
+export const gatewayCircuitBreaker = new GatewayCircuitBreaker();
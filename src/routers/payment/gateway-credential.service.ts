@@ -1,35 +1,79 @@
-import { PrismaClient, GatewayCredential } from '@prisma/client';
-import { PaymentGatewayConfig } from '../../types/payment.types';
-import { NotFoundError, ValidationError } from '../../utils/errors';
+import { PrismaClient, GatewayCredential, Prisma } from '@prisma/client';
+import { GatewayConnectionTest, MaskedGatewayCredential, PaymentGatewayConfig } from '../../types/payment.types';
+import { PaymentStatus } from '../../types/enums';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/errors';
+import { getPaymentGateway } from './gateways';
+import {
+  activeKeyId,
+  createEnvelope,
+  decryptValue,
+  encryptValue,
+  isEncrypted,
+  maskSecret,
+  openEnvelope,
+  rewrapEnvelope,
+} from '../../utils/crypto';
 
+type SecretFields = Pick<GatewayCredential, 'merchantId' | 'encryptedConfig' | 'dataKey' | 'keyId'> & {
+  config: Prisma.InputJsonValue | typeof Prisma.DbNull;
+};
+
+export interface ReencryptionReport {
+  total: number;
+  encrypted: number; // Plaintext rows that were encrypted
+  rewrapped: number; // Rows whose data key moved to the active master key
+  unchanged: number;
+}
+
+/**
+ * Gateway Credential Service
+ *
+ * Stores each user's gateway credentials with envelope encryption: merchantId
+ * and config are encrypted with a per-credential data key, and the data key is
+ * wrapped with the master key from CREDENTIAL_MASTER_KEYS. Ciphertexts are
+ * bound to the user and gateway, so a row copied to another owner won't decrypt.
+ *
+ * Without a master key credentials are stored in plaintext, as before.
+ */
 export class GatewayCredentialService {
   private prisma: PrismaClient;
+  private static warnedPlaintext = false;
 
   constructor(prisma: PrismaClient) {
     this.prisma = prisma;
   }
 
-  async upsert(userId: string, gateway: string, merchantId: string, sandbox?: boolean, config?: Record<string, any>): Promise<GatewayCredential> {
+  async upsert(userId: string, gateway: string, merchantId: string, sandbox?: boolean, config?: Record<string, any>, priority?: number | null): Promise<MaskedGatewayCredential> {
     if (!merchantId || !merchantId.trim()) {
       throw new ValidationError('merchantId is required');
     }
+    gateway = gateway.toLowerCase();
+    const existing = await this.get(userId, gateway);
+
+    // Omitting config keeps the stored one; it is sealed again with the new data key
+    const plainConfig = config
+      ? JSON.parse(JSON.stringify(config))
+      : existing ? this.decrypt(existing).options : undefined;
+
     const data = {
       userId,
-      gateway: gateway.toLowerCase(),
-      merchantId: merchantId.trim(),
+      gateway,
       sandbox: sandbox ?? true,
-      config: config ? JSON.parse(JSON.stringify(config)) : undefined,
+      priority,
+      // New credentials haven't been tested yet
+      lastVerifiedAt: null,
+      lastVerificationOk: null,
+      lastVerificationError: null,
+      ...this.seal(userId, gateway, merchantId.trim(), plainConfig),
     };
-    const existing = await this.prisma.gatewayCredential.findUnique({
-      where: { userId_gateway: { userId, gateway: data.gateway } },
-    });
-    if (existing) {
-      return this.prisma.gatewayCredential.update({
-        where: { userId_gateway: { userId, gateway: data.gateway } },
+
+    const saved = existing
+      ? await this.prisma.gatewayCredential.update({
+        where: { userId_gateway: { userId, gateway } },
         data,
-      });
-    }
-    return this.prisma.gatewayCredential.create({ data });
+      })
+      : await this.prisma.gatewayCredential.create({ data });
+    return this.mask(saved);
   }
 
   async get(userId: string, gateway: string): Promise<GatewayCredential | null> {
@@ -38,9 +82,22 @@ export class GatewayCredentialService {
     });
   }
 
-  async list(userId: string): Promise<GatewayCredential[]> {
+  async list(userId: string): Promise<MaskedGatewayCredential[]> {
+    const credentials = await this.prisma.gatewayCredential.findMany({
+      where: { userId },
+      orderBy: { updatedAt: 'desc' },
+    });
+    return credentials.map(cred => this.mask(cred));
+  }
+
+  /**
+   * Lists which gateways the user has credentials for and their failover
+   * priority, without decrypting anything
+   */
+  async listGateways(userId: string): Promise<Array<Pick<GatewayCredential, 'gateway' | 'priority'>>> {
     return this.prisma.gatewayCredential.findMany({
       where: { userId },
+      select: { gateway: true, priority: true },
       orderBy: { updatedAt: 'desc' },
     });
   }
@@ -50,6 +107,181 @@ export class GatewayCredentialService {
     if (!cred) {
       throw new ValidationError(`No credentials found for gateway '${gateway}'. Set credentials in your account.`);
     }
-    return { merchantId: cred.merchantId, sandbox: cred.sandbox };
+    return this.decrypt(cred);
+  }
+
+  /**
+   * Checks a credential against its gateway with a request the user never
+   * pays, and records the outcome on the credential
+   */
+  async testConnection(userId: string, gateway: string): Promise<GatewayConnectionTest & { credential: MaskedGatewayCredential }> {
+    const config = await this.requireConfig(userId, gateway);
+    const result = await getPaymentGateway(gateway, config).testConnection();
+
+    const updated = await this.prisma.gatewayCredential.update({
+      where: { userId_gateway: { userId, gateway: gateway.toLowerCase() } },
+      data: {
+        lastVerifiedAt: new Date(),
+        lastVerificationOk: result.ok,
+        lastVerificationError: result.ok ? null : result.message,
+      },
+    });
+    return { ...result, credential: this.mask(updated) };
+  }
+
+  /**
+   * Switches a credential between the gateway's sandbox and production.
+   * The last test was against the other environment, so it is cleared.
+   */
+  async setSandbox(userId: string, gateway: string, sandbox: boolean): Promise<MaskedGatewayCredential> {
+    const cred = await this.get(userId, gateway);
+    if (!cred) {
+      throw new NotFoundError('Gateway credential');
+    }
+    if (cred.sandbox === sandbox) {
+      return this.mask(cred);
+    }
+    const updated = await this.prisma.gatewayCredential.update({
+      where: { id: cred.id },
+      data: {
+        sandbox,
+        lastVerifiedAt: null,
+        lastVerificationOk: null,
+        lastVerificationError: null,
+      },
+    });
+    return this.mask(updated);
+  }
+
+  /**
+   * Deletes a credential. Refused while the user has payments on the gateway
+   * that still need it: pending or verifying ones to verify them, and paid
+   * ones that can still be refunded. Replace the credential instead.
+   */
+  async remove(userId: string, gateway: string): Promise<MaskedGatewayCredential> {
+    const cred = await this.get(userId, gateway);
+    if (!cred) {
+      throw new NotFoundError('Gateway credential');
+    }
+    const pending = await this.prisma.payment.count({
+      where: {
+        gateway: cred.gateway,
+        status: { in: [PaymentStatus.PENDING, PaymentStatus.VERIFYING] },
+        subscription: { userId },
+      },
+    });
+    if (pending > 0) {
+      throw new ConflictError(`${pending} pending payment(s) on '${cred.gateway}' still need this credential`);
+    }
+    const refundable = await this.prisma.payment.count({
+      where: {
+        gateway: cred.gateway,
+        status: { in: [PaymentStatus.COMPLETED, PaymentStatus.PARTIALLY_REFUNDED] },
+        subscription: { userId },
+      },
+    });
+    if (refundable > 0) {
+      throw new ConflictError(`${refundable} refundable payment(s) on '${cred.gateway}' still need this credential`);
+    }
+    await this.prisma.gatewayCredential.delete({ where: { id: cred.id } });
+    return this.mask(cred);
+  }
+
+  /**
+   * Brings every credential up to the active master key: plaintext rows are
+   * encrypted and data keys wrapped with an older master key are re-wrapped.
+   * Run after adding or rotating a key (`npm run credentials:reencrypt`).
+   */
+  async reencryptAll(): Promise<ReencryptionReport> {
+    const keyId = activeKeyId();
+    if (!keyId) {
+      throw new Error('CREDENTIAL_MASTER_KEYS is not set');
+    }
+
+    const report: ReencryptionReport = { total: 0, encrypted: 0, rewrapped: 0, unchanged: 0 };
+    const credentials = await this.prisma.gatewayCredential.findMany({ orderBy: { createdAt: 'asc' } });
+
+    for (const cred of credentials) {
+      report.total++;
+      if (!cred.dataKey || !cred.keyId) {
+        const { merchantId, options } = this.decrypt(cred);
+        await this.prisma.gatewayCredential.update({
+          where: { id: cred.id },
+          data: this.seal(cred.userId, cred.gateway, merchantId, options),
+        });
+        report.encrypted++;
+      } else if (cred.keyId !== keyId) {
+        const envelope = rewrapEnvelope({ keyId: cred.keyId, dataKey: cred.dataKey });
+        await this.prisma.gatewayCredential.update({
+          where: { id: cred.id },
+          data: envelope,
+        });
+        report.rewrapped++;
+      } else {
+        report.unchanged++;
+      }
+    }
+
+    return report;
+  }
+
+  private seal(userId: string, gateway: string, merchantId: string, config?: Record<string, any>): SecretFields {
+    if (!activeKeyId()) {
+      if (!GatewayCredentialService.warnedPlaintext) {
+        GatewayCredentialService.warnedPlaintext = true;
+        console.warn('[GatewayCredential] CREDENTIAL_MASTER_KEYS is not set; storing credentials unencrypted');
+      }
+      return { merchantId, config: config ?? Prisma.DbNull, encryptedConfig: null, dataKey: null, keyId: null };
+    }
+
+    const { key, envelope } = createEnvelope();
+    const context = `${userId}:${gateway}`;
+    return {
+      merchantId: encryptValue(key, merchantId, context),
+      config: Prisma.DbNull,
+      encryptedConfig: config ? encryptValue(key, JSON.stringify(config), context) : null,
+      ...envelope,
+    };
+  }
+
+  private decrypt(cred: GatewayCredential): PaymentGatewayConfig {
+    if (!cred.dataKey || !cred.keyId) {
+      const options = cred.config && typeof cred.config === 'object' && !Array.isArray(cred.config)
+        ? (cred.config as Record<string, any>)
+        : undefined;
+      return { merchantId: cred.merchantId, sandbox: cred.sandbox, options };
+    }
+
+    const key = openEnvelope({ keyId: cred.keyId, dataKey: cred.dataKey });
+    const context = `${cred.userId}:${cred.gateway}`;
+    return {
+      merchantId: isEncrypted(cred.merchantId) ? decryptValue(key, cred.merchantId, context) : cred.merchantId,
+      sandbox: cred.sandbox,
+      options: cred.encryptedConfig ? JSON.parse(decryptValue(key, cred.encryptedConfig, context)) : undefined,
+    };
+  }
+
+  private mask(cred: GatewayCredential): MaskedGatewayCredential {
+    const { merchantId, options } = this.decrypt(cred);
+    return {
+      id: cred.id,
+      userId: cred.userId,
+      gateway: cred.gateway,
+      merchantId: maskSecret(merchantId),
+      sandbox: cred.sandbox,
+      config: options
+        ? Object.fromEntries(Object.entries(options).map(([name, value]) => [
+          name,
+          maskSecret(typeof value === 'string' ? value : JSON.stringify(value)),
+        ]))
+        : null,
+      priority: cred.priority,
+      lastVerifiedAt: cred.lastVerifiedAt,
+      lastVerificationOk: cred.lastVerificationOk,
+      lastVerificationError: cred.lastVerificationError,
+      encrypted: Boolean(cred.dataKey),
+      createdAt: cred.createdAt,
+      updatedAt: cred.updatedAt,
+    };
   }
 }
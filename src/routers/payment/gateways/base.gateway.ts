@@ -4,8 +4,21 @@ import {
   CreatePaymentResponse,
   VerifyPaymentRequest,
   VerifyPaymentResponse,
+  InquirePaymentRequest,
+  InquirePaymentResponse,
+  RefundPaymentRequest,
+  RefundPaymentResponse,
   PaymentGatewayConfig,
+  GatewayConnectionTest,
 } from '../../../types/payment.types';
+import { CurrencyCode } from '../../../types/currency.types';
+import { PaymentGatewayError } from '../../../utils/errors';
+import { isTransportFailure } from '../circuit-breaker';
+import { CURRENCIES, convertAmount } from '../../../utils/currency';
+import { env } from '../../../config/env';
+
+// Small enough to be harmless, above every gateway's minimum (Rials)
+const TEST_AMOUNT = 10000;
 
 /**
  * Abstract base class for payment gateways
@@ -24,6 +37,9 @@ export abstract class BasePaymentGateway implements IPaymentGateway {
   // Configuration specific to each gateway
   protected config: PaymentGatewayConfig;
 
+  // Units the gateway's API accepts amounts in; the first is its default
+  protected currencies: CurrencyCode[] = ['IRR'];
+
   constructor(config: PaymentGatewayConfig) {
     this.config = config;
   }
@@ -51,15 +67,104 @@ export abstract class BasePaymentGateway implements IPaymentGateway {
   ): Promise<VerifyPaymentResponse>;
 
   /**
-   * Formats amount to the smallest currency unit
-   * For IRR (Iranian Rial), this is already in the smallest unit
-   * For currencies like USD, you'd multiply by 100 to convert to cents
+   * Asks the gateway for the current state of a transaction
+   * This method must be implemented by each specific gateway
+   * 
+   * Used by the reconciler for payments whose callback never arrived.
+   * 
+   * @param request - Authority and amount of the payment
+   * @returns The gateway's view of the transaction
+   */
+  abstract inquirePayment(
+    request: InquirePaymentRequest
+  ): Promise<InquirePaymentResponse>;
+
+  /**
+   * Refunds all or part of a verified payment
+   * This method must be implemented by each specific gateway
+   * 
+   * @param request - Authority, gateway reference and amount to refund
+   * @returns The gateway's reference for the refund
+   */
+  abstract refundPayment(
+    request: RefundPaymentRequest
+  ): Promise<RefundPaymentResponse>;
+
+  /**
+   * Checks the credentials by opening a payment request the user never pays
+   * (nothing is charged; the gateway lets it expire)
+   * 
+   * Gateways with a cheaper way to check credentials can override this.
+   * 
+   * @returns Whether the gateway accepted the credentials
+   */
+  async testConnection(): Promise<GatewayConnectionTest> {
+    const started = Date.now();
+    try {
+      await this.createPayment({
+        amount: TEST_AMOUNT,
+        currency: 'IRR',
+        description: 'Connection test',
+        callbackUrl: `${env.API_BASE_URL}/api/payment/callback`,
+        orderId: `${Date.now()}`,
+      });
+      return { ok: true, message: 'Gateway accepted the credentials', latencyMs: Date.now() - started };
+    } catch (error: any) {
+      return {
+        ok: false,
+        message: error?.message || 'Connection test failed',
+        code: error instanceof PaymentGatewayError ? error.code : undefined,
+        latencyMs: Date.now() - started,
+      };
+    }
+  }
+
+  /**
+   * Whether payments in a currency can be sent to this gateway: either the
+   * gateway accepts it, or every amount converts exactly into a unit it accepts
+   * (Toman always converts to Rials; Rials don't always convert to Toman)
+   * 
+   * @param currency - Currency of the plan or payment
+   */
+  supportsCurrency(currency: CurrencyCode): boolean {
+    return this.currencies.some(unit => CURRENCIES[currency].rials % CURRENCIES[unit].rials === 0);
+  }
+
+  /**
+   * The unit amounts in `currency` are sent to the gateway in
+   * 
+   * @param currency - Currency of the payment
+   * @returns The currency itself when the gateway accepts it, else the gateway's default unit
+   */
+  protected gatewayCurrency(currency: CurrencyCode = 'IRR'): CurrencyCode {
+    return this.currencies.includes(currency) ? currency : this.currencies[0];
+  }
+
+  /**
+   * Converts an amount to the unit the gateway expects
+   * For example a 50,000 IRT plan is sent to a Rial-only gateway as 500,000
+   * 
+   * @param amount - Amount in the payment's currency
+   * @param currency - Currency of the payment (default IRR)
+   * @returns Amount in the gateway's unit
+   */
+  protected formatAmount(amount: number, currency: CurrencyCode = 'IRR'): number {
+    return convertAmount(amount, currency, this.gatewayCurrency(currency));
+  }
+
+  /**
+   * Turns an error caught around a gateway call into a PaymentGatewayError,
+   * telling transport failures (no response, timeout, 5xx) apart from the
+   * gateway's own rejections
    * 
-   * @param amount - Amount in the main currency unit
-   * @returns Amount in the smallest currency unit
+   * @param error - What was caught
+   * @param message - Message to use (usually the gateway's explanation)
+   * @param code - The gateway's error code from the response body, if any
    */
-  protected formatAmount(amount: number): number {
-    return amount;
+  protected wrapError(error: any, message: string, code?: number | string): PaymentGatewayError {
+    if (error instanceof PaymentGatewayError) return error;
+    const numeric = code === undefined || code === null || code === '' ? undefined : Number(code);
+    return new PaymentGatewayError(message, Number.isNaN(numeric) ? undefined : numeric, isTransportFailure(error));
   }
 
   /**
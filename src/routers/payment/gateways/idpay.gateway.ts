@@ -0,0 +1,213 @@
+import axios from 'axios';
+import { BasePaymentGateway } from './base.gateway';
+import {
+  CreatePaymentRequest,
+  CreatePaymentResponse,
+  VerifyPaymentRequest,
+  VerifyPaymentResponse,
+  InquirePaymentRequest,
+  InquirePaymentResponse,
+  RefundPaymentRequest,
+  RefundPaymentResponse,
+  PaymentGatewayConfig,
+} from '../../../types/payment.types';
+import { PaymentGatewayError } from '../../../utils/errors';
+import { env } from '../../../config/env';
+
+export class IdpayGateway extends BasePaymentGateway {
+  name = 'idpay';
+
+  private requestUrl: string;
+  private verifyUrl: string;
+  private inquiryUrl: string;
+
+  constructor(config?: PaymentGatewayConfig) {
+    const effectiveConfig: PaymentGatewayConfig = config || {
+      merchantId: '',
+      sandbox: env.IDPAY.SANDBOX,
+    };
+    super(effectiveConfig);
+    this.requestUrl = env.IDPAY.REQUEST_URL;
+    this.verifyUrl = env.IDPAY.VERIFY_URL;
+    this.inquiryUrl = env.IDPAY.INQUIRY_URL;
+  }
+
+  async createPayment(request: CreatePaymentRequest): Promise<CreatePaymentResponse> {
+    try {
+      this.log('Creating payment', {
+        amount: request.amount,
+        description: request.description,
+      });
+
+      if (!request.orderId) {
+        throw new PaymentGatewayError('IDPay requires an order ID');
+      }
+
+      const body = {
+        order_id: request.orderId,
+        amount: this.formatAmount(request.amount, request.currency),
+        phone: request.mobile,
+        mail: request.email,
+        desc: request.description,
+        callback: request.callbackUrl,
+      };
+
+      const response = await axios.post(this.requestUrl, body, {
+        headers: this.headers(),
+      });
+
+      const data = response.data;
+
+      if (!data || !data.id || !data.link) {
+        throw new PaymentGatewayError(
+          data?.error_message || 'Failed to create payment',
+          data?.error_code
+        );
+      }
+
+      const authority = String(data.id);
+      const paymentUrl = String(data.link);
+
+      this.log('Payment created successfully', {
+        authority,
+        paymentUrl,
+      });
+
+      return {
+        authority,
+        paymentUrl,
+        gatewayTxId: authority,
+      };
+    } catch (error: any) {
+      this.log('Payment creation failed', { error: error.message });
+      if (error instanceof PaymentGatewayError) {
+        throw error;
+      }
+      throw this.wrapError(
+        error,
+        error.response?.data?.error_message || error.message || 'Payment creation failed',
+        error.response?.data?.error_code
+      );
+    }
+  }
+
+  async verifyPayment(request: VerifyPaymentRequest): Promise<VerifyPaymentResponse> {
+    try {
+      this.log('Verifying payment', {
+        authority: request.authority,
+        amount: request.amount,
+      });
+
+      const body = {
+        id: request.authority,
+        order_id: request.orderId,
+      };
+
+      const response = await axios.post(this.verifyUrl, body, {
+        headers: this.headers(),
+      });
+
+      const data = response.data;
+
+      // 100: verified now, 101: already verified (duplicate verification attempt)
+      const status = Number(data?.status);
+      if (!data || (status !== 100 && status !== 101)) {
+        throw new PaymentGatewayError(
+          data?.error_message || 'Payment verification failed',
+          data?.error_code ?? data?.status
+        );
+      }
+
+      this.log('Payment verified successfully', {
+        trackId: data.track_id,
+        cardNumber: data.payment?.card_no,
+      });
+
+      return {
+        refId: String(data.payment?.track_id || data.track_id || ''),
+        amount: data.amount === undefined ? undefined : Number(data.amount),
+        currency: 'IRR',
+        authority: data.id === undefined ? undefined : String(data.id),
+        cardPan: data.payment?.card_no,
+      };
+    } catch (error: any) {
+      this.log('Payment verification failed', { error: error.message });
+      if (error instanceof PaymentGatewayError) {
+        throw error;
+      }
+      throw this.wrapError(
+        error,
+        error.response?.data?.error_message || error.message || 'Payment verification failed',
+        error.response?.data?.error_code
+      );
+    }
+  }
+
+  async inquirePayment(request: InquirePaymentRequest): Promise<InquirePaymentResponse> {
+    try {
+      this.log('Inquiring payment', { authority: request.authority });
+
+      const body = {
+        id: request.authority,
+        order_id: request.orderId,
+      };
+
+      const response = await axios.post(this.inquiryUrl, body, {
+        headers: this.headers(),
+      });
+
+      const data = response.data;
+
+      if (!data || data.status === undefined) {
+        throw new PaymentGatewayError(
+          data?.error_message || 'Payment inquiry failed',
+          data?.error_code
+        );
+      }
+
+      // 1, 8: created or redirected to the bank; 10: paid, awaiting verification;
+      // 100, 101, 200: verified (200 once settled to the merchant);
+      // anything else: cancelled, failed or returned to the payer
+      const status = Number(data.status);
+      let state: InquirePaymentResponse['state'];
+      if (status === 1 || status === 8) {
+        state = 'PENDING';
+      } else if (status === 10) {
+        state = 'PAID';
+      } else if (status === 100 || status === 101 || status === 200) {
+        state = 'VERIFIED';
+      } else {
+        state = 'FAILED';
+      }
+
+      return {
+        state,
+        gatewayStatus: String(data.status),
+      };
+    } catch (error: any) {
+      this.log('Payment inquiry failed', { error: error.message });
+      if (error instanceof PaymentGatewayError) {
+        throw error;
+      }
+      throw this.wrapError(
+        error,
+        error.response?.data?.error_message || error.message || 'Payment inquiry failed',
+        error.response?.data?.error_code
+      );
+    }
+  }
+
+  async refundPayment(request: RefundPaymentRequest): Promise<RefundPaymentResponse> {
+    this.log('Refund not supported', { authority: request.authority });
+    throw new PaymentGatewayError('IDPay does not support refunds through the API; refund from the IDPay panel');
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+      'X-API-KEY': this.config.merchantId,
+      'X-SANDBOX': this.config.sandbox ? '1' : '0',
+    };
+  }
+}
@@ -1,7 +1,13 @@
-import { IPaymentGateway, PaymentGatewayConfig } from '../../../types/payment.types';
+import { IPaymentGateway, PaymentGatewayConfig, GatewayCallbackParams } from '../../../types/payment.types';
 import { ZarinpalGateway } from './zarinpal.gateway';
 import { MockGateway } from './mock.gateway';
 import { ZibalGateway } from './zibal.gateway';
+import { PayirGateway } from './payir.gateway';
+import { IdpayGateway } from './idpay.gateway';
+import { NextpayGateway } from './nextpay.gateway';
+import { SamanGateway } from './saman.gateway';
+import { MellatGateway } from './mellat.gateway';
+import { ParsianGateway } from './parsian.gateway';
 import { ValidationError } from '../../../utils/errors';
 
 /**
@@ -21,6 +27,12 @@ const gatewayRegistry: Record<string, (config?: PaymentGatewayConfig) => IPaymen
   zarinpal: (config?: PaymentGatewayConfig) => new ZarinpalGateway(config),
   mock: () => new MockGateway(),
   zibal: (config?: PaymentGatewayConfig) => new ZibalGateway(config),
+  payir: (config?: PaymentGatewayConfig) => new PayirGateway(config),
+  idpay: (config?: PaymentGatewayConfig) => new IdpayGateway(config),
+  nextpay: (config?: PaymentGatewayConfig) => new NextpayGateway(config),
+  saman: (config?: PaymentGatewayConfig) => new SamanGateway(config),
+  mellat: (config?: PaymentGatewayConfig) => new MellatGateway(config),
+  parsian: (config?: PaymentGatewayConfig) => new ParsianGateway(config),
 };
 
 /**
@@ -51,5 +63,70 @@ export function getSupportedGateways(): string[] {
   return Object.keys(gatewayRegistry);
 }
 
+/**
+ * Reads the authority and outcome from the parameters a gateway sends to
+ * our callback URL (query string or form body)
+ * 
+ * Each gateway names its parameters differently:
+ * - Zarinpal: Authority, Status (OK/NOK)
+ * - Zibal: trackId, success (1/0); `status` is a detail code
+ * - Mellat: RefId, ResCode (0 means paid), SaleOrderId, SaleReferenceId
+ * - Saman: Token, State (OK means paid), RefNum, ResNum
+ * - Parsian: Token, status (0 means paid), OrderId, RRN
+ * - Pay.ir: token, status (1/0)
+ * - IDPay: id, order_id, status (10 means paid, awaiting verification)
+ * - NextPay: trans_id, order_id; no outcome, verification decides
+ * 
+ * @param input - The callback's query or body parameters
+ * @returns The authority, OK/NOK (empty if the gateway does not say) and
+ *          all parameters as strings
+ */
+export function extractCallbackParams(input: Record<string, unknown>): GatewayCallbackParams {
+  const params: Record<string, string> = {};
+  for (const [key, raw] of Object.entries(input)) {
+    if (raw !== undefined && raw !== null && typeof raw !== 'object') {
+      params[key] = String(raw);
+    }
+  }
+  const value = (key: string) => params[key] || '';
+  const outcome = (ok: boolean) => (ok ? 'OK' : 'NOK');
+  const result = (authority: string, status: string) => ({ authority, status, params });
+
+  if (value('Authority')) {
+    return result(value('Authority'), value('Status'));
+  }
+  if (value('trackId')) {
+    return result(value('trackId'), value('success') ? outcome(value('success') === '1') : value('status'));
+  }
+  if (value('RefId')) {
+    return result(value('RefId'), value('ResCode') ? outcome(value('ResCode') === '0') : '');
+  }
+  if (value('Token') && value('State')) {
+    return result(value('Token'), outcome(value('State') === 'OK'));
+  }
+  if (value('Token')) {
+    return result(value('Token'), value('status') ? outcome(value('status') === '0') : '');
+  }
+  if (value('token')) {
+    return result(value('token'), value('status') ? outcome(value('status') === '1') : '');
+  }
+  if (value('id') && value('order_id')) {
+    return result(value('id'), value('status') ? outcome(value('status') === '10') : '');
+  }
+  if (value('trans_id')) {
+    return result(value('trans_id'), '');
+  }
+  return result('', '');
+}
+
 // Export individual gateways for direct use if needed
-export { ZarinpalGateway, ZibalGateway };
+export {
+  ZarinpalGateway,
+  ZibalGateway,
+  PayirGateway,
+  IdpayGateway,
+  NextpayGateway,
+  SamanGateway,
+  MellatGateway,
+  ParsianGateway,
+};
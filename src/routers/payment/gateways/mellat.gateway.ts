@@ -0,0 +1,251 @@
+import { BasePaymentGateway } from './base.gateway';
+import { callSoap, readSoapValue } from './soap';
+import {
+  CreatePaymentRequest,
+  CreatePaymentResponse,
+  VerifyPaymentRequest,
+  VerifyPaymentResponse,
+  InquirePaymentRequest,
+  InquirePaymentResponse,
+  RefundPaymentRequest,
+  RefundPaymentResponse,
+  PaymentGatewayConfig,
+} from '../../../types/payment.types';
+import { PaymentGatewayError } from '../../../utils/errors';
+import { env } from '../../../config/env';
+
+const NAMESPACE = 'http://interfaces.core.sw.bps.com/';
+
+// Behpardakht result codes
+const RES_OK = 0;
+const RES_ALREADY_VERIFIED = 43;
+const RES_ALREADY_SETTLED = 45;
+
+/**
+ * Behpardakht Mellat IPG
+ *
+ * A payment takes three calls: bpPayRequest returns a RefId that the browser
+ * posts to the payment page; after the callback, bpVerifyRequest confirms the
+ * transaction and bpSettleRequest asks the bank to move the money to us.
+ * A verified but unsettled transaction is returned to the payer by the bank,
+ * so settling is part of verification here. If settling fails the
+ * transaction is reversed and the payment fails.
+ *
+ * The credential's merchantId is the terminal ID; its config holds the
+ * `username` and `password` Behpardakht issued for the terminal.
+ */
+export class MellatGateway extends BasePaymentGateway {
+  name = 'mellat';
+
+  private serviceUrl: string;
+  private gatewayUrl: string;
+
+  constructor(config?: PaymentGatewayConfig) {
+    super(config || { merchantId: '', sandbox: false });
+    this.serviceUrl = env.MELLAT.SERVICE_URL;
+    this.gatewayUrl = env.MELLAT.GATEWAY_URL;
+  }
+
+  async createPayment(request: CreatePaymentRequest): Promise<CreatePaymentResponse> {
+    try {
+      this.log('Creating payment', {
+        amount: request.amount,
+        description: request.description,
+      });
+
+      if (!request.orderId || !/^\d+$/.test(request.orderId)) {
+        throw new PaymentGatewayError('Mellat requires a numeric order ID');
+      }
+
+      const { date, time } = this.localDateTime();
+      const result = await this.call('bpPayRequest', {
+        ...this.credentials(),
+        orderId: request.orderId,
+        amount: this.formatAmount(request.amount, request.currency),
+        localDate: date,
+        localTime: time,
+        additionalData: request.description,
+        callBackUrl: request.callbackUrl,
+        payerId: 0,
+        mobileNo: request.mobile,
+      });
+
+      // Success is "0,<RefId>"; anything else is an error code
+      const [resCode, refId] = result.split(',');
+      if (Number(resCode) !== RES_OK || !refId) {
+        throw new PaymentGatewayError('Failed to create payment', Number(resCode));
+      }
+
+      const authority = refId.trim();
+
+      this.log('Payment created successfully', { authority });
+
+      const fields: Record<string, string> = { RefId: authority };
+      if (request.mobile) {
+        fields.MobileNo = request.mobile;
+      }
+
+      return {
+        authority,
+        paymentUrl: this.gatewayUrl,
+        gatewayTxId: authority,
+        redirect: {
+          method: 'POST',
+          url: this.gatewayUrl,
+          fields,
+        },
+      };
+    } catch (error: any) {
+      this.log('Payment creation failed', { error: error.message });
+      if (error instanceof PaymentGatewayError) {
+        throw error;
+      }
+      throw this.wrapError(error, this.errorMessage(error, 'Payment creation failed'));
+    }
+  }
+
+  async verifyPayment(request: VerifyPaymentRequest): Promise<VerifyPaymentResponse> {
+    try {
+      this.log('Verifying payment', {
+        authority: request.authority,
+        amount: request.amount,
+      });
+
+      const params = request.params || {};
+      if (!params.SaleReferenceId) {
+        throw new PaymentGatewayError('Mellat verification needs the SaleReferenceId from the payment callback');
+      }
+      // The callback comes through the user's browser; make sure it is for this payment
+      if (params.SaleOrderId && request.orderId && params.SaleOrderId !== request.orderId) {
+        throw new PaymentGatewayError('Mellat callback belongs to a different order', -1);
+      }
+
+      const ids = {
+        ...this.credentials(),
+        orderId: request.orderId,
+        saleOrderId: params.SaleOrderId || request.orderId,
+        saleReferenceId: params.SaleReferenceId,
+      };
+
+      const verifyCode = Number(await this.call('bpVerifyRequest', ids));
+      if (verifyCode !== RES_OK && verifyCode !== RES_ALREADY_VERIFIED) {
+        throw new PaymentGatewayError('Payment verification failed', verifyCode);
+      }
+
+      const settleCode = Number(await this.call('bpSettleRequest', ids));
+      if (settleCode !== RES_OK && settleCode !== RES_ALREADY_SETTLED) {
+        // Give the money back rather than leave a verified, unsettled transaction
+        const reversalCode = Number(await this.call('bpReversalRequest', ids).catch(() => NaN));
+        this.log('Settlement failed, transaction reversed', { settleCode, reversalCode });
+        throw new PaymentGatewayError('Payment settlement failed', settleCode);
+      }
+
+      this.log('Payment verified successfully', {
+        refId: params.SaleReferenceId,
+        cardNumber: params.CardHolderPan,
+      });
+
+      // Behpardakht checks the amount against the order itself and does not return it
+      return {
+        refId: params.SaleReferenceId,
+        currency: 'IRR',
+        authority: params.RefId,
+        cardPan: params.CardHolderPan,
+        cardHash: params.CardHolderInfo,
+      };
+    } catch (error: any) {
+      this.log('Payment verification failed', { error: error.message });
+      if (error instanceof PaymentGatewayError) {
+        throw error;
+      }
+      throw this.wrapError(error, this.errorMessage(error, 'Payment verification failed'));
+    }
+  }
+
+  async inquirePayment(request: InquirePaymentRequest): Promise<InquirePaymentResponse> {
+    // Behpardakht identifies transactions by the SaleReferenceId it sends with
+    // the callback. Without a callback the user never finished paying.
+    this.log('Inquiring payment', { authority: request.authority });
+
+    const params = request.params || {};
+    if (params.ResCode && Number(params.ResCode) !== RES_OK) {
+      return { state: 'FAILED', gatewayStatus: params.ResCode };
+    }
+    if (!params.SaleReferenceId) {
+      return { state: 'PENDING', message: 'No callback received from Mellat yet' };
+    }
+
+    try {
+      const code = Number(await this.call('bpInquiryRequest', {
+        ...this.credentials(),
+        orderId: request.orderId,
+        saleOrderId: params.SaleOrderId || request.orderId,
+        saleReferenceId: params.SaleReferenceId,
+      }));
+
+      // 0: verified; 43 and other codes mean not verified yet or failed,
+      // which verification sorts out
+      return {
+        state: code === RES_OK ? 'VERIFIED' : 'UNKNOWN',
+        gatewayStatus: String(code),
+      };
+    } catch (error: any) {
+      this.log('Payment inquiry failed', { error: error.message });
+      throw this.wrapError(error, this.errorMessage(error, 'Payment inquiry failed'));
+    }
+  }
+
+  async refundPayment(request: RefundPaymentRequest): Promise<RefundPaymentResponse> {
+    // Verified payments are settled straight away, and Behpardakht only
+    // reverses unsettled transactions through this API
+    this.log('Refund not supported', { authority: request.authority });
+    throw new PaymentGatewayError('Mellat payments are settled on verification; refund from the Behpardakht panel');
+  }
+
+  private async call(operation: string, fields: Record<string, string | number | undefined>): Promise<string> {
+    const xml = await callSoap(this.serviceUrl, NAMESPACE, operation, fields);
+    const result = readSoapValue(xml, 'return');
+    if (result === undefined) {
+      throw new PaymentGatewayError(`Unexpected response from Mellat ${operation}`);
+    }
+    return result;
+  }
+
+  private credentials() {
+    const { username, password } = this.config.options || {};
+    if (!username || !password) {
+      throw new PaymentGatewayError('Mellat requires username and password in the gateway credential config');
+    }
+    return {
+      terminalId: this.config.merchantId,
+      userName: String(username),
+      userPassword: String(password),
+    };
+  }
+
+  // Behpardakht expects the merchant's local (Tehran) date and time
+  private localDateTime(): { date: string; time: string } {
+    const parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone: 'Asia/Tehran',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(new Date());
+    const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+    return {
+      date: `${part('year')}${part('month')}${part('day')}`,
+      time: `${part('hour')}${part('minute')}${part('second')}`,
+    };
+  }
+
+  private errorMessage(error: any, fallback: string): string {
+    const fault = typeof error.response?.data === 'string'
+      ? readSoapValue(error.response.data, 'faultstring')
+      : undefined;
+    return fault || error.message || fallback;
+  }
+}
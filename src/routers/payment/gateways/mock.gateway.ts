@@ -4,11 +4,18 @@ import {
   CreatePaymentResponse,
   VerifyPaymentRequest,
   VerifyPaymentResponse,
+  InquirePaymentRequest,
+  InquirePaymentResponse,
+  RefundPaymentRequest,
+  RefundPaymentResponse,
 } from '../../../types/payment.types';
+import { CurrencyCode } from '../../../types/currency.types';
 
 export class MockGateway extends BasePaymentGateway {
   name = 'mock';
 
+  protected currencies: CurrencyCode[] = ['IRR', 'IRT'];
+
   constructor() {
     super({ merchantId: 'mock', sandbox: true });
   }
@@ -28,10 +35,28 @@ export class MockGateway extends BasePaymentGateway {
     this.log('Mock verifyPayment', { request });
     return {
       refId: `REF-${Date.now()}`,
+      amount: request.amount,
+      authority: request.authority,
       cardPan: '1234-5678-****-****',
       cardHash: 'mock-hash',
       feeType: 'fixed',
       fee: 0,
     };
   }
+
+  async inquirePayment(request: InquirePaymentRequest): Promise<InquirePaymentResponse> {
+    this.log('Mock inquirePayment', { request });
+    return {
+      state: 'PAID',
+      gatewayStatus: 'PAID',
+    };
+  }
+
+  async refundPayment(request: RefundPaymentRequest): Promise<RefundPaymentResponse> {
+    this.log('Mock refundPayment', { request });
+    return {
+      refundId: `RFND-${Date.now()}`,
+      message: 'Mock refund completed',
+    };
+  }
 }
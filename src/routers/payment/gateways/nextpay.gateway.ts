@@ -0,0 +1,230 @@
+import axios from 'axios';
+import { BasePaymentGateway } from './base.gateway';
+import {
+  CreatePaymentRequest,
+  CreatePaymentResponse,
+  VerifyPaymentRequest,
+  VerifyPaymentResponse,
+  InquirePaymentRequest,
+  InquirePaymentResponse,
+  RefundPaymentRequest,
+  RefundPaymentResponse,
+  PaymentGatewayConfig,
+} from '../../../types/payment.types';
+import { CurrencyCode } from '../../../types/currency.types';
+import { PaymentGatewayError } from '../../../utils/errors';
+import { env } from '../../../config/env';
+
+// NextPay result codes
+const CODE_TOKEN_CREATED = -1;
+const CODE_VERIFIED = 0;
+const CODE_REFUNDED = -90;
+
+export class NextpayGateway extends BasePaymentGateway {
+  name = 'nextpay';
+
+  // NextPay takes a currency with each request
+  protected currencies: CurrencyCode[] = ['IRR', 'IRT'];
+
+  private requestUrl: string;
+  private verifyUrl: string;
+  private gatewayUrl: string;
+
+  constructor(config?: PaymentGatewayConfig) {
+    // NextPay has no sandbox; test with a test API key from the NextPay panel
+    const effectiveConfig: PaymentGatewayConfig = config || {
+      merchantId: '',
+      sandbox: false,
+    };
+    super(effectiveConfig);
+    this.requestUrl = env.NEXTPAY.REQUEST_URL;
+    this.verifyUrl = env.NEXTPAY.VERIFY_URL;
+    this.gatewayUrl = env.NEXTPAY.GATEWAY_URL;
+  }
+
+  async createPayment(request: CreatePaymentRequest): Promise<CreatePaymentResponse> {
+    try {
+      this.log('Creating payment', {
+        amount: request.amount,
+        description: request.description,
+      });
+
+      if (!request.orderId) {
+        throw new PaymentGatewayError('NextPay requires an order ID');
+      }
+
+      const body = {
+        api_key: this.config.merchantId,
+        amount: this.formatAmount(request.amount, request.currency),
+        order_id: request.orderId,
+        callback_uri: request.callbackUrl,
+        customer_phone: request.mobile,
+        payer_desc: request.description,
+        currency: this.gatewayCurrency(request.currency),
+      };
+
+      const response = await axios.post(this.requestUrl, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+        },
+      });
+
+      const data = response.data;
+
+      if (!data || Number(data.code) !== CODE_TOKEN_CREATED || !data.trans_id) {
+        throw new PaymentGatewayError(
+          data?.message || 'Failed to create payment',
+          data?.code
+        );
+      }
+
+      const authority = String(data.trans_id);
+      const paymentUrl = `${this.gatewayUrl}${authority}`;
+
+      this.log('Payment created successfully', {
+        authority,
+        paymentUrl,
+      });
+
+      return {
+        authority,
+        paymentUrl,
+        gatewayTxId: authority,
+      };
+    } catch (error: any) {
+      this.log('Payment creation failed', { error: error.message });
+      if (error instanceof PaymentGatewayError) {
+        throw error;
+      }
+      throw this.wrapError(
+        error,
+        error.response?.data?.message || error.message || 'Payment creation failed',
+        error.response?.data?.code
+      );
+    }
+  }
+
+  async verifyPayment(request: VerifyPaymentRequest): Promise<VerifyPaymentResponse> {
+    try {
+      this.log('Verifying payment', {
+        authority: request.authority,
+        amount: request.amount,
+      });
+
+      if (request.amount === undefined) {
+        throw new PaymentGatewayError('NextPay requires the amount to verify a payment');
+      }
+
+      const body = {
+        api_key: this.config.merchantId,
+        trans_id: request.authority,
+        amount: this.formatAmount(request.amount, request.currency),
+        currency: this.gatewayCurrency(request.currency),
+      };
+
+      const response = await axios.post(this.verifyUrl, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+        },
+      });
+
+      const data = response.data;
+
+      // NextPay answers code 0 for repeated verifications of a paid transaction too
+      if (!data || Number(data.code) !== CODE_VERIFIED) {
+        throw new PaymentGatewayError(
+          data?.message || 'Payment verification failed',
+          data?.code
+        );
+      }
+
+      this.log('Payment verified successfully', {
+        refId: data.Shaparak_Ref_Id,
+        cardNumber: data.card_holder,
+      });
+
+      return {
+        refId: String(data.Shaparak_Ref_Id || ''),
+        amount: data.amount === undefined ? undefined : Number(data.amount),
+        currency: this.gatewayCurrency(request.currency),
+        cardPan: data.card_holder,
+      };
+    } catch (error: any) {
+      this.log('Payment verification failed', { error: error.message });
+      if (error instanceof PaymentGatewayError) {
+        throw error;
+      }
+      throw this.wrapError(
+        error,
+        error.response?.data?.message || error.message || 'Payment verification failed',
+        error.response?.data?.code
+      );
+    }
+  }
+
+  async inquirePayment(request: InquirePaymentRequest): Promise<InquirePaymentResponse> {
+    // NextPay has no separate inquiry API; the reconciler falls back to
+    // verification, which captures a paid transaction and rejects an unpaid one
+    this.log('Inquiry not supported, deferring to verification', { authority: request.authority });
+    return {
+      state: 'UNKNOWN',
+      message: 'NextPay does not support payment inquiry',
+    };
+  }
+
+  async refundPayment(request: RefundPaymentRequest): Promise<RefundPaymentResponse> {
+    try {
+      this.log('Refunding payment', {
+        authority: request.authority,
+        amount: request.amount,
+      });
+
+      // Refunds go through the verify endpoint; NextPay only refunds the full
+      // amount and rejects a partial one
+      const body = {
+        api_key: this.config.merchantId,
+        trans_id: request.authority,
+        amount: this.formatAmount(request.amount, request.currency),
+        currency: this.gatewayCurrency(request.currency),
+        refund_request: 'yes_money_back',
+      };
+
+      const response = await axios.post(this.verifyUrl, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+        },
+      });
+
+      const data = response.data;
+
+      if (!data || Number(data.code) !== CODE_REFUNDED) {
+        throw new PaymentGatewayError(
+          data?.message || 'Refund failed',
+          data?.code
+        );
+      }
+
+      const refundId = String(data.trans_id || request.authority);
+
+      this.log('Payment refunded successfully', { refundId });
+
+      return {
+        refundId,
+        message: data.message,
+      };
+    } catch (error: any) {
+      this.log('Payment refund failed', { error: error.message });
+      if (error instanceof PaymentGatewayError) {
+        throw error;
+      }
+      throw this.wrapError(
+        error,
+        error.response?.data?.message || error.message || 'Refund failed',
+        error.response?.data?.code
+      );
+    }
+  }
+}
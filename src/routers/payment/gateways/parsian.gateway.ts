@@ -0,0 +1,208 @@
+import { BasePaymentGateway } from './base.gateway';
+import { callSoap, readSoapValue } from './soap';
+import {
+  CreatePaymentRequest,
+  CreatePaymentResponse,
+  VerifyPaymentRequest,
+  VerifyPaymentResponse,
+  InquirePaymentRequest,
+  InquirePaymentResponse,
+  RefundPaymentRequest,
+  RefundPaymentResponse,
+  PaymentGatewayConfig,
+} from '../../../types/payment.types';
+import { PaymentGatewayError } from '../../../utils/errors';
+import { env } from '../../../config/env';
+
+const SALE_NAMESPACE = 'https://pec.Shaparak.ir/NewIPGServices/Sale/SaleService';
+const CONFIRM_NAMESPACE = 'https://pec.Shaparak.ir/NewIPGServices/Confirm/ConfirmService';
+const REVERSE_NAMESPACE = 'https://pec.Shaparak.ir/NewIPGServices/Reversal/ReversalService';
+
+const STATUS_OK = 0;
+
+/**
+ * Parsian (PEC) IPG
+ *
+ * SalePaymentRequest returns a token, the user pays at NewIPG/?Token=...,
+ * and PEC posts the result back to our callback. ConfirmPayment verifies the
+ * transaction by its token alone, so verification also works for payments
+ * whose callback never arrived.
+ *
+ * The credential's merchantId is the LoginAccount (PIN) issued by Parsian.
+ */
+export class ParsianGateway extends BasePaymentGateway {
+  name = 'parsian';
+
+  private saleUrl: string;
+  private confirmUrl: string;
+  private reverseUrl: string;
+  private gatewayUrl: string;
+
+  constructor(config?: PaymentGatewayConfig) {
+    super(config || { merchantId: '', sandbox: false });
+    this.saleUrl = env.PARSIAN.SALE_URL;
+    this.confirmUrl = env.PARSIAN.CONFIRM_URL;
+    this.reverseUrl = env.PARSIAN.REVERSE_URL;
+    this.gatewayUrl = env.PARSIAN.GATEWAY_URL;
+  }
+
+  async createPayment(request: CreatePaymentRequest): Promise<CreatePaymentResponse> {
+    try {
+      this.log('Creating payment', {
+        amount: request.amount,
+        description: request.description,
+      });
+
+      if (!request.orderId || !/^\d+$/.test(request.orderId)) {
+        throw new PaymentGatewayError('Parsian requires a numeric order ID');
+      }
+
+      const xml = await callSoap(this.saleUrl, SALE_NAMESPACE, 'SalePaymentRequest', {
+        LoginAccount: this.config.merchantId,
+        Amount: this.formatAmount(request.amount, request.currency),
+        OrderId: request.orderId,
+        CallBackUrl: request.callbackUrl,
+        AdditionalData: request.description,
+        Originator: request.mobile,
+      }, 'requestData');
+
+      const status = Number(readSoapValue(xml, 'Status'));
+      const token = readSoapValue(xml, 'Token');
+
+      if (status !== STATUS_OK || !token || Number(token) <= 0) {
+        throw new PaymentGatewayError(
+          readSoapValue(xml, 'Message') || 'Failed to create payment',
+          Number.isNaN(status) ? undefined : status
+        );
+      }
+
+      const paymentUrl = `${this.gatewayUrl}?Token=${encodeURIComponent(token)}`;
+
+      this.log('Payment created successfully', {
+        authority: token,
+        paymentUrl,
+      });
+
+      return {
+        authority: token,
+        paymentUrl,
+        gatewayTxId: token,
+        message: readSoapValue(xml, 'Message'),
+      };
+    } catch (error: any) {
+      this.log('Payment creation failed', { error: error.message });
+      if (error instanceof PaymentGatewayError) {
+        throw error;
+      }
+      throw this.wrapError(error, this.errorMessage(error, 'Payment creation failed'));
+    }
+  }
+
+  async verifyPayment(request: VerifyPaymentRequest): Promise<VerifyPaymentResponse> {
+    try {
+      this.log('Verifying payment', {
+        authority: request.authority,
+        amount: request.amount,
+      });
+
+      const params = request.params || {};
+      // The callback comes through the user's browser; make sure it is for this payment
+      if (params.OrderId && request.orderId && params.OrderId !== request.orderId) {
+        throw new PaymentGatewayError('Parsian callback belongs to a different order', -1);
+      }
+
+      const xml = await callSoap(this.confirmUrl, CONFIRM_NAMESPACE, 'ConfirmPayment', {
+        LoginAccount: this.config.merchantId,
+        Token: request.authority,
+      }, 'requestData');
+
+      const status = Number(readSoapValue(xml, 'Status'));
+      if (status !== STATUS_OK) {
+        throw new PaymentGatewayError(
+          readSoapValue(xml, 'Message') || 'Payment verification failed',
+          Number.isNaN(status) ? undefined : status
+        );
+      }
+
+      const rrn = readSoapValue(xml, 'RRN');
+      const cardPan = readSoapValue(xml, 'CardNumberMasked');
+
+      this.log('Payment verified successfully', {
+        refId: rrn,
+        cardNumber: cardPan,
+      });
+
+      // PEC checks the amount against the sale itself and does not return it
+      return {
+        refId: rrn || '',
+        currency: 'IRR',
+        authority: readSoapValue(xml, 'Token'),
+        cardPan,
+      };
+    } catch (error: any) {
+      this.log('Payment verification failed', { error: error.message });
+      if (error instanceof PaymentGatewayError) {
+        throw error;
+      }
+      throw this.wrapError(error, this.errorMessage(error, 'Payment verification failed'));
+    }
+  }
+
+  async inquirePayment(request: InquirePaymentRequest): Promise<InquirePaymentResponse> {
+    // PEC has no inquiry service; confirming by token answers the question
+    this.log('Inquiring payment', { authority: request.authority });
+
+    const params = request.params || {};
+    if (params.status && Number(params.status) !== STATUS_OK) {
+      return { state: 'FAILED', gatewayStatus: params.status };
+    }
+    return { state: 'UNKNOWN', message: 'Parsian does not support payment inquiry' };
+  }
+
+  async refundPayment(request: RefundPaymentRequest): Promise<RefundPaymentResponse> {
+    // PEC can reverse a confirmed transaction in full, but not refund part of it
+    if (request.paymentAmount !== undefined && request.amount !== request.paymentAmount) {
+      throw new PaymentGatewayError('Parsian can only reverse the full amount of a payment');
+    }
+
+    try {
+      this.log('Refunding payment', {
+        authority: request.authority,
+        amount: request.amount,
+      });
+
+      const xml = await callSoap(this.reverseUrl, REVERSE_NAMESPACE, 'ReversalRequest', {
+        LoginAccount: this.config.merchantId,
+        Token: request.authority,
+      }, 'requestData');
+
+      const status = Number(readSoapValue(xml, 'Status'));
+      if (status !== STATUS_OK) {
+        throw new PaymentGatewayError(
+          readSoapValue(xml, 'Message') || 'Refund failed',
+          Number.isNaN(status) ? undefined : status
+        );
+      }
+
+      this.log('Payment refunded successfully', { refundId: request.authority });
+
+      return {
+        refundId: request.authority,
+        message: readSoapValue(xml, 'Message'),
+      };
+    } catch (error: any) {
+      this.log('Payment refund failed', { error: error.message });
+      if (error instanceof PaymentGatewayError) {
+        throw error;
+      }
+      throw this.wrapError(error, this.errorMessage(error, 'Refund failed'));
+    }
+  }
+
+  private errorMessage(error: any, fallback: string): string {
+    const fault = typeof error.response?.data === 'string'
+      ? readSoapValue(error.response.data, 'faultstring')
+      : undefined;
+    return fault || error.message || fallback;
+  }
+}
@@ -0,0 +1,168 @@
+import axios from 'axios';
+import { BasePaymentGateway } from './base.gateway';
+import {
+  CreatePaymentRequest,
+  CreatePaymentResponse,
+  VerifyPaymentRequest,
+  VerifyPaymentResponse,
+  InquirePaymentRequest,
+  InquirePaymentResponse,
+  RefundPaymentRequest,
+  RefundPaymentResponse,
+  PaymentGatewayConfig,
+} from '../../../types/payment.types';
+import { PaymentGatewayError } from '../../../utils/errors';
+import { env } from '../../../config/env';
+
+// Pay.ir's sandbox accepts this API key in place of a real one
+const SANDBOX_API_KEY = 'test';
+
+export class PayirGateway extends BasePaymentGateway {
+  name = 'payir';
+
+  private requestUrl: string;
+  private verifyUrl: string;
+  private gatewayUrl: string;
+
+  constructor(config?: PaymentGatewayConfig) {
+    const effectiveConfig: PaymentGatewayConfig = config || {
+      merchantId: '',
+      sandbox: env.PAYIR.SANDBOX,
+    };
+    super(effectiveConfig);
+    this.requestUrl = env.PAYIR.REQUEST_URL;
+    this.verifyUrl = env.PAYIR.VERIFY_URL;
+    this.gatewayUrl = env.PAYIR.GATEWAY_URL;
+  }
+
+  async createPayment(request: CreatePaymentRequest): Promise<CreatePaymentResponse> {
+    try {
+      this.log('Creating payment', {
+        amount: request.amount,
+        description: request.description,
+      });
+
+      const body = {
+        api: this.apiKey(),
+        amount: this.formatAmount(request.amount, request.currency),
+        redirect: request.callbackUrl,
+        mobile: request.mobile,
+        factorNumber: request.orderId,
+        description: request.description,
+      };
+
+      const response = await axios.post(this.requestUrl, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+        },
+      });
+
+      const data = response.data;
+
+      if (!data || Number(data.status) !== 1 || !data.token) {
+        throw new PaymentGatewayError(
+          data?.errorMessage || 'Failed to create payment',
+          data?.errorCode
+        );
+      }
+
+      const authority = String(data.token);
+      const paymentUrl = `${this.gatewayUrl}${authority}`;
+
+      this.log('Payment created successfully', {
+        authority,
+        paymentUrl,
+      });
+
+      return {
+        authority,
+        paymentUrl,
+        gatewayTxId: authority,
+      };
+    } catch (error: any) {
+      this.log('Payment creation failed', { error: error.message });
+      if (error instanceof PaymentGatewayError) {
+        throw error;
+      }
+      throw this.wrapError(
+        error,
+        error.response?.data?.errorMessage || error.message || 'Payment creation failed',
+        error.response?.data?.errorCode
+      );
+    }
+  }
+
+  async verifyPayment(request: VerifyPaymentRequest): Promise<VerifyPaymentResponse> {
+    try {
+      this.log('Verifying payment', {
+        authority: request.authority,
+        amount: request.amount,
+      });
+
+      const body = {
+        api: this.apiKey(),
+        token: request.authority,
+      };
+
+      const response = await axios.post(this.verifyUrl, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+        },
+      });
+
+      const data = response.data;
+
+      if (!data || Number(data.status) !== 1) {
+        throw new PaymentGatewayError(
+          data?.errorMessage || 'Payment verification failed',
+          data?.errorCode
+        );
+      }
+
+      this.log('Payment verified successfully', {
+        transId: data.transId,
+        cardNumber: data.cardNumber,
+      });
+
+      // Pay.ir reports the amount paid; PaymentService compares it with the stored payment
+      return {
+        refId: String(data.transId || ''),
+        amount: data.amount === undefined ? undefined : Number(data.amount),
+        currency: 'IRR',
+        cardPan: data.cardNumber,
+      };
+    } catch (error: any) {
+      this.log('Payment verification failed', { error: error.message });
+      if (error instanceof PaymentGatewayError) {
+        throw error;
+      }
+      // Pay.ir answers a rejected verification with an HTTP error carrying the error code
+      throw this.wrapError(
+        error,
+        error.response?.data?.errorMessage || error.message || 'Payment verification failed',
+        error.response?.data?.errorCode
+      );
+    }
+  }
+
+  async inquirePayment(request: InquirePaymentRequest): Promise<InquirePaymentResponse> {
+    // Pay.ir has no inquiry API; the reconciler falls back to verification,
+    // which captures a paid transaction and rejects an unpaid one
+    this.log('Inquiry not supported, deferring to verification', { authority: request.authority });
+    return {
+      state: 'UNKNOWN',
+      message: 'Pay.ir does not support payment inquiry',
+    };
+  }
+
+  async refundPayment(request: RefundPaymentRequest): Promise<RefundPaymentResponse> {
+    this.log('Refund not supported', { authority: request.authority });
+    throw new PaymentGatewayError('Pay.ir does not support refunds through the API; refund from the Pay.ir panel');
+  }
+
+  private apiKey(): string {
+    return this.config.sandbox ? SANDBOX_API_KEY : this.config.merchantId;
+  }
+}
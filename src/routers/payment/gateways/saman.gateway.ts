@@ -0,0 +1,254 @@
+import axios from 'axios';
+import { BasePaymentGateway } from './base.gateway';
+import {
+  CreatePaymentRequest,
+  CreatePaymentResponse,
+  VerifyPaymentRequest,
+  VerifyPaymentResponse,
+  InquirePaymentRequest,
+  InquirePaymentResponse,
+  RefundPaymentRequest,
+  RefundPaymentResponse,
+  PaymentGatewayConfig,
+} from '../../../types/payment.types';
+import { PaymentGatewayError } from '../../../utils/errors';
+import { env } from '../../../config/env';
+
+// SEP verify/reverse result codes: 0 done, 2 already done (duplicate request)
+const RESULT_OK = 0;
+const RESULT_DUPLICATE = 2;
+
+/**
+ * Saman Electronic Payment (SEP) IPG
+ *
+ * Token based: we ask SEP for a token, the browser posts it to the payment
+ * page, and SEP posts the result (RefNum, State) back to our callback.
+ * Verification needs that RefNum, so it only works once the callback arrived.
+ *
+ * The credential's merchantId is the terminal ID.
+ */
+export class SamanGateway extends BasePaymentGateway {
+  name = 'saman';
+
+  private tokenUrl: string;
+  private gatewayUrl: string;
+  private verifyUrl: string;
+  private reverseUrl: string;
+
+  constructor(config?: PaymentGatewayConfig) {
+    super(config || { merchantId: '', sandbox: false });
+    this.tokenUrl = env.SAMAN.TOKEN_URL;
+    this.gatewayUrl = env.SAMAN.GATEWAY_URL;
+    this.verifyUrl = env.SAMAN.VERIFY_URL;
+    this.reverseUrl = env.SAMAN.REVERSE_URL;
+  }
+
+  async createPayment(request: CreatePaymentRequest): Promise<CreatePaymentResponse> {
+    try {
+      this.log('Creating payment', {
+        amount: request.amount,
+        description: request.description,
+      });
+
+      if (!request.orderId) {
+        throw new PaymentGatewayError('Saman requires an order ID');
+      }
+
+      const body = {
+        action: 'token',
+        TerminalId: this.config.merchantId,
+        Amount: this.formatAmount(request.amount, request.currency),
+        ResNum: request.orderId,
+        RedirectUrl: request.callbackUrl,
+        CellNumber: request.mobile,
+      };
+
+      const response = await axios.post(this.tokenUrl, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+        },
+      });
+
+      const data = response.data;
+
+      if (!data || Number(data.status) !== 1 || !data.token) {
+        throw new PaymentGatewayError(
+          data?.errorDesc || 'Failed to create payment',
+          data?.errorCode === undefined ? undefined : Number(data.errorCode)
+        );
+      }
+
+      const authority = String(data.token);
+
+      this.log('Payment created successfully', { authority });
+
+      // The payment page only accepts the token as a form post
+      return {
+        authority,
+        paymentUrl: this.gatewayUrl,
+        gatewayTxId: authority,
+        redirect: {
+          method: 'POST',
+          url: this.gatewayUrl,
+          fields: { Token: authority },
+        },
+      };
+    } catch (error: any) {
+      this.log('Payment creation failed', { error: error.message });
+      if (error instanceof PaymentGatewayError) {
+        throw error;
+      }
+      throw this.wrapError(
+        error,
+        error.response?.data?.errorDesc || error.message || 'Payment creation failed',
+        error.response?.data?.errorCode
+      );
+    }
+  }
+
+  async verifyPayment(request: VerifyPaymentRequest): Promise<VerifyPaymentResponse> {
+    try {
+      this.log('Verifying payment', {
+        authority: request.authority,
+        amount: request.amount,
+      });
+
+      const refNum = request.params?.RefNum;
+      if (!refNum) {
+        throw new PaymentGatewayError('Saman verification needs the RefNum from the payment callback');
+      }
+      // The callback comes through the user's browser; make sure it is for this payment
+      if (request.orderId && request.params?.ResNum && request.params.ResNum !== request.orderId) {
+        throw new PaymentGatewayError('Saman callback belongs to a different order', -1);
+      }
+
+      const body = {
+        RefNum: refNum,
+        TerminalNumber: Number(this.config.merchantId),
+      };
+
+      const response = await axios.post(this.verifyUrl, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+        },
+      });
+
+      const data = response.data;
+      const resultCode = Number(data?.ResultCode);
+
+      if (!data || (resultCode !== RESULT_OK && resultCode !== RESULT_DUPLICATE)) {
+        throw new PaymentGatewayError(
+          data?.ResultDescription || 'Payment verification failed',
+          Number.isNaN(resultCode) ? undefined : resultCode
+        );
+      }
+
+      const detail = data.TransactionDetail || {};
+
+      this.log('Payment verified successfully', {
+        refNum: detail.RefNum,
+        cardNumber: detail.MaskedPan,
+      });
+
+      return {
+        refId: String(detail.RefNum || refNum),
+        amount: detail.OrginalAmount === undefined ? undefined : Number(detail.OrginalAmount),
+        currency: 'IRR',
+        // SEP reports the terminal as a number; keep our spelling when it matches
+        merchantId: detail.TerminalNumber === undefined
+          ? undefined
+          : Number(detail.TerminalNumber) === Number(this.config.merchantId)
+            ? this.config.merchantId
+            : String(detail.TerminalNumber),
+        cardPan: detail.MaskedPan,
+        cardHash: detail.HashedPan,
+      };
+    } catch (error: any) {
+      this.log('Payment verification failed', { error: error.message });
+      if (error instanceof PaymentGatewayError) {
+        throw error;
+      }
+      throw this.wrapError(
+        error,
+        error.response?.data?.ResultDescription || error.message || 'Payment verification failed',
+        error.response?.data?.ResultCode
+      );
+    }
+  }
+
+  async inquirePayment(request: InquirePaymentRequest): Promise<InquirePaymentResponse> {
+    // SEP can only be asked about a transaction by its RefNum, which arrives
+    // with the callback. Without it the user never came back from the bank;
+    // Shaparak reverses unverified transactions on its own.
+    this.log('Inquiring payment', { authority: request.authority });
+
+    const params = request.params || {};
+    if (params.State && params.State !== 'OK') {
+      return { state: 'FAILED', gatewayStatus: params.State };
+    }
+    if (!params.RefNum) {
+      return { state: 'PENDING', message: 'No callback received from Saman yet' };
+    }
+    return { state: 'UNKNOWN', gatewayStatus: params.State };
+  }
+
+  async refundPayment(request: RefundPaymentRequest): Promise<RefundPaymentResponse> {
+    // SEP can reverse a verified transaction (in full, shortly after payment)
+    // but has no partial refunds
+    if (request.paymentAmount !== undefined && request.amount !== request.paymentAmount) {
+      throw new PaymentGatewayError('Saman can only reverse the full amount of a payment');
+    }
+    const refNum = request.refId || request.params?.RefNum;
+    if (!refNum) {
+      throw new PaymentGatewayError('Saman reversal needs the RefNum of the payment');
+    }
+
+    try {
+      this.log('Refunding payment', {
+        authority: request.authority,
+        amount: request.amount,
+      });
+
+      const body = {
+        RefNum: refNum,
+        TerminalNumber: Number(this.config.merchantId),
+      };
+
+      const response = await axios.post(this.reverseUrl, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+        },
+      });
+
+      const data = response.data;
+      const resultCode = Number(data?.ResultCode);
+
+      if (!data || (resultCode !== RESULT_OK && resultCode !== RESULT_DUPLICATE)) {
+        throw new PaymentGatewayError(
+          data?.ResultDescription || 'Refund failed',
+          Number.isNaN(resultCode) ? undefined : resultCode
+        );
+      }
+
+      this.log('Payment refunded successfully', { refundId: refNum });
+
+      return {
+        refundId: refNum,
+        message: data.ResultDescription,
+      };
+    } catch (error: any) {
+      this.log('Payment refund failed', { error: error.message });
+      if (error instanceof PaymentGatewayError) {
+        throw error;
+      }
+      throw this.wrapError(
+        error,
+        error.response?.data?.ResultDescription || error.message || 'Refund failed',
+        error.response?.data?.ResultCode
+      );
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import axios from 'axios';
+
+/**
+ * Minimal SOAP 1.1 helpers for the bank IPGs (Mellat, Parsian)
+ *
+ * Their services take flat parameter lists and return flat values, so a
+ * hand-built envelope and a tag lookup on the response are all we need.
+ */
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function renderFields(fields: Record<string, string | number | undefined>): string {
+  return Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `<${key}>${escapeXml(String(value))}</${key}>`)
+    .join('');
+}
+
+/**
+ * Calls a SOAP operation and returns the raw response body
+ *
+ * @param url - Service endpoint
+ * @param namespace - Target namespace of the operation
+ * @param operation - Operation name, e.g. "bpPayRequest"
+ * @param fields - Operation parameters
+ * @param wrapper - Element the parameters are nested in (Parsian uses "requestData")
+ * @returns The response XML
+ */
+export async function callSoap(
+  url: string,
+  namespace: string,
+  operation: string,
+  fields: Record<string, string | number | undefined>,
+  wrapper?: string
+): Promise<string> {
+  const params = wrapper ? `<${wrapper}>${renderFields(fields)}</${wrapper}>` : renderFields(fields);
+  const envelope =
+    '<?xml version="1.0" encoding="utf-8"?>' +
+    '<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">' +
+    `<soap:Body><ns1:${operation} xmlns:ns1="${namespace}">${params}</ns1:${operation}></soap:Body>` +
+    '</soap:Envelope>';
+
+  const response = await axios.post(url, envelope, {
+    headers: {
+      'Content-Type': 'text/xml; charset=utf-8',
+      SOAPAction: `"${namespace.replace(/\/$/, '')}/${operation}"`,
+    },
+    responseType: 'text',
+  });
+  return String(response.data);
+}
+
+/**
+ * Reads the text of the first element with the given local name
+ *
+ * @param xml - SOAP response
+ * @param tag - Element name without a namespace prefix
+ * @returns The element's text, or undefined if it is missing
+ */
+export function readSoapValue(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`));
+  return match ? match[1].trim() : undefined;
+}
@@ -8,8 +8,16 @@ import {
   PaymentGatewayConfig,
   ZarinpalRequestResponse,
   ZarinpalVerifyResponse,
+  ZarinpalRefundResponse,
+  ZarinpalInquiryResponse,
+  InquirePaymentRequest,
+  InquirePaymentResponse,
+  RefundPaymentRequest,
+  RefundPaymentResponse,
 } from '../../../types/payment.types';
+import { CurrencyCode } from '../../../types/currency.types';
 import { PaymentGatewayError } from '../../../utils/errors';
+import { convertAmount } from '../../../utils/currency';
 import { env } from '../../../config/env';
 
 /**
@@ -24,11 +32,16 @@ import { env } from '../../../config/env';
  */
 export class ZarinpalGateway extends BasePaymentGateway {
   name = 'zarinpal';
+
+  // Zarinpal v4 takes a currency with each payment request
+  protected currencies: CurrencyCode[] = ['IRR', 'IRT'];
   
   // API endpoints for Zarinpal
   private requestUrl: string;
   private verifyUrl: string;
   private gatewayUrl: string;
+  private inquiryUrl: string;
+  private refundUrl: string;
 
   constructor(config?: PaymentGatewayConfig) {
     super(config || { merchantId: '', sandbox: env.ZARINPAL.SANDBOX });
@@ -37,6 +50,8 @@ export class ZarinpalGateway extends BasePaymentGateway {
     this.requestUrl = env.ZARINPAL.REQUEST_URL;
     this.verifyUrl = env.ZARINPAL.VERIFY_URL;
     this.gatewayUrl = env.ZARINPAL.GATEWAY_URL;
+    this.inquiryUrl = env.ZARINPAL.INQUIRY_URL;
+    this.refundUrl = env.ZARINPAL.REFUND_URL;
   }
 
   /**
@@ -59,7 +74,8 @@ export class ZarinpalGateway extends BasePaymentGateway {
       // Prepare the request body according to Zarinpal API v4
       const requestBody = {
         merchant_id: this.config.merchantId,
-        amount: request.amount, // Amount in Rials
+        amount: this.formatAmount(request.amount, request.currency),
+        currency: this.gatewayCurrency(request.currency), // Zarinpal takes Rials or Toman
         description: request.description,
         callback_url: request.callbackUrl,
         metadata: {
@@ -112,9 +128,12 @@ export class ZarinpalGateway extends BasePaymentGateway {
         throw error;
       }
 
-      // Otherwise, wrap it in a PaymentGatewayError
-      throw new PaymentGatewayError(
-        error.response?.data?.data?.message || error.message || 'Payment creation failed'
+      // Otherwise, wrap it in a PaymentGatewayError. Zarinpal rejects bad
+      // requests (invalid merchant, amount) with a 4xx and an error code
+      throw this.wrapError(
+        error,
+        error.response?.data?.errors?.message || error.response?.data?.data?.message || error.message || 'Payment creation failed',
+        error.response?.data?.errors?.code
       );
     }
   }
@@ -138,10 +157,10 @@ export class ZarinpalGateway extends BasePaymentGateway {
         amount: request.amount,
       });
 
-      // Prepare verification request body
+      // Prepare verification request body (same unit as the payment request)
       const requestBody = {
         merchant_id: this.config.merchantId,
-        amount: request.amount,
+        amount: request.amount === undefined ? undefined : this.formatAmount(request.amount, request.currency),
         authority: request.authority,
       };
 
@@ -173,6 +192,9 @@ export class ZarinpalGateway extends BasePaymentGateway {
         cardPan: data.card_pan,
       });
 
+      // The answer carries no amount, authority or merchant to compare. Zarinpal
+      // rejects (-50) a verification whose amount differs from the captured one
+      // and only verifies the merchant's own authorities, so success confirms them.
       return {
         refId: data.ref_id?.toString(),
         cardPan: data.card_pan,
@@ -187,8 +209,161 @@ export class ZarinpalGateway extends BasePaymentGateway {
         throw error;
       }
 
-      throw new PaymentGatewayError(
-        error.response?.data?.data?.message || error.message || 'Payment verification failed'
+      // Zarinpal answers rejected verifications with a 4xx and an error code
+      throw this.wrapError(
+        error,
+        error.response?.data?.errors?.message || error.response?.data?.data?.message || error.message || 'Payment verification failed',
+        error.response?.data?.errors?.code
+      );
+    }
+  }
+
+  /**
+   * Asks Zarinpal for the state of a transaction
+   * 
+   * Zarinpal reports IN_BANK while the user is still on the bank page, PAID
+   * once the money is captured (verification still required), VERIFIED after
+   * verification, and FAILED/REVERSED when the payment will not go through.
+   * 
+   * @param request - Authority of the payment
+   * @returns The mapped transaction state
+   */
+  async inquirePayment(request: InquirePaymentRequest): Promise<InquirePaymentResponse> {
+    try {
+      this.log('Inquiring payment', { authority: request.authority });
+
+      const requestBody = {
+        merchant_id: this.config.merchantId,
+        authority: request.authority,
+      };
+
+      const response = await axios.post<ZarinpalInquiryResponse>(
+        this.inquiryUrl,
+        requestBody,
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            'Accept': 'application/json',
+          },
+        }
+      );
+
+      const { data } = response.data;
+
+      if (data.code !== 100) {
+        throw new PaymentGatewayError(
+          data.message || 'Payment inquiry failed',
+          data.code
+        );
+      }
+
+      const states: Record<string, InquirePaymentResponse['state']> = {
+        IN_BANK: 'PENDING',
+        PAID: 'PAID',
+        VERIFIED: 'VERIFIED',
+        FAILED: 'FAILED',
+        REVERSED: 'FAILED',
+      };
+
+      return {
+        state: states[data.status] || 'PENDING',
+        gatewayStatus: data.status,
+        message: data.message,
+      };
+    } catch (error: any) {
+      this.log('Payment inquiry failed', { error: error.message });
+
+      if (error instanceof PaymentGatewayError) {
+        throw error;
+      }
+
+      throw this.wrapError(
+        error,
+        error.response?.data?.errors?.message || error.message || 'Payment inquiry failed',
+        error.response?.data?.errors?.code
+      );
+    }
+  }
+
+  /**
+   * Refunds a verified payment through Zarinpal
+   * 
+   * Refunds are not part of the payment gateway API; they go through Zarinpal's
+   * GraphQL API and need the merchant's access token, stored in the gateway
+   * credential config as `accessToken`. Zarinpal identifies the transaction by
+   * its session ID, which is the authority we received when creating it.
+   * 
+   * @param request - Authority and amount to refund
+   * @returns Zarinpal's refund ID
+   */
+  async refundPayment(request: RefundPaymentRequest): Promise<RefundPaymentResponse> {
+    const accessToken = this.config.options?.accessToken;
+    if (!accessToken) {
+      throw new PaymentGatewayError('Zarinpal refunds require an accessToken in the gateway credential config');
+    }
+
+    try {
+      this.log('Refunding payment', {
+        authority: request.authority,
+        amount: request.amount,
+      });
+
+      const requestBody = {
+        query: `mutation AddRefund($session_id: ID!, $amount: BigInteger!, $description: String, $method: InstantPayoutActionTypeEnum, $reason: RefundReasonEnum) {
+  resource: AddRefund(session_id: $session_id, amount: $amount, description: $description, method: $method, reason: $reason) {
+    terminal_id
+    id
+    amount
+    timeline { refund_amount refund_time refund_status }
+  }
+}`,
+        variables: {
+          session_id: request.authority,
+          // Refunds are always in Rials
+          amount: convertAmount(request.amount, request.currency || 'IRR', 'IRR'),
+          description: request.reason || 'Refund',
+          method: 'CARD',
+          reason: 'CUSTOMER_REQUEST',
+        },
+      };
+
+      const response = await axios.post<ZarinpalRefundResponse>(
+        this.refundUrl,
+        requestBody,
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            'Accept': 'application/json',
+            'Authorization': `Bearer ${accessToken}`,
+          },
+        }
+      );
+
+      const { data, errors } = response.data;
+
+      if (errors?.length || !data?.resource?.id) {
+        throw new PaymentGatewayError(errors?.[0]?.message || 'Refund failed');
+      }
+
+      this.log('Payment refunded successfully', {
+        refundId: data.resource.id,
+        status: data.resource.timeline?.refund_status,
+      });
+
+      return {
+        refundId: String(data.resource.id),
+        message: data.resource.timeline?.refund_status,
+      };
+    } catch (error: any) {
+      this.log('Payment refund failed', { error: error.message });
+
+      if (error instanceof PaymentGatewayError) {
+        throw error;
+      }
+
+      throw this.wrapError(
+        error,
+        error.response?.data?.errors?.[0]?.message || error.message || 'Refund failed'
       );
     }
   }
@@ -5,6 +5,10 @@ import {
   CreatePaymentResponse,
   VerifyPaymentRequest,
   VerifyPaymentResponse,
+  InquirePaymentRequest,
+  InquirePaymentResponse,
+  RefundPaymentRequest,
+  RefundPaymentResponse,
   PaymentGatewayConfig,
 } from '../../../types/payment.types';
 import { PaymentGatewayError } from '../../../utils/errors';
@@ -16,6 +20,8 @@ export class ZibalGateway extends BasePaymentGateway {
   private requestUrl: string;
   private verifyUrl: string;
   private gatewayUrl: string;
+  private inquiryUrl: string;
+  private refundUrl: string;
 
   constructor(config?: PaymentGatewayConfig) {
     const effectiveConfig: PaymentGatewayConfig = config || {
@@ -26,6 +32,8 @@ export class ZibalGateway extends BasePaymentGateway {
     this.requestUrl = env.ZIBAL.REQUEST_URL;
     this.verifyUrl = env.ZIBAL.VERIFY_URL;
     this.gatewayUrl = env.ZIBAL.GATEWAY_URL;
+    this.inquiryUrl = env.ZIBAL.INQUIRY_URL;
+    this.refundUrl = env.ZIBAL.REFUND_URL;
   }
 
   async createPayment(request: CreatePaymentRequest): Promise<CreatePaymentResponse> {
@@ -37,7 +45,7 @@ export class ZibalGateway extends BasePaymentGateway {
 
       const body = {
         merchant: this.config.merchantId,
-        amount: request.amount,
+        amount: this.formatAmount(request.amount, request.currency),
         callbackUrl: request.callbackUrl,
         description: request.description,
         mobile: request.mobile,
@@ -80,8 +88,10 @@ export class ZibalGateway extends BasePaymentGateway {
       if (error instanceof PaymentGatewayError) {
         throw error;
       }
-      throw new PaymentGatewayError(
-        error.response?.data?.message || error.message || 'Payment creation failed'
+      throw this.wrapError(
+        error,
+        error.response?.data?.message || error.message || 'Payment creation failed',
+        error.response?.data?.result
       );
     }
   }
@@ -107,7 +117,8 @@ export class ZibalGateway extends BasePaymentGateway {
 
       const data = response.data;
 
-      if (!data || data.result !== 100) {
+      // 201 means the payment was already verified (duplicate verification attempt)
+      if (!data || (data.result !== 100 && data.result !== 201)) {
         throw new PaymentGatewayError(
           data?.message || 'Payment verification failed',
           data?.result
@@ -119,8 +130,12 @@ export class ZibalGateway extends BasePaymentGateway {
         cardNumber: data.cardNumber,
       });
 
+      // Zibal does not check the amount on verify; it reports what was paid
+      // and PaymentService compares it with the stored payment
       return {
         refId: String(data.refNumber || ''),
+        amount: data.amount === undefined ? undefined : Number(data.amount),
+        currency: 'IRR',
         cardPan: data.cardNumber,
       };
     } catch (error: any) {
@@ -128,8 +143,116 @@ export class ZibalGateway extends BasePaymentGateway {
       if (error instanceof PaymentGatewayError) {
         throw error;
       }
-      throw new PaymentGatewayError(
-        error.response?.data?.message || error.message || 'Payment verification failed'
+      throw this.wrapError(
+        error,
+        error.response?.data?.message || error.message || 'Payment verification failed',
+        error.response?.data?.result
+      );
+    }
+  }
+
+  async inquirePayment(request: InquirePaymentRequest): Promise<InquirePaymentResponse> {
+    try {
+      this.log('Inquiring payment', { authority: request.authority });
+
+      const body = {
+        merchant: this.config.merchantId,
+        trackId: request.authority,
+      };
+
+      const response = await axios.post(this.inquiryUrl, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+        },
+      });
+
+      const data = response.data;
+
+      if (!data || data.result !== 100) {
+        throw new PaymentGatewayError(
+          data?.message || 'Payment inquiry failed',
+          data?.result
+        );
+      }
+
+      // 1: paid and verified, 2: paid not verified, -1: awaiting payment,
+      // anything else: cancelled, expired or failed at the bank
+      const status = Number(data.status);
+      const state: InquirePaymentResponse['state'] =
+        status === 1 ? 'VERIFIED' : status === 2 ? 'PAID' : status === -1 ? 'PENDING' : 'FAILED';
+
+      return {
+        state,
+        gatewayStatus: String(data.status),
+        message: data.message,
+      };
+    } catch (error: any) {
+      this.log('Payment inquiry failed', { error: error.message });
+      if (error instanceof PaymentGatewayError) {
+        throw error;
+      }
+      throw this.wrapError(
+        error,
+        error.response?.data?.message || error.message || 'Payment inquiry failed',
+        error.response?.data?.result
+      );
+    }
+  }
+
+  async refundPayment(request: RefundPaymentRequest): Promise<RefundPaymentResponse> {
+    // Refunds are an account API call authenticated with the merchant's access token
+    const accessToken = this.config.options?.accessToken;
+    if (!accessToken) {
+      throw new PaymentGatewayError('Zibal refunds require an accessToken in the gateway credential config');
+    }
+
+    try {
+      this.log('Refunding payment', {
+        authority: request.authority,
+        amount: request.amount,
+      });
+
+      const body = {
+        trackId: request.authority,
+        amount: this.formatAmount(request.amount, request.currency),
+        description: request.reason,
+      };
+
+      const response = await axios.post(this.refundUrl, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+      });
+
+      const data = response.data;
+
+      if (!data || (data.result !== 1 && data.result !== 100)) {
+        throw new PaymentGatewayError(
+          data?.message || 'Refund failed',
+          data?.result
+        );
+      }
+
+      const refundId = String(data.data?.refundId ?? data.data?.id ?? request.authority);
+
+      this.log('Payment refunded successfully', { refundId });
+
+      return {
+        refundId,
+        message: data.message,
+      };
+    } catch (error: any) {
+      this.log('Payment refund failed', { error: error.message });
+      if (error instanceof PaymentGatewayError) {
+        throw error;
+      }
+      throw this.wrapError(
+        error,
+        error.response?.data?.message || error.message || 'Refund failed',
+        error.response?.data?.result
       );
     }
   }
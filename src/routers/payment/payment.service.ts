@@ -1,19 +1,35 @@
-import { PrismaClient, Payment } from '@prisma/client';
-import { PaymentStatus } from '../../types/enums';
-import { getPaymentGateway } from './gateways';
+import { Prisma, PrismaClient, Payment, Refund, Plan } from '@prisma/client';
+import crypto from 'crypto';
+import { PaymentStatus, PaymentPurpose, RefundStatus } from '../../types/enums';
+import { getPaymentGateway, getSupportedGateways } from './gateways';
 import { GatewayCredentialService } from './gateway-credential.service';
+import { gatewayCircuitBreaker, isTransportError } from './circuit-breaker';
 import { NotificationService } from '../notification/notification.service';
 import { WebhookService } from '../webhook/webhook.service';
 import { AuditService } from '../audit/audit.service';
+import { CouponService } from '../coupon/coupon.service';
 import {
+  CreatePaymentOptions,
   CreatePaymentRequest,
   CreatePaymentResponse,
   VerifyPaymentRequest,
   VerifyPaymentResponse,
+  RefundOptions,
+  PaymentRedirect,
+  GatewayRouting,
 } from '../../types/payment.types';
-import { NotFoundError, PaymentGatewayError } from '../../utils/errors';
+import { PaymentEventData, PaymentFailureReason } from '../../types/webhook.types';
+import { NotFoundError, PaymentGatewayError, ValidationError } from '../../utils/errors';
+import { fingerprint } from '../../utils/crypto';
+import { CURRENCIES, isCurrencyCode, toCurrencyCode } from '../../utils/currency';
 import { env } from '../../config/env';
 
+// How long a verification claim is honoured before another caller may take over
+const VERIFY_CLAIM_TTL_MS = 2 * 60 * 1000;
+// How long a concurrent caller waits for the claim holder to finish
+const VERIFY_WAIT_MS = 10 * 1000;
+const VERIFY_POLL_MS = 250;
+
 /**
  * Payment Service
  * 
@@ -25,6 +41,7 @@ import { env } from '../../config/env';
  * - Creating payment requests and storing them in the database
  * - Sending payment links to users via notifications
  * - Verifying completed payments and updating records
+ * - Refunding verified payments through the gateway
  * - Managing the lifecycle of payment transactions
  */
 export class PaymentService {
@@ -33,6 +50,7 @@ export class PaymentService {
   private webhookService: WebhookService;
   private audit: AuditService;
   private gatewayCreds: GatewayCredentialService;
+  private couponService: CouponService;
 
   constructor(prisma: PrismaClient) {
     this.prisma = prisma;
@@ -40,6 +58,7 @@ export class PaymentService {
     this.webhookService = new WebhookService(prisma);
     this.audit = new AuditService(prisma);
     this.gatewayCreds = new GatewayCredentialService(prisma);
+    this.couponService = new CouponService(prisma);
   }
 
   /**
@@ -48,15 +67,18 @@ export class PaymentService {
    * This is where the payment journey begins. When a user wants to subscribe,
    * this method:
    * 1. Gets the right payment gateway (Zarinpal, Zibal, etc.)
-   * 2. Creates a payment request with the gateway
+   * 2. Creates a payment request with the gateway, falling back to the next
+   *    gateway in the failover order if it cannot be reached
    * 3. Stores the payment record in our database
    * 4. Sends the payment link to the user
    * 
    * @param subscriptionId - The subscription this payment is for
    * @param amount - Payment amount in smallest currency unit
-   * @param gateway - Which payment gateway to use (e.g., 'zarinpal')
+   * @param gateway - Preferred payment gateway (e.g., 'zarinpal'); the plan's
+   *                  fallbackGateways and the user's prioritised credentials follow
    * @param userEmail - User's email for notifications
    * @param userPhone - User's phone for notifications
+   * @param options - Why the payment is being opened (new subscription, renewal) and extra metadata
    * @returns Payment details including the URL where user can pay
    */
   async createPayment(
@@ -64,7 +86,8 @@ export class PaymentService {
     amount: number,
     gateway: string,
     userEmail?: string,
-    userPhone?: string
+    userPhone?: string,
+    options: CreatePaymentOptions = {}
   ): Promise<Payment> {
     // Get the subscription to include plan details in the payment description
     const subscription = await this.prisma.subscription.findUnique({
@@ -76,14 +99,17 @@ export class PaymentService {
       throw new NotFoundError('Subscription');
     }
 
-    const config = await this.gatewayCreds.requireConfig(subscription.userId, gateway);
-    const paymentGateway = getPaymentGateway(gateway, config);
+    const planName = options.planName || subscription.plan.name;
 
-    // Prepare the payment request for the gateway
+    // Prepare the payment request for the gateway. The order ID is numeric so it
+    // also fits the bank IPGs, which take it as a 64-bit integer.
+    const orderId = `${Date.now()}${crypto.randomInt(100000, 1000000)}`;
     const paymentRequest: CreatePaymentRequest = {
       amount,
-      description: `Subscription: ${subscription.plan.name}`,
-      callbackUrl: `${env.API_BASE_URL}/api/payment/verify`,
+      currency: toCurrencyCode(subscription.plan.currency),
+      description: `Subscription: ${planName}`,
+      callbackUrl: `${env.API_BASE_URL}/api/payment/callback`,
+      orderId,
       email: userEmail,
       mobile: userPhone,
       metadata: {
@@ -92,54 +118,126 @@ export class PaymentService {
       },
     };
 
-    // Create the payment with the gateway
-    const gatewayResponse: CreatePaymentResponse = await paymentGateway.createPayment(
-      paymentRequest
-    );
+    // Create the payment with the first gateway that answers. Only transport
+    // errors move on to the next gateway; a rejection (bad amount, bad
+    // merchant) would be rejected the same way by a retry.
+    const candidates = await this.resolveGatewayOrder(subscription.userId, gateway, subscription.plan);
+    if (candidates.length === 0) {
+      await this.gatewayCreds.requireConfig(subscription.userId, gateway);
+    }
 
-    // Store the payment record in our database
-    const payment = await this.prisma.payment.create({
-      data: {
-        subscriptionId,
-        amount,
-        currency: subscription.plan.currency,
-        gateway,
-        authority: gatewayResponse.authority,
-        paymentUrl: gatewayResponse.paymentUrl,
-        status: PaymentStatus.PENDING,
-        userEmail,
-        userPhone,
-        userId: subscription.userId,
-        metadata: JSON.stringify({
-          gatewayTxId: gatewayResponse.gatewayTxId,
-          message: gatewayResponse.message,
-        }),
-      },
-    });
+    let gatewayResponse: CreatePaymentResponse | undefined;
+    let usedGateway = gateway;
+    let merchantId = '';
+    const failedOver: string[] = [];
+    let lastError: unknown;
+
+    for (const candidate of gatewayCircuitBreaker.prioritize(subscription.userId, candidates)) {
+      const candidateConfig = await this.gatewayCreds.requireConfig(subscription.userId, candidate);
+      try {
+        gatewayResponse = await getPaymentGateway(candidate, candidateConfig).createPayment(paymentRequest);
+        gatewayCircuitBreaker.recordSuccess(subscription.userId, candidate);
+        usedGateway = candidate;
+        merchantId = candidateConfig.merchantId;
+        break;
+      } catch (error) {
+        if (!isTransportError(error)) {
+          throw error;
+        }
+        gatewayCircuitBreaker.recordFailure(subscription.userId, candidate);
+        failedOver.push(candidate);
+        lastError = error;
+        console.warn(`[Payment] ${candidate} unreachable, trying the next gateway:`, (error as Error).message);
+      }
+    }
+
+    if (!gatewayResponse) {
+      throw lastError;
+    }
 
-    // Send the payment link to the user via SMS/Email
-    await this.notificationService.sendPaymentLink(
+    // Gateways that need a form post get a link to our redirect page instead,
+    // so the payment link still works from an SMS or email
+    const paymentUrl = gatewayResponse.redirect?.method === 'POST'
+      ? `${env.API_BASE_URL}/api/payment/redirect?authority=${encodeURIComponent(gatewayResponse.authority)}`
+      : gatewayResponse.paymentUrl;
+
+    // Store the payment record in our database. A payment with a coupon is
+    // stored only if the coupon is still within its limits.
+    const data: Prisma.PaymentUncheckedCreateInput = {
+      subscriptionId,
+      amount,
+      currency: subscription.plan.currency,
+      gateway: usedGateway,
+      authority: gatewayResponse.authority,
+      paymentUrl,
+      status: PaymentStatus.PENDING,
+      purpose: options.purpose || PaymentPurpose.NEW,
       userEmail,
       userPhone,
-      gatewayResponse.paymentUrl,
-      subscription.plan.name,
-      amount
-    );
+      userId: subscription.userId,
+      couponId: options.discount?.couponId,
+      originalAmount: options.discount?.originalAmount,
+      discountAmount: options.discount?.discountAmount || 0,
+      metadata: JSON.stringify({
+        ...options.metadata,
+        orderId,
+        // Only a fingerprint, so payment rows don't hold the gateway secret
+        merchantFingerprint: fingerprint(merchantId),
+        gatewayTxId: gatewayResponse.gatewayTxId,
+        message: gatewayResponse.message,
+        redirect: gatewayResponse.redirect,
+        failedOver: failedOver.length > 0 ? failedOver : undefined,
+      }),
+    };
+    const payment = options.discount
+      ? await this.couponService.redeem(options.discount.couponId, subscription.userId, tx => tx.payment.create({ data }))
+      : await this.prisma.payment.create({ data });
 
-    // Mark that we've sent the notification
-    await this.prisma.payment.update({
-      where: { id: payment.id },
-      data: { notificationSent: true },
-    });
+    // Send the payment link to the user via SMS/Email, unless the caller
+    // sends its own message containing the link
+    if (options.notify !== false) {
+      await this.notificationService.sendPaymentLink(
+        userEmail,
+        userPhone,
+        paymentUrl,
+        planName,
+        amount,
+        subscription.plan.currency
+      );
+
+      // Mark that we've sent the notification
+      await this.prisma.payment.update({
+        where: { id: payment.id },
+        data: { notificationSent: true },
+      });
+    }
 
     await this.audit.log({
       userId: subscription.userId,
       action: 'PAYMENT_CREATED',
       targetType: 'Payment',
       targetId: payment.id,
-      metadata: { amount, gateway },
+      metadata: {
+        amount,
+        gateway: usedGateway,
+        requestedGateway: gateway,
+        failedOver,
+        purpose: payment.purpose,
+        couponId: payment.couponId,
+      },
     });
 
+    await this.webhookService.dispatch(
+      subscription.userId,
+      'payment.created',
+      {
+        ...this.eventData(payment, subscription.userId),
+        paymentUrl: payment.paymentUrl,
+        couponId: payment.couponId,
+        discountAmount: payment.discountAmount,
+      }
+    );
+
     return payment;
   }
 
@@ -149,20 +247,30 @@ export class PaymentService {
    * After the user pays on the gateway's website, they get redirected back to
    * our callback URL. This method:
    * 1. Finds the payment record using the authority
-   * 2. Verifies with the gateway that payment was actually completed
-   * 3. Updates our database with the verification result
-   * 4. Returns the updated payment record
+   * 2. Claims it (PENDING -> VERIFYING) so concurrent calls don't race
+   * 3. Verifies with the gateway that payment was actually completed
+   * 4. Checks the gateway's answer (amount, currency, authority, merchant,
+   *    refId) against the stored payment; mismatches become SUSPICIOUS
+   * 5. Updates our database with the verification result
+   * 6. Returns the updated payment record
+   * 
+   * A caller that loses the claim waits for the winner and returns its result,
+   * so the callback and the frontend verifying at the same time produce one
+   * gateway call and one set of completion events.
    * 
    * Important: This is a critical security step. Never trust the redirect URL
    * parameters alone - always verify with the gateway's API.
    * 
    * @param authority - The unique payment reference from the gateway
    * @param status - Status parameter from the gateway callback
+   * @param params - All callback parameters; kept on the payment for gateways
+   *                 that verify with them (e.g. Saman, Mellat)
    * @returns Updated payment record with verification details
    */
   async verifyPayment(
     authority: string,
-    status?: string
+    status?: string,
+    params?: Record<string, string>
   ): Promise<Payment> {
     // Find the payment record in our database
     const payment = await this.prisma.payment.findFirst({
@@ -178,19 +286,63 @@ export class PaymentService {
       throw new NotFoundError('Payment');
     }
 
+    // Don't verify if already completed (prevents duplicate verification)
+    if (this.isSettled(payment.status)) {
+      return payment;
+    }
+
+    if (payment.status === PaymentStatus.SUSPICIOUS) {
+      throw new PaymentGatewayError('Payment failed integrity checks and was flagged for review');
+    }
+
+    // Not verifying a voided payment makes the gateway return the money
+    if (payment.voidedAt) {
+      throw new ValidationError('This payment link is no longer valid');
+    }
+
     // If the gateway indicates the payment was cancelled or failed,
-    // update our record and throw an error
+    // update our record and throw an error. A late NOK never overrides
+    // a payment that another caller is verifying or has completed.
     if (status === 'NOK' || status === 'cancel') {
-      await this.prisma.payment.update({
-        where: { id: payment.id },
+      const failed = await this.prisma.payment.updateMany({
+        where: { id: payment.id, status: PaymentStatus.PENDING },
         data: { status: PaymentStatus.FAILED },
       });
+      if (failed.count > 0) {
+        await this.emitPaymentFailed({ ...payment, status: PaymentStatus.FAILED }, payment.subscription.userId, 'cancelled');
+      }
       throw new PaymentGatewayError('Payment was cancelled or failed');
     }
 
-    // Don't verify if already completed (prevents duplicate verification)
-    if (payment.status === PaymentStatus.COMPLETED) {
-      return payment;
+    const existingMetadata = this.parseMetadata(payment);
+    if (params && Object.keys(params).length > 0) {
+      existingMetadata.callback = params;
+    }
+
+    // Claim the payment so only one caller talks to the gateway and emits the
+    // completion events. A claim left behind by a crashed process expires.
+    const claimedAt = new Date();
+    const claim = await this.prisma.payment.updateMany({
+      where: {
+        id: payment.id,
+        OR: [
+          { status: PaymentStatus.PENDING },
+          { status: PaymentStatus.FAILED, voidedAt: null },
+          {
+            status: PaymentStatus.VERIFYING,
+            verifyingSince: { lt: new Date(claimedAt.getTime() - VERIFY_CLAIM_TTL_MS) },
+          },
+        ],
+      },
+      data: {
+        status: PaymentStatus.VERIFYING,
+        verifyingSince: claimedAt,
+        metadata: JSON.stringify(existingMetadata),
+      },
+    });
+
+    if (claim.count === 0) {
+      return this.waitForVerification(payment.id);
     }
 
     const config = await this.gatewayCreds.requireConfig(payment.subscription.userId, payment.gateway);
@@ -199,46 +351,83 @@ export class PaymentService {
     const verifyRequest: VerifyPaymentRequest = {
       authority: payment.authority!,
       amount: payment.amount,
+      currency: toCurrencyCode(payment.currency),
+      orderId: existingMetadata.orderId,
+      params: existingMetadata.callback,
     };
 
     let verifyResponse: VerifyPaymentResponse;
     
     try {
       verifyResponse = await paymentGateway.verifyPayment(verifyRequest);
+      gatewayCircuitBreaker.recordSuccess(payment.subscription.userId, payment.gateway);
     } catch (error) {
-      // If verification fails, update the payment status
-      await this.prisma.payment.update({
+      // Only a definitive answer from the gateway fails the payment. Timeouts and
+      // network errors put it back to PENDING so verification can be retried; the
+      // bank may already have taken the money.
+      const definitive = error instanceof PaymentGatewayError && error.code !== undefined;
+      if (isTransportError(error)) {
+        gatewayCircuitBreaker.recordFailure(payment.subscription.userId, payment.gateway);
+      }
+      const updated = await this.prisma.payment.update({
         where: { id: payment.id },
-        data: { status: PaymentStatus.FAILED },
+        data: {
+          status: definitive ? PaymentStatus.FAILED : PaymentStatus.PENDING,
+          verifyingSince: null,
+        },
       });
+      if (definitive) {
+        await this.emitPaymentFailed(updated, payment.subscription.userId, 'declined', (error as Error).message);
+      }
       throw error;
     }
 
     // Update the payment record with verification details
-    const existingMetadata = payment.metadata ? JSON.parse(payment.metadata) : {};
+    // A verified transaction that doesn't match what we asked for (tampered
+    // amount, another merchant's transaction, a replayed refId) must never
+    // activate anything. Park it for a human to look at.
+    const issues = await this.findIntegrityIssues(payment, existingMetadata, verifyResponse);
+    if (issues.length > 0) {
+      await this.flagSuspicious(payment, existingMetadata, verifyResponse, issues);
+      throw new PaymentGatewayError('Payment failed integrity checks and was flagged for review');
+    }
 
-    const updatedPayment = await this.prisma.payment.update({
-      where: { id: payment.id },
-      data: {
-        status: PaymentStatus.COMPLETED,
-        gatewayTxId: verifyResponse.refId,
-        paidAt: new Date(),
-        verifiedAt: new Date(),
-        metadata: JSON.stringify({
-          ...existingMetadata,
-          refId: verifyResponse.refId,
-          cardPan: verifyResponse.cardPan,
-          cardHash: verifyResponse.cardHash,
-          feeType: verifyResponse.feeType,
-          fee: verifyResponse.fee,
-        }),
-      },
-      include: {
-        subscription: {
-          include: { plan: true },
+    let updatedPayment;
+    try {
+      updatedPayment = await this.prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          status: PaymentStatus.COMPLETED,
+          gatewayTxId: verifyResponse.refId || null,
+          paidAt: new Date(),
+          verifiedAt: new Date(),
+          verifyingSince: null,
+          metadata: JSON.stringify({
+            ...existingMetadata,
+            refId: verifyResponse.refId,
+            cardPan: verifyResponse.cardPan,
+            cardHash: verifyResponse.cardHash,
+            feeType: verifyResponse.feeType,
+            fee: verifyResponse.fee,
+          }),
         },
-      },
-    });
+        include: {
+          subscription: {
+            include: { plan: true },
+          },
+        },
+      });
+    } catch (error) {
+      // Unique (gateway, gatewayTxId): another payment claimed this refId
+      // between the integrity check and now
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        await this.flagSuspicious(payment, existingMetadata, verifyResponse, [
+          `refId ${verifyResponse.refId} was already used by another payment`,
+        ]);
+        throw new PaymentGatewayError('Payment failed integrity checks and was flagged for review');
+      }
+      throw error;
+    }
 
     await this.audit.log({
       userId: updatedPayment.subscription.userId,
@@ -252,18 +441,561 @@ export class PaymentService {
       updatedPayment.subscription.userId,
       'payment.completed',
       {
-        id: updatedPayment.id,
-        subscriptionId: updatedPayment.subscriptionId,
-        amount: updatedPayment.amount,
-        currency: updatedPayment.currency,
+        ...this.eventData(updatedPayment, updatedPayment.subscription.userId),
         refId: verifyResponse.refId,
-        status: updatedPayment.status,
       }
     );
 
     return updatedPayment;
   }
 
+  /**
+   * Compares the gateway's verification answer with the stored payment
+   * 
+   * @param payment - The payment being verified
+   * @param metadata - Its parsed metadata (holds the merchant used at creation)
+   * @param verifyResponse - What the gateway reported
+   * @returns A description of each mismatch (empty if everything matches)
+   */
+  private async findIntegrityIssues(
+    payment: Payment,
+    metadata: Record<string, any>,
+    verifyResponse: VerifyPaymentResponse
+  ): Promise<string[]> {
+    const issues: string[] = [];
+
+    // Gateways report amounts in their own unit (e.g. Rials for a Toman
+    // payment), so amounts are compared in Rials
+    const expectedCurrency = payment.currency.toUpperCase();
+    const reportedCurrency = (verifyResponse.currency || payment.currency).toUpperCase();
+    if (!isCurrencyCode(expectedCurrency) || !isCurrencyCode(reportedCurrency)) {
+      issues.push(`currency mismatch: expected ${payment.currency}, gateway reported ${verifyResponse.currency}`);
+    } else if (
+      verifyResponse.amount !== undefined &&
+      verifyResponse.amount * CURRENCIES[reportedCurrency].rials !== payment.amount * CURRENCIES[expectedCurrency].rials
+    ) {
+      issues.push(`amount mismatch: expected ${payment.amount} ${expectedCurrency}, gateway reported ${verifyResponse.amount} ${reportedCurrency}`);
+    }
+
+    if (verifyResponse.authority && verifyResponse.authority !== payment.authority) {
+      issues.push(`authority mismatch: expected ${payment.authority}, gateway reported ${verifyResponse.authority}`);
+    }
+
+    // Payments created before credentials were encrypted stored the merchantId itself
+    const expectedMerchant = metadata.merchantFingerprint
+      || (metadata.merchantId ? fingerprint(metadata.merchantId) : undefined);
+    if (
+      expectedMerchant &&
+      verifyResponse.merchantId &&
+      fingerprint(verifyResponse.merchantId) !== expectedMerchant
+    ) {
+      issues.push('merchant mismatch: verified against a different merchant than the payment was created with');
+    }
+
+    if (verifyResponse.refId) {
+      const reused = await this.prisma.payment.findFirst({
+        where: {
+          gateway: payment.gateway,
+          gatewayTxId: verifyResponse.refId,
+          id: { not: payment.id },
+        },
+        select: { id: true },
+      });
+      if (reused) {
+        issues.push(`refId ${verifyResponse.refId} was already used by payment ${reused.id}`);
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Marks a payment SUSPICIOUS and alerts the operators
+   */
+  private async flagSuspicious(
+    payment: Payment & { subscription: { userId: string } },
+    metadata: Record<string, any>,
+    verifyResponse: VerifyPaymentResponse,
+    issues: string[]
+  ): Promise<void> {
+    await this.prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        status: PaymentStatus.SUSPICIOUS,
+        suspiciousReason: issues.join('; '),
+        verifyingSince: null,
+        metadata: JSON.stringify({
+          ...metadata,
+          verifyResponse,
+        }),
+      },
+    });
+
+    await this.audit.log({
+      userId: payment.subscription.userId,
+      action: 'PAYMENT_FLAGGED_SUSPICIOUS',
+      targetType: 'Payment',
+      targetId: payment.id,
+      metadata: { issues, refId: verifyResponse.refId, gateway: payment.gateway },
+    });
+
+    await this.notificationService.sendAdminAlert('Payment flagged as suspicious', {
+      paymentId: payment.id,
+      subscriptionId: payment.subscriptionId,
+      gateway: payment.gateway,
+      authority: payment.authority,
+      amount: payment.amount,
+      issues,
+    });
+  }
+
+  /**
+   * Waits for another caller's verification of the same payment to finish
+   * 
+   * @param paymentId - The payment being verified elsewhere
+   * @returns The payment once it is settled
+   * @throws PaymentGatewayError if that verification failed, or
+   *         ValidationError if it is still running after the wait
+   */
+  private async waitForVerification(paymentId: string): Promise<Payment> {
+    const deadline = Date.now() + VERIFY_WAIT_MS;
+    while (true) {
+      const current = await this.prisma.payment.findUnique({
+        where: { id: paymentId },
+        include: {
+          subscription: {
+            include: { plan: true },
+          },
+        },
+      });
+      if (!current) {
+        throw new NotFoundError('Payment');
+      }
+      if (this.isSettled(current.status)) {
+        return current;
+      }
+      if (current.status === PaymentStatus.FAILED) {
+        throw new PaymentGatewayError('Payment verification failed');
+      }
+      if (current.status === PaymentStatus.SUSPICIOUS) {
+        throw new PaymentGatewayError('Payment failed integrity checks and was flagged for review');
+      }
+      if (current.status === PaymentStatus.PENDING || Date.now() >= deadline) {
+        throw new ValidationError('Payment verification is in progress, try again shortly');
+      }
+      await new Promise(resolve => setTimeout(resolve, VERIFY_POLL_MS));
+    }
+  }
+
+  /**
+   * Works out which gateways a payment may use, in order: the requested
+   * gateway, the plan's fallbackGateways, then the user's other credentials
+   * by priority. Gateways the user has no credentials for, or that can't take
+   * the plan's currency, are left out.
+   * 
+   * @param userId - The paying user's account
+   * @param gateway - The preferred gateway
+   * @param plan - The plan being paid for
+   * @returns Gateway names in failover order
+   */
+  async resolveGatewayOrder(userId: string, gateway: string, plan?: Plan | null): Promise<string[]> {
+    const credentials = await this.gatewayCreds.listGateways(userId);
+    const configured = new Set(credentials.map(c => c.gateway));
+    const prioritised = credentials
+      .filter(c => c.priority !== null)
+      .sort((a, b) => a.priority! - b.priority!)
+      .map(c => c.gateway);
+
+    const currency = toCurrencyCode(plan?.currency);
+    const supported = getSupportedGateways();
+    const order = [gateway, ...(plan?.fallbackGateways || []), ...prioritised]
+      .map(g => g.toLowerCase())
+      .filter(g => configured.has(g) && supported.includes(g) && getPaymentGateway(g).supportsCurrency(currency));
+    return Array.from(new Set(order));
+  }
+
+  /**
+   * Reports gateway health and which gateway a payment would use right now
+   * 
+   * @param userId - Whose failover order to show (all supported gateways if omitted)
+   * @param planId - Include this plan's gateway and fallbacks in the order
+   * @returns Failover order, the preferred gateway, and per-gateway breaker stats
+   *          (the user's own circuits, or summed over all users when userId is omitted)
+   */
+  async getGatewayRouting(userId?: string, planId?: string): Promise<GatewayRouting> {
+    let plan: Plan | null = null;
+    if (planId) {
+      plan = await this.prisma.plan.findUnique({ where: { id: planId } });
+      if (!plan) {
+        throw new NotFoundError('Plan');
+      }
+    }
+
+    let order: string[];
+    if (userId) {
+      const credentials = await this.gatewayCreds.listGateways(userId);
+      const primary = plan?.gateway
+        ?? credentials.filter(c => c.priority !== null).sort((a, b) => a.priority! - b.priority!)[0]?.gateway;
+      order = primary ? await this.resolveGatewayOrder(userId, primary, plan) : [];
+    } else {
+      order = plan ? Array.from(new Set([plan.gateway, ...plan.fallbackGateways])) : getSupportedGateways();
+    }
+
+    const preferred = (userId ? gatewayCircuitBreaker.prioritize(userId, order) : order)[0] || null;
+    const names = Array.from(new Set([...order, ...getSupportedGateways()]));
+
+    return {
+      order,
+      preferred,
+      gateways: names.map(name => gatewayCircuitBreaker.getHealth(name, userId)),
+    };
+  }
+
+  /**
+   * Returns the order ID sent to the gateway when the payment was created
+   * 
+   * @param payment - The payment
+   * @returns The order ID, if one was stored
+   */
+  getOrderId(payment: Payment): string | undefined {
+    return this.parseMetadata(payment).orderId || undefined;
+  }
+
+  /**
+   * Returns the parameters the gateway sent to our callback for a payment
+   * 
+   * @param payment - The payment
+   * @returns The callback parameters, if the callback arrived
+   */
+  getCallbackParams(payment: Payment): Record<string, string> | undefined {
+    return this.parseMetadata(payment).callback || undefined;
+  }
+
+  /**
+   * Returns the form post that sends the user to the gateway, for gateways
+   * that cannot be reached with a plain link
+   * 
+   * @param authority - The payment's authority
+   * @returns The redirect to render
+   * @throws ValidationError if the payment is no longer waiting to be paid
+   */
+  async getPaymentRedirect(authority: string): Promise<PaymentRedirect> {
+    const payment = await this.prisma.payment.findFirst({ where: { authority } });
+    if (!payment) {
+      throw new NotFoundError('Payment');
+    }
+    if (payment.status !== PaymentStatus.PENDING) {
+      throw new ValidationError(`Payment is already ${payment.status}`);
+    }
+
+    const redirect: PaymentRedirect | undefined = this.parseMetadata(payment).redirect;
+    if (!redirect) {
+      throw new ValidationError('This payment does not use a redirect form');
+    }
+    return redirect;
+  }
+
+  /**
+   * Withdraws open payments that must no longer be paid
+   * 
+   * They become FAILED with voidedAt set. Unlike a cancelled or declined
+   * payment, a voided one is never verified again, so the gateway releases
+   * any money taken through its link instead of it being applied.
+   * 
+   * @param where - Which payments to void; only PENDING ones are touched
+   * @returns Number of payments voided
+   */
+  async voidOpenPayments(where: Prisma.PaymentWhereInput): Promise<number> {
+    const { count } = await this.prisma.payment.updateMany({
+      where: { ...where, status: PaymentStatus.PENDING },
+      data: { status: PaymentStatus.FAILED, voidedAt: new Date() },
+    });
+    return count;
+  }
+
+  /**
+   * Tells the user's webhooks that a payment failed
+   * 
+   * @param payment - The payment, already marked FAILED
+   * @param userId - The subscription owner
+   * @param reason - Why it failed
+   * @param message - The gateway's explanation, if any
+   */
+  async emitPaymentFailed(payment: Payment, userId: string, reason: PaymentFailureReason, message?: string): Promise<void> {
+    await this.webhookService.dispatch(userId, 'payment.failed', {
+      ...this.eventData(payment, userId),
+      reason,
+      message,
+    });
+  }
+
+  // The fields every payment event carries
+  private eventData(payment: Payment, userId: string): PaymentEventData {
+    return {
+      id: payment.id,
+      subscriptionId: payment.subscriptionId,
+      userId,
+      amount: payment.amount,
+      currency: payment.currency,
+      gateway: payment.gateway,
+      status: payment.status,
+      purpose: payment.purpose,
+    };
+  }
+
+  private parseMetadata(payment: Payment): Record<string, any> {
+    if (!payment.metadata) return {};
+    try {
+      return JSON.parse(payment.metadata);
+    } catch {
+      return {};
+    }
+  }
+
+  private isSettled(status: string): boolean {
+    return (
+      status === PaymentStatus.COMPLETED ||
+      status === PaymentStatus.REFUNDED ||
+      status === PaymentStatus.PARTIALLY_REFUNDED
+    );
+  }
+
+  /**
+   * Refunds all or part of a completed payment through its gateway
+   * 
+   * The refunded amount is reserved with a conditional update before the
+   * gateway is called, so two concurrent refunds can never return more than
+   * was paid. If the gateway rejects the refund the reservation is released
+   * and a FAILED refund is recorded. If it doesn't answer (timeout, dropped
+   * connection) it may still have refunded, so the refund is recorded as
+   * UNKNOWN, the amount stays reserved and the operators are alerted; see
+   * settleRefund.
+   * 
+   * @param paymentId - The payment to refund
+   * @param options - Amount (defaults to everything not yet refunded), reason
+   *                  and who asked for it
+   * @returns The updated payment and the refund record
+   */
+  async refundPayment(
+    paymentId: string,
+    options: RefundOptions = {}
+  ): Promise<{ payment: Payment; refund: Refund }> {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: { subscription: true },
+    });
+
+    if (!payment) {
+      throw new NotFoundError('Payment');
+    }
+
+    if (
+      payment.status !== PaymentStatus.COMPLETED &&
+      payment.status !== PaymentStatus.PARTIALLY_REFUNDED
+    ) {
+      throw new ValidationError(`Cannot refund a payment with status ${payment.status}`);
+    }
+
+    const refundable = payment.amount - payment.refundedAmount;
+    const amount = options.amount ?? refundable;
+    if (amount <= 0 || amount > refundable) {
+      const unsettled = await this.prisma.refund.count({ where: { paymentId, status: RefundStatus.UNKNOWN } });
+      throw new ValidationError(
+        unsettled > 0
+          ? `Refund amount must be between 1 and ${refundable}; ${unsettled} refund(s) with an unknown outcome still reserve part of this payment, settle them first`
+          : `Refund amount must be between 1 and ${refundable}`
+      );
+    }
+
+    const claim = await this.prisma.payment.updateMany({
+      where: { id: payment.id, refundedAmount: payment.refundedAmount },
+      data: { refundedAmount: payment.refundedAmount + amount },
+    });
+    if (claim.count === 0) {
+      throw new ValidationError('Another refund for this payment is in progress, try again');
+    }
+
+    const config = await this.gatewayCreds.requireConfig(payment.subscription.userId, payment.gateway);
+    const paymentGateway = getPaymentGateway(payment.gateway, config);
+
+    let gatewayRefundId: string;
+    try {
+      const response = await paymentGateway.refundPayment({
+        authority: payment.authority,
+        orderId: this.getOrderId(payment),
+        refId: payment.gatewayTxId || undefined,
+        amount,
+        paymentAmount: payment.amount,
+        currency: toCurrencyCode(payment.currency),
+        reason: options.reason,
+        params: this.getCallbackParams(payment),
+      });
+      gatewayRefundId = response.refundId;
+    } catch (error: any) {
+      if (isTransportError(error)) {
+        const unknown = await this.prisma.refund.create({
+          data: {
+            paymentId: payment.id,
+            amount,
+            reason: options.reason,
+            status: RefundStatus.UNKNOWN,
+            error: error?.message || 'No answer from the gateway',
+            requestedBy: options.requestedBy,
+          },
+        });
+        await this.audit.log({
+          userId: payment.subscription.userId,
+          action: 'PAYMENT_REFUND_UNKNOWN',
+          targetType: 'Payment',
+          targetId: payment.id,
+          metadata: { refundId: unknown.id, amount, error: unknown.error },
+        });
+        await this.notificationService.sendAdminAlert('Refund outcome unknown', {
+          refundId: unknown.id,
+          paymentId: payment.id,
+          gateway: payment.gateway,
+          amount,
+          error: unknown.error,
+        });
+        throw new PaymentGatewayError(
+          `The gateway did not answer, so the refund may or may not have gone through. Refund ${unknown.id} is kept as UNKNOWN with its amount reserved; check the gateway panel and settle it.`,
+          undefined,
+          true
+        );
+      }
+
+      await this.prisma.payment.update({
+        where: { id: payment.id },
+        data: { refundedAmount: { decrement: amount } },
+      });
+      await this.prisma.refund.create({
+        data: {
+          paymentId: payment.id,
+          amount,
+          reason: options.reason,
+          status: RefundStatus.FAILED,
+          error: error?.message || 'Refund failed',
+          requestedBy: options.requestedBy,
+        },
+      });
+      throw error;
+    }
+
+    const refundedAmount = payment.refundedAmount + amount;
+    const [updatedPayment, refund] = await this.prisma.$transaction([
+      this.prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          status: refundedAmount >= payment.amount
+            ? PaymentStatus.REFUNDED
+            : PaymentStatus.PARTIALLY_REFUNDED,
+        },
+      }),
+      this.prisma.refund.create({
+        data: {
+          paymentId: payment.id,
+          amount,
+          reason: options.reason,
+          status: RefundStatus.COMPLETED,
+          gatewayRefundId,
+          requestedBy: options.requestedBy,
+        },
+      }),
+    ]);
+
+    await this.announceRefund(payment.subscription.userId, updatedPayment, refund);
+    return { payment: updatedPayment, refund };
+  }
+
+  /**
+   * Records what happened to a refund the gateway never answered about,
+   * once an operator has checked the gateway panel
+   * 
+   * @param refundId - The UNKNOWN refund
+   * @param outcome - COMPLETED if the money went back, FAILED if it didn't
+   *                  (the reserved amount is released)
+   * @param gatewayRefundId - The gateway's reference, for a completed refund
+   * @returns The updated payment and the refund record
+   */
+  async settleRefund(
+    refundId: string,
+    outcome: RefundStatus.COMPLETED | RefundStatus.FAILED,
+    gatewayRefundId?: string
+  ): Promise<{ payment: Payment; refund: Refund }> {
+    const refund = await this.prisma.refund.findUnique({
+      where: { id: refundId },
+      include: { payment: { include: { subscription: true } } },
+    });
+    if (!refund) {
+      throw new NotFoundError('Refund');
+    }
+
+    const claim = await this.prisma.refund.updateMany({
+      where: { id: refund.id, status: RefundStatus.UNKNOWN },
+      data: { status: outcome, gatewayRefundId },
+    });
+    if (claim.count === 0) {
+      throw new ValidationError(`Refund is already ${refund.status}`);
+    }
+    const settled = await this.prisma.refund.findUniqueOrThrow({ where: { id: refund.id } });
+    const { payment } = refund;
+
+    if (outcome === RefundStatus.FAILED) {
+      const updatedPayment = await this.prisma.payment.update({
+        where: { id: payment.id },
+        data: { refundedAmount: { decrement: refund.amount } },
+      });
+      await this.audit.log({
+        userId: payment.subscription.userId,
+        action: 'PAYMENT_REFUND_FAILED',
+        targetType: 'Payment',
+        targetId: payment.id,
+        metadata: { refundId: refund.id, amount: refund.amount, settled: true },
+      });
+      return { payment: updatedPayment, refund: settled };
+    }
+
+    // The amount was reserved when the refund was attempted
+    const updatedPayment = await this.prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        status: payment.refundedAmount >= payment.amount
+          ? PaymentStatus.REFUNDED
+          : PaymentStatus.PARTIALLY_REFUNDED,
+      },
+    });
+    await this.announceRefund(payment.subscription.userId, updatedPayment, settled);
+    return { payment: updatedPayment, refund: settled };
+  }
+
+  private async announceRefund(userId: string, payment: Payment, refund: Refund): Promise<void> {
+    await this.audit.log({
+      userId,
+      action: 'PAYMENT_REFUNDED',
+      targetType: 'Payment',
+      targetId: payment.id,
+      metadata: {
+        refundId: refund.id,
+        amount: refund.amount,
+        refundedAmount: payment.refundedAmount,
+        reason: refund.reason,
+        gatewayRefundId: refund.gatewayRefundId,
+      },
+    });
+
+    await this.webhookService.dispatch(
+      userId,
+      'payment.refunded',
+      {
+        ...this.eventData(payment, userId),
+        refundId: refund.id,
+        refundAmount: refund.amount,
+        refundedAmount: payment.refundedAmount,
+        reason: refund.reason || undefined,
+      }
+    );
+  }
+
   /**
    * Gets a payment by its authority (unique reference)
    * 
@@ -0,0 +1,213 @@
+import { PrismaClient, Payment } from '@prisma/client';
+import { PaymentStatus } from '../../types/enums';
+import { ReconciliationResult } from '../../types/payment.types';
+import { PaymentFailureReason } from '../../types/webhook.types';
+import { PaymentService } from './payment.service';
+import { GatewayCredentialService } from './gateway-credential.service';
+import { getPaymentGateway } from './gateways';
+import { SubscriptionService } from '../subscription/subscription.service';
+import { AuditService } from '../audit/audit.service';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { toCurrencyCode } from '../../utils/currency';
+import { env } from '../../config/env';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Reconciliation Service
+ *
+ * A payment stays PENDING if neither the gateway callback nor a verify call
+ * ever reaches us, for example when the user closes the tab on the bank page,
+ * and stays VERIFYING if the process verifying it died mid-way.
+ * The reconciler asks the gateway about such payments and settles them:
+ * - Money captured: the payment is verified and the subscription activated
+ * - Cancelled, expired or reversed: the payment is marked FAILED
+ * - Still on the bank page: left alone, and failed once it is too old
+ *
+ * Every run writes a report to the audit log.
+ */
+export class ReconciliationService {
+  private prisma: PrismaClient;
+  private paymentService: PaymentService;
+  private subscriptionService: SubscriptionService;
+  private gatewayCreds: GatewayCredentialService;
+  private audit: AuditService;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.paymentService = new PaymentService(prisma);
+    this.subscriptionService = new SubscriptionService(prisma);
+    this.gatewayCreds = new GatewayCredentialService(prisma);
+    this.audit = new AuditService(prisma);
+  }
+
+  /**
+   * Reconciles PENDING payments older than RECONCILE_MIN_AGE_MIN
+   *
+   * @param limit - Maximum number of payments to check
+   * @returns One result per payment checked
+   */
+  async reconcilePending(limit: number = 100): Promise<ReconciliationResult[]> {
+    const cutoff = new Date(Date.now() - env.RECONCILE.MIN_AGE_MIN * MINUTE_MS);
+    const stale = await this.prisma.payment.findMany({
+      where: {
+        createdAt: { lte: cutoff },
+        OR: [
+          { status: PaymentStatus.PENDING },
+          // A verification claim abandoned by a crashed process
+          { status: PaymentStatus.VERIFYING, verifyingSince: { lte: cutoff } },
+        ],
+      },
+      // Payments the reconciler has not looked at yet come first, so rows that
+      // keep failing fall behind newer ones instead of filling every batch
+      orderBy: [{ lastReconciledAt: { sort: 'asc', nulls: 'first' } }, { createdAt: 'asc' }],
+      take: limit,
+    });
+
+    const results: ReconciliationResult[] = [];
+    for (const payment of stale) {
+      results.push(await this.reconcile(payment));
+    }
+
+    if (results.length > 0) {
+      await this.writeReport('scheduled', results);
+    }
+
+    return results;
+  }
+
+  /**
+   * Reconciles a single payment on demand
+   *
+   * @param paymentId - The payment to check
+   * @returns What the gateway reported and what was done
+   */
+  async reconcilePayment(paymentId: string): Promise<ReconciliationResult> {
+    const payment = await this.prisma.payment.findUnique({ where: { id: paymentId } });
+    if (!payment) {
+      throw new NotFoundError('Payment');
+    }
+    if (payment.status !== PaymentStatus.PENDING && payment.status !== PaymentStatus.VERIFYING) {
+      throw new ValidationError(`Payment is already ${payment.status}`);
+    }
+
+    const result = await this.reconcile(payment);
+    await this.writeReport('manual', [result]);
+    return result;
+  }
+
+  private async reconcile(payment: Payment): Promise<ReconciliationResult> {
+    const result: ReconciliationResult = {
+      paymentId: payment.id,
+      authority: payment.authority,
+      gateway: payment.gateway,
+      action: 'unchanged',
+    };
+    const abandonBefore = new Date(Date.now() - env.RECONCILE.ABANDON_AFTER_HOURS * 60 * MINUTE_MS);
+    let userId = payment.userId ?? undefined;
+
+    try {
+      await this.prisma.payment.update({
+        where: { id: payment.id },
+        data: { lastReconciledAt: new Date() },
+      });
+
+      const subscription = await this.prisma.subscription.findUnique({
+        where: { id: payment.subscriptionId },
+      });
+      if (!subscription) throw new NotFoundError('Subscription');
+      userId = subscription.userId;
+
+      const config = await this.gatewayCreds.requireConfig(subscription.userId, payment.gateway);
+      const gateway = getPaymentGateway(payment.gateway, config);
+      const inquiry = await gateway.inquirePayment({
+        authority: payment.authority,
+        amount: payment.amount,
+        currency: toCurrencyCode(payment.currency),
+        orderId: this.paymentService.getOrderId(payment),
+        params: this.paymentService.getCallbackParams(payment),
+      });
+      result.state = inquiry.state;
+
+      if (inquiry.state === 'PAID' || inquiry.state === 'VERIFIED' || inquiry.state === 'UNKNOWN') {
+        // Verifying an already verified transaction is accepted by the gateways,
+        // and gives us the reference ID for our records. Gateways without an
+        // inquiry API answer UNKNOWN: verification captures the payment if it
+        // went through and fails it definitively if it did not.
+        const verified = await this.paymentService.verifyPayment(payment.authority);
+        if (verified.status === PaymentStatus.COMPLETED) {
+          result.action = 'completed';
+          await this.subscriptionService.handlePaymentCompleted(verified);
+          result.activated = true;
+        }
+        return result;
+      }
+
+      if (inquiry.state === 'FAILED' || payment.createdAt < abandonBefore) {
+        const reason = inquiry.state === 'FAILED' ? 'cancelled' : 'abandoned';
+        if (await this.markFailed(payment, userId, reason)) result.action = 'failed';
+      }
+    } catch (error: any) {
+      result.action = result.action === 'completed' ? 'completed' : 'error';
+      result.error = error?.message || String(error);
+      console.error(`[Reconcile] Payment ${payment.id}:`, result.error);
+
+      // A payment we cannot check (missing credentials, gateway down) is still
+      // abandoned once the window has passed, rather than retried forever
+      if (result.action === 'error' && payment.createdAt < abandonBefore) {
+        try {
+          if (await this.markFailed(payment, userId, 'abandoned')) result.action = 'failed';
+        } catch (abandonError: any) {
+          console.error(`[Reconcile] Abandoning payment ${payment.id}:`, abandonError?.message || abandonError);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Marks a PENDING payment (or one with a stale verification claim) as FAILED
+   *
+   * @returns Whether this call made the transition
+   */
+  private async markFailed(payment: Payment, userId: string | undefined, reason: PaymentFailureReason): Promise<boolean> {
+    const staleClaim = new Date(Date.now() - env.RECONCILE.MIN_AGE_MIN * MINUTE_MS);
+    const update = await this.prisma.payment.updateMany({
+      where: {
+        id: payment.id,
+        OR: [
+          { status: PaymentStatus.PENDING },
+          { status: PaymentStatus.VERIFYING, verifyingSince: { lte: staleClaim } },
+        ],
+      },
+      data: { status: PaymentStatus.FAILED, verifyingSince: null },
+    });
+    if (update.count === 0) return false;
+
+    if (userId) {
+      await this.paymentService.emitPaymentFailed({ ...payment, status: PaymentStatus.FAILED }, userId, reason);
+    }
+    return true;
+  }
+
+  private async writeReport(trigger: 'scheduled' | 'manual', results: ReconciliationResult[]): Promise<void> {
+    const count = (action: ReconciliationResult['action']) =>
+      results.filter(r => r.action === action).length;
+
+    await this.audit.log({
+      action: 'PAYMENT_RECONCILIATION_REPORT',
+      targetType: 'Payment',
+      targetId: results.length === 1 ? results[0].paymentId : undefined,
+      metadata: {
+        trigger,
+        checked: results.length,
+        completed: count('completed'),
+        failed: count('failed'),
+        unchanged: count('unchanged'),
+        errors: count('error'),
+        results,
+      },
+    });
+  }
+}
@@ -0,0 +1,108 @@
+import { PrismaClient } from '@prisma/client';
+import { SubscriptionStatus } from '../../types/enums';
+import { NotificationService } from '../notification/notification.service';
+import { AuditService } from '../audit/audit.service';
+import { SubscriptionService } from './subscription.service';
+import { RenewalService } from './renewal.service';
+import { env } from '../../config/env';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Dunning Service
+ *
+ * Chases payment for PAST_DUE subscriptions during their grace period. Each
+ * entry in GRACE_DUNNING_DAYS is one reminder, sent that many days after the
+ * subscription's endDate, telling the user when access will be cut off and
+ * linking to the open renewal payment.
+ */
+export class DunningService {
+  private prisma: PrismaClient;
+  private subscriptionService: SubscriptionService;
+  private renewalService: RenewalService;
+  private notificationService: NotificationService;
+  private audit: AuditService;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.subscriptionService = new SubscriptionService(prisma);
+    this.renewalService = new RenewalService(prisma);
+    this.notificationService = new NotificationService();
+    this.audit = new AuditService(prisma);
+  }
+
+  /**
+   * Sends the dunning reminders that have come due
+   *
+   * Only subscriptions whose next reminder is due are fetched, oldest endDate
+   * first, so ones still waiting for their next reminder never fill the batch.
+   * The reminder counter is advanced with a conditional update before anything
+   * is sent, so concurrent runs never send the same reminder twice.
+   *
+   * @param limit - Maximum number of subscriptions to process
+   * @returns Number of reminders sent
+   */
+  async sendDueReminders(limit: number = 100): Promise<number> {
+    const now = new Date();
+    const schedule = [...env.GRACE.DUNNING_DAYS].sort((a, b) => a - b);
+    if (!schedule.length) return 0;
+
+    const pastDue = await this.prisma.subscription.findMany({
+      where: {
+        status: SubscriptionStatus.PAST_DUE,
+        graceEndsAt: { gt: now },
+        // Reminder n+1 is due once endDate is schedule[n] days past
+        OR: schedule.map((days, sent) => ({
+          dunningRemindersSent: sent,
+          endDate: { lte: new Date(now.getTime() - days * DAY_MS) },
+        })),
+      },
+      include: { plan: true, user: true },
+      orderBy: { endDate: 'asc' },
+      take: limit,
+    });
+
+    let sent = 0;
+    for (const subscription of pastDue) {
+      if (!subscription.endDate || !subscription.graceEndsAt) continue;
+      const daysOverdue = (now.getTime() - subscription.endDate.getTime()) / DAY_MS;
+      const due = schedule.filter(d => daysOverdue >= d).length;
+      if (due <= subscription.dunningRemindersSent) continue;
+
+      const claim = await this.prisma.subscription.updateMany({
+        where: { id: subscription.id, dunningRemindersSent: subscription.dunningRemindersSent },
+        data: { dunningRemindersSent: due },
+      });
+      if (claim.count === 0) continue;
+
+      try {
+        const { payment } = await this.renewalService.ensureRenewalPayment(subscription.id, subscription.user);
+        if (!payment) continue;
+
+        const contact = await this.subscriptionService.resolveContact(subscription.id, subscription.user);
+        await this.notificationService.sendDunningReminder(
+          contact.email,
+          contact.phone,
+          payment.paymentUrl,
+          subscription.plan.name,
+          payment.amount,
+          payment.currency,
+          subscription.graceEndsAt
+        );
+        sent++;
+
+        await this.audit.log({
+          userId: subscription.userId,
+          action: 'SUBSCRIPTION_DUNNING_REMINDER_SENT',
+          targetType: 'Subscription',
+          targetId: subscription.id,
+          metadata: { reminder: due, paymentId: payment.id, graceEndsAt: subscription.graceEndsAt },
+        });
+      } catch (error: any) {
+        console.error(`[Dunning] Failed to remind ${subscription.id}:`, error?.message || error);
+      }
+    }
+
+    return sent;
+  }
+}
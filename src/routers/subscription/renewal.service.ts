@@ -0,0 +1,253 @@
+import { PrismaClient, Payment } from '@prisma/client';
+import { SubscriptionStatus, PaymentStatus, PaymentPurpose } from '../../types/enums';
+import { PaymentService } from '../payment/payment.service';
+import { NotificationService } from '../notification/notification.service';
+import { AuditService } from '../audit/audit.service';
+import { SubscriptionService } from './subscription.service';
+import { env } from '../../config/env';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Renewal Service
+ *
+ * Iranian gateways have no card-on-file, so auto-renewal works by sending the
+ * user a "renewal invoice": a regular payment link opened ahead of endDate.
+ *
+ * The service handles:
+ * - Opening a renewal payment for auto-renewing subscriptions close to endDate
+ * - Re-sending the payment link as endDate approaches (escalating reminders)
+ * - Replacing a renewal payment that failed with a fresh one
+ *
+ * Once the renewal payment is verified, SubscriptionService.handlePaymentCompleted
+ * extends the existing subscription instead of creating a new one.
+ */
+export class RenewalService {
+  private prisma: PrismaClient;
+  private paymentService: PaymentService;
+  private subscriptionService: SubscriptionService;
+  private notificationService: NotificationService;
+  private audit: AuditService;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.paymentService = new PaymentService(prisma);
+    this.subscriptionService = new SubscriptionService(prisma);
+    this.notificationService = new NotificationService();
+    this.audit = new AuditService(prisma);
+  }
+
+  /**
+   * Opens renewal invoices for subscriptions entering the renewal window
+   *
+   * A subscription is claimed with a conditional update before its payment is
+   * created, so two runners can never open two invoices for the same period.
+   * If the gateway call fails the claim is released and retried next run.
+   *
+   * @param limit - Maximum number of subscriptions to process
+   * @returns Number of renewal invoices opened
+   */
+  async openDueRenewals(limit: number = 100): Promise<number> {
+    const now = new Date();
+    const windowEnd = new Date(now.getTime() + env.RENEWAL.LEAD_DAYS * DAY_MS);
+
+    const due = await this.prisma.subscription.findMany({
+      where: {
+        status: SubscriptionStatus.ACTIVE,
+        autoRenew: true,
+        cancelAtPeriodEnd: false,
+        renewalOpenedAt: null,
+        endDate: { gt: now, lte: windowEnd },
+      },
+      include: { plan: true, user: true },
+      orderBy: { endDate: 'asc' },
+      take: limit,
+    });
+
+    let opened = 0;
+    for (const subscription of due) {
+      const claim = await this.prisma.subscription.updateMany({
+        where: { id: subscription.id, renewalOpenedAt: null },
+        data: { renewalOpenedAt: now, renewalRemindersSent: 0 },
+      });
+      if (claim.count === 0) continue;
+
+      try {
+        const { id: paymentId } = await this.openRenewalPayment(subscription.id, subscription.user);
+        opened++;
+        await this.audit.log({
+          userId: subscription.userId,
+          action: 'SUBSCRIPTION_RENEWAL_OPENED',
+          targetType: 'Subscription',
+          targetId: subscription.id,
+          metadata: { paymentId, endDate: subscription.endDate },
+        });
+      } catch (error: any) {
+        console.error(`[Renewal] Failed to open renewal for ${subscription.id}:`, error?.message || error);
+        await this.prisma.subscription.update({
+          where: { id: subscription.id },
+          data: { renewalOpenedAt: null },
+        });
+      }
+    }
+
+    return opened;
+  }
+
+  /**
+   * Re-sends renewal payment links as endDate approaches
+   *
+   * Each entry in RENEWAL_REMINDER_DAYS is one reminder, sent once endDate is
+   * that many days away. Reminders get more frequent the closer the deadline
+   * is. If the open renewal payment has failed in the meantime, a new one is
+   * opened and its link is sent instead. Only subscriptions whose next
+   * reminder is due are fetched, nearest endDate first.
+   *
+   * @param limit - Maximum number of subscriptions to process
+   * @returns Number of reminders sent
+   */
+  async sendDueReminders(limit: number = 100): Promise<number> {
+    const now = new Date();
+    const schedule = [...env.RENEWAL.REMINDER_DAYS].sort((a, b) => b - a);
+    if (!schedule.length) return 0;
+
+    const open = await this.prisma.subscription.findMany({
+      where: {
+        status: SubscriptionStatus.ACTIVE,
+        autoRenew: true,
+        cancelAtPeriodEnd: false,
+        renewalOpenedAt: { not: null },
+        renewalPaymentId: { not: null },
+        // Reminder n+1 is due once endDate is schedule[n] days away
+        OR: schedule.map((days, sent) => ({
+          renewalRemindersSent: sent,
+          endDate: { lte: new Date(now.getTime() + days * DAY_MS) },
+        })),
+      },
+      include: { plan: true, user: true },
+      orderBy: { endDate: 'asc' },
+      take: limit,
+    });
+
+    let sent = 0;
+    for (const subscription of open) {
+      if (!subscription.endDate) continue;
+      const daysLeft = (subscription.endDate.getTime() - now.getTime()) / DAY_MS;
+      const due = schedule.filter(d => daysLeft <= d).length;
+      if (due <= subscription.renewalRemindersSent) continue;
+
+      const claim = await this.prisma.subscription.updateMany({
+        where: { id: subscription.id, renewalRemindersSent: subscription.renewalRemindersSent },
+        data: { renewalRemindersSent: due },
+      });
+      if (claim.count === 0) continue;
+
+      try {
+        const { payment, created } = await this.ensureRenewalPayment(subscription.id, subscription.user);
+        if (!payment) continue;
+        // A newly opened payment has already had its link sent by createPayment
+        if (!created) {
+          const contact = await this.subscriptionService.resolveContact(subscription.id, subscription.user);
+          await this.notificationService.sendRenewalReminder(
+            contact.email,
+            contact.phone,
+            payment.paymentUrl,
+            subscription.plan.name,
+            payment.amount,
+            payment.currency,
+            subscription.endDate
+          );
+        }
+        sent++;
+        await this.audit.log({
+          userId: subscription.userId,
+          action: 'SUBSCRIPTION_RENEWAL_REMINDER_SENT',
+          targetType: 'Subscription',
+          targetId: subscription.id,
+          metadata: { reminder: due, daysLeft: Math.ceil(daysLeft) },
+        });
+      } catch (error: any) {
+        console.error(`[Renewal] Failed to remind ${subscription.id}:`, error?.message || error);
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Returns the open renewal payment for a subscription, opening a new one
+   * if the previous payment failed or is missing
+   *
+   * @param subscriptionId - The subscription being renewed
+   * @param user - The subscription's user, used for contact details
+   * @returns The pending renewal payment (null if it was already paid) and
+   *          whether it was created by this call
+   */
+  async ensureRenewalPayment(
+    subscriptionId: string,
+    user?: { email: string | null; phone: string | null } | null
+  ): Promise<{ payment: Payment | null; created: boolean }> {
+    const subscription = await this.prisma.subscription.findUnique({
+      where: { id: subscriptionId },
+    });
+    if (!subscription) throw new Error(`Subscription ${subscriptionId} not found`);
+
+    const existing = subscription.renewalPaymentId
+      ? await this.prisma.payment.findUnique({ where: { id: subscription.renewalPaymentId } })
+      : null;
+    if (existing && existing.status === PaymentStatus.COMPLETED) {
+      return { payment: null, created: false };
+    }
+    if (existing && (existing.status === PaymentStatus.PENDING || existing.status === PaymentStatus.VERIFYING)) {
+      return { payment: existing, created: false };
+    }
+
+    const payment = await this.openRenewalPayment(subscriptionId, user);
+    return { payment, created: true };
+  }
+
+  /**
+   * Creates the renewal payment for a subscription and links it
+   *
+   * @param subscriptionId - The subscription being renewed
+   * @param user - The subscription's user, used for contact details
+   * @returns The created payment
+   */
+  private async openRenewalPayment(
+    subscriptionId: string,
+    user?: { email: string | null; phone: string | null } | null
+  ): Promise<Payment> {
+    const subscription = await this.prisma.subscription.findUnique({
+      where: { id: subscriptionId },
+      include: { plan: true },
+    });
+    if (!subscription) throw new Error(`Subscription ${subscriptionId} not found`);
+
+    // A scheduled downgrade takes effect with the next renewal
+    const plan = subscription.pendingPlanId
+      ? await this.prisma.plan.findUnique({ where: { id: subscription.pendingPlanId } })
+      : subscription.plan;
+    const renewalPlan = plan && plan.isActive ? plan : subscription.plan;
+
+    const contact = await this.subscriptionService.resolveContact(subscriptionId, user);
+    const payment = await this.paymentService.createPayment(
+      subscriptionId,
+      renewalPlan.price,
+      renewalPlan.gateway,
+      contact.email,
+      contact.phone,
+      {
+        purpose: PaymentPurpose.RENEWAL,
+        planName: renewalPlan.name,
+        metadata: { renewsEndDate: subscription.endDate, planId: renewalPlan.id },
+      }
+    );
+
+    await this.prisma.subscription.update({
+      where: { id: subscriptionId },
+      data: { renewalPaymentId: payment.id },
+    });
+
+    return payment;
+  }
+}
@@ -1,11 +1,27 @@
-import { PrismaClient, Subscription, Plan } from '@prisma/client';
-import { SubscriptionStatus } from '../../types/enums';
+import { PrismaClient, Subscription, Plan, User, Payment } from '@prisma/client';
+import { SubscriptionStatus, PaymentStatus, PaymentPurpose } from '../../types/enums';
 import { PaymentService } from '../payment/payment.service';
+import { getPaymentGateway, getSupportedGateways } from '../payment/gateways';
 import { NotificationService } from '../notification/notification.service';
-import { CreateSubscriptionInput } from '../../types/subscription.types';
-import { NotFoundError } from '../../utils/errors';
+import { EmailAttachment } from '../notification/email.service';
+import {
+  CreateSubscriptionInput,
+  ChangePlanInput,
+  PlanChangeProration,
+  CancelSubscriptionOptions,
+} from '../../types/subscription.types';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/errors';
+import { toCurrencyCode } from '../../utils/currency';
 import { WebhookService } from '../webhook/webhook.service';
+import { PlanEventData } from '../../types/webhook.types';
 import { AuditService } from '../audit/audit.service';
+import { CouponService } from '../coupon/coupon.service';
+import { InvoiceService } from '../invoice/invoice.service';
+import { env } from '../../config/env';
+import { normalizePhone } from '../../utils/phone';
+
+// A payment completed for a subscription in one of these states must not revive it
+const ENDED_STATUSES: string[] = [SubscriptionStatus.CANCELLED, SubscriptionStatus.EXPIRED];
 
 /**
  * Subscription Service
@@ -26,6 +42,8 @@ export class SubscriptionService {
   private notificationService: NotificationService;
   private webhookService: WebhookService;
   private audit: AuditService;
+  private couponService: CouponService;
+  private invoiceService: InvoiceService;
 
   constructor(prisma: PrismaClient) {
     this.prisma = prisma;
@@ -33,6 +51,8 @@ export class SubscriptionService {
     this.notificationService = new NotificationService();
     this.webhookService = new WebhookService(prisma);
     this.audit = new AuditService(prisma);
+    this.couponService = new CouponService(prisma);
+    this.invoiceService = new InvoiceService(prisma);
   }
 
   /**
@@ -40,15 +60,18 @@ export class SubscriptionService {
    * 
    * This is the main entry point for users starting a subscription. The method:
    * 1. Validates that the plan exists and is active
-   * 2. Creates a subscription record in PENDING status
-   * 3. Creates a payment request for the subscription
-   * 4. Returns the subscription with payment details including the payment link
+   * 2. Starts a free trial instead, if the plan has one and the user is eligible
+   * 3. Otherwise applies the coupon, if given, and creates a subscription
+   *    record in PENDING status
+   * 4. Creates a payment request for the (discounted) amount
+   * 5. Returns the subscription with payment details including the payment link
    * 
    * The user then receives the payment link via SMS/email and can complete payment.
    * Once payment is verified, the subscription will be activated.
    * 
    * @param input - Subscription creation details (userId, planId, contact info, etc.)
    * @returns Created subscription with payment details and payment URL
+   *          (`payment` is null when a trial was started)
    */
   async createSubscription(input: CreateSubscriptionInput) {
     // First, verify the plan exists and is available
@@ -64,6 +87,19 @@ export class SubscriptionService {
       throw new Error('This plan is not currently available');
     }
 
+    if (plan.trialDays && plan.trialDays > 0) {
+      const trial = await this.startTrial(input, plan);
+      if (trial) {
+        return { subscription: trial, payment: null, trial: true };
+      }
+    }
+
+    // Price the plan with the coupon before anything is created, so an
+    // invalid code fails the request without leaving a PENDING subscription
+    const quote = input.couponCode
+      ? await this.couponService.quote(input.couponCode, input.userId, plan)
+      : null;
+
     // Create the subscription in PENDING status
     // It will be activated once payment is verified
     const subscription = await this.prisma.subscription.create({
@@ -78,14 +114,25 @@ export class SubscriptionService {
       },
     });
 
+    await this.dispatchCreated(subscription);
+
     // Create a payment for this subscription
     // This generates the payment link that will be sent to the user
     const payment = await this.paymentService.createPayment(
       subscription.id,
-      plan.price,
+      quote ? quote.amount : plan.price,
       plan.gateway,
       input.userEmail,
-      input.userPhone
+      input.userPhone,
+      quote
+        ? {
+            discount: {
+              couponId: quote.coupon.id,
+              originalAmount: quote.originalAmount,
+              discountAmount: quote.discountAmount,
+            },
+          }
+        : {}
     );
 
     // Return the subscription with payment details
@@ -95,6 +142,9 @@ export class SubscriptionService {
       payment: {
         id: payment.id,
         amount: payment.amount,
+        originalAmount: payment.originalAmount,
+        discountAmount: payment.discountAmount,
+        couponCode: quote?.coupon.code,
         currency: payment.currency,
         paymentUrl: payment.paymentUrl,
         authority: payment.authority,
@@ -103,6 +153,317 @@ export class SubscriptionService {
     };
   }
 
+  /**
+   * Starts a free trial if the user and phone number have never had one
+   * 
+   * Eligibility is enforced by unique constraints on TrialRedemption (one per
+   * user, one per phone number), and the redemption is written in the same
+   * transaction as the subscription. Two concurrent requests therefore cannot
+   * both get a trial, and the same phone cannot farm trials across accounts.
+   * 
+   * @param input - Subscription creation details
+   * @param plan - The plan being subscribed to (must have trialDays)
+   * @returns The TRIALING subscription, or null if the user is not eligible
+   */
+  private async startTrial(input: CreateSubscriptionInput, plan: Plan) {
+    const user = await this.prisma.user.findUnique({ where: { id: input.userId } });
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    const rawPhone = user.phone || input.userPhone;
+    const phone = rawPhone ? normalizePhone(rawPhone) : null;
+
+    const used = await this.prisma.trialRedemption.findFirst({
+      where: { OR: [{ userId: user.id }, ...(phone ? [{ phone }] : [])] },
+    });
+    if (used) return null;
+
+    const startDate = new Date();
+    const trialEndsAt = new Date();
+    trialEndsAt.setDate(trialEndsAt.getDate() + plan.trialDays!);
+
+    let subscription;
+    try {
+      subscription = await this.prisma.$transaction(async tx => {
+        const created = await tx.subscription.create({
+          data: {
+            userId: user.id,
+            planId: plan.id,
+            status: SubscriptionStatus.TRIALING,
+            autoRenew: input.autoRenew || false,
+            startDate,
+            endDate: trialEndsAt,
+            trialEndsAt,
+          },
+          include: { plan: true },
+        });
+        await tx.trialRedemption.create({
+          data: { userId: user.id, phone, planId: plan.id, subscriptionId: created.id },
+        });
+        return created;
+      });
+    } catch (error: any) {
+      // Unique constraint: a concurrent request already used this user's or phone's trial
+      if (error?.code === 'P2002') return null;
+      throw error;
+    }
+
+    await this.audit.log({
+      userId: user.id,
+      action: 'SUBSCRIPTION_TRIAL_STARTED',
+      targetType: 'Subscription',
+      targetId: subscription.id,
+      metadata: { planId: plan.id, trialEndsAt },
+    });
+
+    await this.dispatchCreated(subscription);
+    await this.webhookService.dispatch(
+      user.id,
+      'subscription.trial_started',
+      {
+        id: subscription.id,
+        userId: user.id,
+        planId: plan.id,
+        trialEndsAt,
+      }
+    );
+
+    return subscription;
+  }
+
+  private async dispatchCreated(subscription: Subscription): Promise<void> {
+    await this.webhookService.dispatch(
+      subscription.userId,
+      'subscription.created',
+      {
+        id: subscription.id,
+        userId: subscription.userId,
+        planId: subscription.planId,
+        status: subscription.status,
+        autoRenew: subscription.autoRenew,
+        trialEndsAt: subscription.trialEndsAt,
+      }
+    );
+  }
+
+  /**
+   * Opens the payment that converts a trial into a paid subscription
+   * 
+   * A conversion payment that is still open is returned instead of opening
+   * another one, so the trial can only be paid once.
+   * 
+   * @param subscriptionId - The TRIALING subscription
+   * @param userEmail - User's email for the payment link (defaults to the owner's)
+   * @param userPhone - User's phone for the payment link (defaults to the owner's)
+   * @param notify - Whether createPayment should send the link itself
+   * @returns The open or newly created payment
+   */
+  async createTrialConversionPayment(
+    subscriptionId: string,
+    userEmail?: string,
+    userPhone?: string,
+    notify: boolean = true
+  ): Promise<Payment> {
+    const subscription = await this.prisma.subscription.findUnique({
+      where: { id: subscriptionId },
+      include: { plan: true, user: true },
+    });
+
+    if (!subscription) {
+      throw new NotFoundError('Subscription');
+    }
+
+    if (subscription.status !== SubscriptionStatus.TRIALING) {
+      throw new ValidationError('Only a subscription in trial can be paid this way');
+    }
+
+    const open = await this.prisma.payment.findFirst({
+      where: {
+        subscriptionId: subscription.id,
+        purpose: PaymentPurpose.TRIAL_CONVERSION,
+        status: { in: [PaymentStatus.PENDING, PaymentStatus.VERIFYING] },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (open) return open;
+
+    const contact = userEmail || userPhone
+      ? { email: userEmail, phone: userPhone }
+      : await this.resolveContact(subscription.id, subscription.user);
+
+    return this.paymentService.createPayment(
+      subscription.id,
+      subscription.plan.price,
+      subscription.plan.gateway,
+      contact.email,
+      contact.phone,
+      {
+        purpose: PaymentPurpose.TRIAL_CONVERSION,
+        metadata: { trialEndsAt: subscription.trialEndsAt },
+        notify,
+      }
+    );
+  }
+
+  /**
+   * Converts a trial into a paid period after its payment is verified
+   * 
+   * Paying before the trial ends keeps the remaining trial days: the paid
+   * period starts when the trial would have ended. Paying after the trial
+   * has lapsed starts the period now.
+   * 
+   * @param subscriptionId - The subscription to convert
+   * @param userEmail - User's email for notification
+   * @param userPhone - User's phone for notification
+   * @param attachments - Files for the activation email, e.g. the invoice
+   * @returns Updated ACTIVE subscription
+   * @throws ConflictError if the subscription is no longer in trial
+   */
+  async convertTrial(
+    subscriptionId: string,
+    userEmail?: string,
+    userPhone?: string,
+    attachments?: EmailAttachment[]
+  ): Promise<Subscription> {
+    const subscription = await this.prisma.subscription.findUnique({
+      where: { id: subscriptionId },
+      include: { plan: true },
+    });
+
+    if (!subscription) {
+      throw new NotFoundError('Subscription');
+    }
+
+    const now = new Date();
+    const base = subscription.trialEndsAt && subscription.trialEndsAt > now
+      ? subscription.trialEndsAt
+      : now;
+    const endDate = new Date(base);
+    endDate.setDate(endDate.getDate() + subscription.plan.duration);
+
+    // Conditional on TRIALING, so a second conversion payment cannot move
+    // the paid period again
+    const converted = await this.prisma.subscription.updateMany({
+      where: { id: subscriptionId, status: SubscriptionStatus.TRIALING },
+      data: {
+        status: SubscriptionStatus.ACTIVE,
+        startDate: subscription.startDate || now,
+        endDate,
+      },
+    });
+    if (converted.count === 0) {
+      throw new ConflictError('Subscription is no longer in trial');
+    }
+    const updatedSubscription = await this.prisma.subscription.findUniqueOrThrow({
+      where: { id: subscriptionId },
+    });
+
+    await this.notificationService.sendSubscriptionActivated(
+      userEmail,
+      userPhone,
+      subscription.plan.name,
+      endDate,
+      attachments
+    );
+
+    await this.audit.log({
+      userId: updatedSubscription.userId,
+      action: 'SUBSCRIPTION_TRIAL_CONVERTED',
+      targetType: 'Subscription',
+      targetId: updatedSubscription.id,
+      metadata: { planId: updatedSubscription.planId, trialEndsAt: subscription.trialEndsAt, endDate },
+    });
+
+    await this.webhookService.dispatch(
+      updatedSubscription.userId,
+      'subscription.trial_converted',
+      {
+        id: updatedSubscription.id,
+        userId: updatedSubscription.userId,
+        planId: updatedSubscription.planId,
+        trialEndsAt: subscription.trialEndsAt,
+        startDate: updatedSubscription.startDate,
+        endDate: updatedSubscription.endDate,
+      }
+    );
+
+    return updatedSubscription;
+  }
+
+  /**
+   * Reminds users whose trial is about to end
+   * 
+   * For each TRIALING subscription ending within TRIAL_REMINDER_DAYS, opens
+   * the conversion payment and sends one notification that includes its link,
+   * and dispatches `subscription.trial_ending`. The reminder is claimed with a
+   * conditional update first, so it is sent only once even with several runners.
+   * 
+   * @param limit - Maximum number of subscriptions to process
+   * @returns Number of reminders sent
+   */
+  async sendTrialEndingReminders(limit: number = 100): Promise<number> {
+    const now = new Date();
+    const windowEnd = new Date(now);
+    windowEnd.setDate(windowEnd.getDate() + env.TRIAL.REMINDER_DAYS);
+
+    const ending = await this.prisma.subscription.findMany({
+      where: {
+        status: SubscriptionStatus.TRIALING,
+        cancelAtPeriodEnd: false,
+        trialReminderSentAt: null,
+        trialEndsAt: { gt: now, lte: windowEnd },
+      },
+      include: { plan: true, user: true },
+      take: limit,
+    });
+
+    let sent = 0;
+    for (const subscription of ending) {
+      const claim = await this.prisma.subscription.updateMany({
+        where: { id: subscription.id, trialReminderSentAt: null },
+        data: { trialReminderSentAt: now },
+      });
+      if (claim.count === 0) continue;
+
+      const contact = await this.resolveContact(subscription.id, subscription.user);
+      let paymentUrl: string | undefined;
+      try {
+        const payment = await this.createTrialConversionPayment(
+          subscription.id,
+          contact.email,
+          contact.phone,
+          false
+        );
+        paymentUrl = payment.paymentUrl;
+      } catch (error: any) {
+        console.error(`[Trial] Failed to open conversion payment for ${subscription.id}:`, error?.message || error);
+      }
+
+      await this.notificationService.sendTrialEnding(
+        contact.email,
+        contact.phone,
+        subscription.plan.name,
+        subscription.trialEndsAt!,
+        paymentUrl
+      );
+
+      await this.webhookService.dispatch(
+        subscription.userId,
+        'subscription.trial_ending',
+        {
+          id: subscription.id,
+          userId: subscription.userId,
+          planId: subscription.planId,
+          trialEndsAt: subscription.trialEndsAt,
+        }
+      );
+      sent++;
+    }
+
+    return sent;
+  }
+
   /**
    * Activates a subscription after successful payment
    * 
@@ -116,12 +477,15 @@ export class SubscriptionService {
    * @param subscriptionId - The subscription to activate
    * @param userEmail - User's email for notification
    * @param userPhone - User's phone for notification
+   * @param attachments - Files for the activation email, e.g. the invoice
    * @returns Updated subscription with active status and dates
+   * @throws ConflictError if the subscription was cancelled or has expired
    */
   async activateSubscription(
     subscriptionId: string,
     userEmail?: string,
-    userPhone?: string
+    userPhone?: string,
+    attachments?: EmailAttachment[]
   ): Promise<Subscription> {
     // Get the subscription with its plan details
     const subscription = await this.prisma.subscription.findUnique({
@@ -138,14 +502,20 @@ export class SubscriptionService {
     const endDate = new Date();
     endDate.setDate(endDate.getDate() + subscription.plan.duration);
 
-    // Update the subscription to ACTIVE status
-    const updatedSubscription = await this.prisma.subscription.update({
-      where: { id: subscriptionId },
+    // Update the subscription to ACTIVE status, unless it has ended meanwhile
+    const activated = await this.prisma.subscription.updateMany({
+      where: { id: subscriptionId, status: { notIn: ENDED_STATUSES } },
       data: {
         status: SubscriptionStatus.ACTIVE,
         startDate,
         endDate,
       },
+    });
+    if (activated.count === 0) {
+      throw new ConflictError('Subscription was cancelled or has expired');
+    }
+    const updatedSubscription = await this.prisma.subscription.findUniqueOrThrow({
+      where: { id: subscriptionId },
       include: { plan: true },
     });
 
@@ -154,7 +524,8 @@ export class SubscriptionService {
       userEmail,
       userPhone,
       subscription.plan.name,
-      endDate
+      endDate,
+      attachments
     );
 
     await this.audit.log({
@@ -180,6 +551,517 @@ export class SubscriptionService {
     return updatedSubscription;
   }
 
+  /**
+   * Applies a verified payment to its subscription
+   * 
+   * This is the single place that decides what a completed payment means for
+   * the subscription it belongs to. A renewal invoice extends the existing
+   * subscription, a plan-change payment switches it to the new plan, a trial
+   * conversion starts the paid period, and any other payment activates it.
+   * 
+   * A payment is applied at most once: it is claimed by setting fulfilledAt
+   * with a conditional update, and a payment that was already fulfilled just
+   * returns the subscription. If applying it fails, the claim is released so
+   * the next verify or reconcile attempt can retry. A payment that arrives
+   * after its subscription was cancelled or expired is never applied; the
+   * operators are alerted to refund it.
+   * 
+   * @param payment - The payment that was just verified as COMPLETED
+   * @returns Updated subscription
+   */
+  async handlePaymentCompleted(payment: Payment): Promise<Subscription> {
+    const claim = await this.prisma.payment.updateMany({
+      where: { id: payment.id, status: PaymentStatus.COMPLETED, fulfilledAt: null },
+      data: { fulfilledAt: new Date() },
+    });
+
+    if (claim.count === 0) {
+      const subscription = await this.prisma.subscription.findUnique({
+        where: { id: payment.subscriptionId },
+      });
+      if (!subscription) {
+        throw new NotFoundError('Subscription');
+      }
+      return subscription;
+    }
+
+    try {
+      return await this.applyCompletedPayment(payment);
+    } catch (error) {
+      await this.prisma.payment.update({
+        where: { id: payment.id },
+        data: { fulfilledAt: null },
+      });
+      if (error instanceof ConflictError) {
+        // Paid for a subscription that has ended: the money has to go back
+        await this.notificationService.sendAdminAlert('Payment for an ended subscription needs a refund', {
+          paymentId: payment.id,
+          subscriptionId: payment.subscriptionId,
+          purpose: payment.purpose,
+          amount: payment.amount,
+          currency: payment.currency,
+          reason: error.message,
+        });
+      }
+      throw error;
+    }
+  }
+
+  private async applyCompletedPayment(payment: Payment): Promise<Subscription> {
+    const userEmail = payment.userEmail || undefined;
+    const userPhone = payment.userPhone || undefined;
+    const metadata = payment.metadata ? JSON.parse(payment.metadata) : {};
+    const attachments = await this.invoiceAttachments(payment);
+
+    if (payment.purpose === PaymentPurpose.RENEWAL) {
+      return this.renewSubscription(payment.subscriptionId, userEmail, userPhone, metadata.planId, attachments);
+    }
+
+    if (payment.purpose === PaymentPurpose.TRIAL_CONVERSION) {
+      return this.convertTrial(payment.subscriptionId, userEmail, userPhone, attachments);
+    }
+
+    if (payment.purpose === PaymentPurpose.PLAN_CHANGE) {
+      return this.applyPlanChange(payment.subscriptionId, metadata.targetPlanId, userEmail, userPhone, {
+        paymentId: payment.id,
+        unusedCredit: metadata.unusedCredit,
+        amountDue: payment.amount,
+      }, attachments);
+    }
+
+    return this.activateSubscription(payment.subscriptionId, userEmail, userPhone, attachments);
+  }
+
+  /**
+   * Issues the payment's invoice and renders it for the activation email:
+   * as PDF when a renderer is configured, otherwise as HTML.
+   * 
+   * Invoicing never holds up activation. If it fails, the invoice is
+   * issued the next time the user or an admin asks for it.
+   */
+  private async invoiceAttachments(payment: Payment): Promise<EmailAttachment[] | undefined> {
+    try {
+      const invoice = await this.invoiceService.issueForPayment(payment);
+      if (!invoice) return undefined;
+      const document = await this.invoiceService.render(invoice, 'pdf', true);
+      return [{ filename: document.filename, content: document.content, contentType: document.contentType }];
+    } catch (error: any) {
+      console.error(`[Subscription] Failed to invoice payment ${payment.id}:`, error.message);
+      return undefined;
+    }
+  }
+
+  /**
+   * Extends a subscription by one plan period after a renewal payment
+   * 
+   * The new period starts where the current one ends, so paying a renewal
+   * invoice early never shortens the time the user already paid for. Paying
+   * during the grace period recovers a PAST_DUE subscription. If the
+   * subscription has already expired, the new period starts now.
+   * 
+   * If the renewal was priced for a different plan (a scheduled downgrade),
+   * the subscription switches to that plan for the new period.
+   * 
+   * @param subscriptionId - The subscription to renew
+   * @param userEmail - User's email for notification
+   * @param userPhone - User's phone for notification
+   * @param planId - Plan the renewal payment was priced for (defaults to the current plan)
+   * @param attachments - Files for the activation email, e.g. the invoice
+   * @returns Updated subscription with the extended endDate
+   * @throws ConflictError if the subscription was cancelled or has expired
+   */
+  async renewSubscription(
+    subscriptionId: string,
+    userEmail?: string,
+    userPhone?: string,
+    planId?: string,
+    attachments?: EmailAttachment[]
+  ): Promise<Subscription> {
+    const subscription = await this.prisma.subscription.findUnique({
+      where: { id: subscriptionId },
+      include: { plan: true },
+    });
+
+    if (!subscription) {
+      throw new NotFoundError('Subscription');
+    }
+    // Expiry and cancellation void the renewal invoice; one that was already
+    // being verified at that moment must not bring the subscription back
+    if (ENDED_STATUSES.includes(subscription.status)) {
+      throw new ConflictError('Subscription was cancelled or has expired');
+    }
+
+    let plan = subscription.plan;
+    if (planId && planId !== subscription.planId) {
+      const renewalPlan = await this.prisma.plan.findUnique({ where: { id: planId } });
+      if (!renewalPlan) {
+        throw new NotFoundError('Plan');
+      }
+      plan = renewalPlan;
+    }
+
+    const now = new Date();
+    const recovered = subscription.status === SubscriptionStatus.PAST_DUE;
+    // A past-due subscription kept access during the grace period, so the
+    // new period continues from the old endDate rather than from today.
+    const base = subscription.endDate && (recovered || subscription.endDate > now)
+      ? subscription.endDate
+      : now;
+    const endDate = new Date(base);
+    endDate.setDate(endDate.getDate() + plan.duration);
+
+    const updatedSubscription = await this.prisma.subscription.update({
+      where: { id: subscriptionId },
+      data: {
+        status: SubscriptionStatus.ACTIVE,
+        planId: plan.id,
+        pendingPlanId: null,
+        startDate: subscription.startDate || now,
+        endDate,
+        renewalPaymentId: null,
+        renewalOpenedAt: null,
+        renewalRemindersSent: 0,
+        graceEndsAt: null,
+        dunningRemindersSent: 0,
+      },
+    });
+
+    await this.notificationService.sendSubscriptionActivated(
+      userEmail,
+      userPhone,
+      plan.name,
+      endDate,
+      attachments
+    );
+
+    if (plan.id !== subscription.planId) {
+      await this.recordPlanChange(updatedSubscription, subscription.planId, { scheduled: true });
+    }
+
+    await this.audit.log({
+      userId: updatedSubscription.userId,
+      action: recovered ? 'SUBSCRIPTION_RECOVERED' : 'SUBSCRIPTION_RENEWED',
+      targetType: 'Subscription',
+      targetId: updatedSubscription.id,
+      metadata: {
+        planId: updatedSubscription.planId,
+        previousEndDate: subscription.endDate,
+        endDate,
+      },
+    });
+
+    await this.webhookService.dispatch(
+      updatedSubscription.userId,
+      recovered ? 'subscription.recovered' : 'subscription.renewed',
+      {
+        id: updatedSubscription.id,
+        userId: updatedSubscription.userId,
+        planId: updatedSubscription.planId,
+        previousEndDate: subscription.endDate,
+        endDate: updatedSubscription.endDate,
+      }
+    );
+
+    return updatedSubscription;
+  }
+
+  /**
+   * Changes the plan of an active subscription
+   * 
+   * The unused part of the current period is worth a prorated credit:
+   * `currentPrice * remainingTime / periodLength`.
+   * - Upgrade (new plan costs more): a payment for `newPrice - credit` is opened
+   *   through the new plan's gateway. Once it is verified, the subscription
+   *   switches to the new plan and a full new period starts.
+   * - Downgrade (new plan costs the same or less): nothing is charged now. The
+   *   change is scheduled for the end of the current period and applied by the
+   *   next renewal. Any renewal invoice already open for the old price is
+   *   voided and the renewal reopened, so the next renewal run opens an
+   *   invoice at the new price and sends its link.
+   * 
+   * Choosing the current plan while a downgrade is scheduled undoes it, and
+   * likewise replaces a renewal invoice opened at the downgraded price.
+   * 
+   * @param input - Subscription, target plan and optional contact info for the payment link
+   * @returns What happened, with the proration and either the payment or the effective date
+   */
+  async changePlan(input: ChangePlanInput) {
+    const subscription = await this.prisma.subscription.findUnique({
+      where: { id: input.subscriptionId },
+      include: { plan: true },
+    });
+
+    if (!subscription) {
+      throw new NotFoundError('Subscription');
+    }
+
+    const now = new Date();
+    if (
+      subscription.status !== SubscriptionStatus.ACTIVE ||
+      !subscription.startDate ||
+      !subscription.endDate ||
+      subscription.endDate <= now
+    ) {
+      throw new ValidationError('Only an active subscription can change plans');
+    }
+    if (subscription.cancelAtPeriodEnd) {
+      throw new ValidationError('Undo the scheduled cancellation before changing plans');
+    }
+
+    if (input.planId === subscription.planId) {
+      if (!subscription.pendingPlanId) {
+        throw new ValidationError('Subscription is already on this plan');
+      }
+      const updated = await this.prisma.subscription.update({
+        where: { id: subscription.id },
+        data: { pendingPlanId: null, ...this.reopenRenewal(subscription) },
+      });
+      if (subscription.renewalPaymentId) {
+        await this.paymentService.voidOpenPayments({ id: subscription.renewalPaymentId });
+      }
+      await this.audit.log({
+        userId: subscription.userId,
+        action: 'SUBSCRIPTION_DOWNGRADE_UNSCHEDULED',
+        targetType: 'Subscription',
+        targetId: subscription.id,
+        metadata: { planId: subscription.planId, pendingPlanId: subscription.pendingPlanId },
+      });
+      return { type: 'unscheduled' as const, subscription: updated };
+    }
+
+    const newPlan = await this.prisma.plan.findUnique({ where: { id: input.planId } });
+    if (!newPlan) {
+      throw new NotFoundError('Plan');
+    }
+    if (!newPlan.isActive) {
+      throw new ValidationError('This plan is not currently available');
+    }
+    if (newPlan.currency !== subscription.plan.currency) {
+      throw new ValidationError('Cannot switch between plans with different currencies');
+    }
+
+    const proration = this.calculateProration(subscription, subscription.plan, newPlan, now);
+
+    if (newPlan.price > subscription.plan.price) {
+      const payment = await this.paymentService.createPayment(
+        subscription.id,
+        proration.amountDue,
+        newPlan.gateway,
+        input.userEmail,
+        input.userPhone,
+        {
+          purpose: PaymentPurpose.PLAN_CHANGE,
+          planName: newPlan.name,
+          metadata: {
+            fromPlanId: subscription.planId,
+            targetPlanId: newPlan.id,
+            unusedCredit: proration.unusedCredit,
+          },
+        }
+      );
+
+      await this.audit.log({
+        userId: subscription.userId,
+        action: 'SUBSCRIPTION_UPGRADE_REQUESTED',
+        targetType: 'Subscription',
+        targetId: subscription.id,
+        metadata: { fromPlanId: subscription.planId, toPlanId: newPlan.id, paymentId: payment.id, ...proration },
+      });
+
+      return {
+        type: 'upgrade' as const,
+        subscription,
+        proration,
+        payment: {
+          id: payment.id,
+          amount: payment.amount,
+          currency: payment.currency,
+          paymentUrl: payment.paymentUrl,
+          authority: payment.authority,
+          status: payment.status,
+        },
+      };
+    }
+
+    const updated = await this.prisma.subscription.update({
+      where: { id: subscription.id },
+      data: { pendingPlanId: newPlan.id, ...this.reopenRenewal(subscription) },
+    });
+    if (subscription.renewalPaymentId) {
+      await this.paymentService.voidOpenPayments({ id: subscription.renewalPaymentId });
+    }
+
+    await this.audit.log({
+      userId: subscription.userId,
+      action: 'SUBSCRIPTION_DOWNGRADE_SCHEDULED',
+      targetType: 'Subscription',
+      targetId: subscription.id,
+      metadata: { fromPlanId: subscription.planId, toPlanId: newPlan.id, effectiveAt: subscription.endDate },
+    });
+
+    return {
+      type: 'downgrade' as const,
+      subscription: updated,
+      proration: { ...proration, amountDue: 0 },
+      effectiveAt: subscription.endDate,
+    };
+  }
+
+  /**
+   * Fields that drop an open renewal invoice so the renewal job opens a new
+   * one at the current price; nothing when no invoice is open
+   */
+  private reopenRenewal(subscription: Pick<Subscription, 'renewalPaymentId'>) {
+    return subscription.renewalPaymentId
+      ? { renewalPaymentId: null, renewalOpenedAt: null, renewalRemindersSent: 0 }
+      : {};
+  }
+
+  /**
+   * Switches a subscription to a new plan after its upgrade payment is verified
+   * 
+   * The prorated credit was already taken off the payment, so the subscription
+   * starts a full period of the new plan from now.
+   * 
+   * @param subscriptionId - The subscription being upgraded
+   * @param planId - The plan paid for
+   * @param userEmail - User's email for notification
+   * @param userPhone - User's phone for notification
+   * @param details - Payment and proration details recorded with the change
+   * @param attachments - Files for the activation email, e.g. the invoice
+   * @returns Updated subscription on the new plan
+   * @throws ConflictError if the subscription was cancelled or has expired
+   */
+  async applyPlanChange(
+    subscriptionId: string,
+    planId: string,
+    userEmail?: string,
+    userPhone?: string,
+    details: Record<string, any> = {},
+    attachments?: EmailAttachment[]
+  ): Promise<Subscription> {
+    const subscription = await this.prisma.subscription.findUnique({
+      where: { id: subscriptionId },
+    });
+    if (!subscription) {
+      throw new NotFoundError('Subscription');
+    }
+    if (ENDED_STATUSES.includes(subscription.status)) {
+      throw new ConflictError('Subscription was cancelled or has expired');
+    }
+
+    const plan = await this.prisma.plan.findUnique({ where: { id: planId } });
+    if (!plan) {
+      throw new NotFoundError('Plan');
+    }
+
+    const startDate = new Date();
+    const endDate = new Date();
+    endDate.setDate(endDate.getDate() + plan.duration);
+
+    // A renewal invoice opened for the old plan is no longer valid
+    if (subscription.renewalPaymentId) {
+      await this.paymentService.voidOpenPayments({ id: subscription.renewalPaymentId });
+    }
+
+    const switched = await this.prisma.subscription.updateMany({
+      where: { id: subscriptionId, status: { notIn: ENDED_STATUSES } },
+      data: {
+        planId: plan.id,
+        pendingPlanId: null,
+        status: SubscriptionStatus.ACTIVE,
+        startDate,
+        endDate,
+        renewalPaymentId: null,
+        renewalOpenedAt: null,
+        renewalRemindersSent: 0,
+        graceEndsAt: null,
+        dunningRemindersSent: 0,
+      },
+    });
+    if (switched.count === 0) {
+      throw new ConflictError('Subscription was cancelled or has expired');
+    }
+    const updatedSubscription = await this.prisma.subscription.findUniqueOrThrow({
+      where: { id: subscriptionId },
+    });
+
+    await this.notificationService.sendSubscriptionActivated(
+      userEmail,
+      userPhone,
+      plan.name,
+      endDate,
+      attachments
+    );
+
+    await this.recordPlanChange(updatedSubscription, subscription.planId, details);
+
+    return updatedSubscription;
+  }
+
+  /**
+   * Works out the prorated credit for leaving the current plan now
+   * 
+   * @param subscription - The subscription with its current period
+   * @param currentPlan - The plan being left
+   * @param newPlan - The plan being switched to
+   * @param now - Point in time the change is priced at
+   * @returns Prices, unused credit and the amount due for an immediate switch
+   */
+  private calculateProration(
+    subscription: Pick<Subscription, 'startDate' | 'endDate'>,
+    currentPlan: Plan,
+    newPlan: Plan,
+    now: Date
+  ): PlanChangeProration {
+    const periodMs = subscription.endDate!.getTime() - subscription.startDate!.getTime();
+    const remainingMs = Math.max(0, subscription.endDate!.getTime() - now.getTime());
+    const ratio = periodMs > 0 ? Math.min(1, remainingMs / periodMs) : 0;
+    const unusedCredit = Math.floor(currentPlan.price * ratio);
+
+    return {
+      currentPlanPrice: currentPlan.price,
+      newPlanPrice: newPlan.price,
+      unusedCredit,
+      amountDue: Math.max(0, newPlan.price - unusedCredit),
+    };
+  }
+
+  /**
+   * Writes the audit entry and dispatches `subscription.plan_changed`
+   * 
+   * @param subscription - The subscription after the change
+   * @param fromPlanId - The plan it was on before
+   * @param details - Extra context (proration, payment, scheduled)
+   */
+  private async recordPlanChange(
+    subscription: Subscription,
+    fromPlanId: string,
+    details: Record<string, any>
+  ): Promise<void> {
+    await this.audit.log({
+      userId: subscription.userId,
+      action: 'SUBSCRIPTION_PLAN_CHANGED',
+      targetType: 'Subscription',
+      targetId: subscription.id,
+      metadata: { fromPlanId, toPlanId: subscription.planId, ...details },
+    });
+
+    await this.webhookService.dispatch(
+      subscription.userId,
+      'subscription.plan_changed',
+      {
+        id: subscription.id,
+        userId: subscription.userId,
+        fromPlanId,
+        toPlanId: subscription.planId,
+        startDate: subscription.startDate,
+        endDate: subscription.endDate,
+        ...details,
+      }
+    );
+  }
+
   /**
    * Gets a subscription by ID with plan details
    * 
@@ -229,20 +1111,30 @@ export class SubscriptionService {
   /**
    * Gets a user's active subscription
    * 
-   * This checks if the user has any active subscription and returns it.
-   * Useful for checking if a user has access to premium features.
+   * This checks if the user has any subscription that currently grants access
+   * and returns it. Useful for checking if a user has access to premium features.
+   * A TRIALING subscription counts as access, and so does a PAST_DUE one
+   * still inside its grace period;
+   * callers can check `status` to warn the user that payment is overdue.
    * 
    * @param userId - The user's ID
-   * @returns Active subscription or null if none exists
+   * @returns Active or past-due subscription, or null if none exists
    */
   async getActiveSubscription(userId: string) {
+    const now = new Date();
     return this.prisma.subscription.findFirst({
       where: {
         userId,
-        status: SubscriptionStatus.ACTIVE,
-        endDate: {
-          gte: new Date(), // End date is in the future
-        },
+        OR: [
+          {
+            status: { in: [SubscriptionStatus.ACTIVE, SubscriptionStatus.TRIALING] },
+            endDate: { gte: now }, // End date is in the future
+          },
+          {
+            status: SubscriptionStatus.PAST_DUE,
+            graceEndsAt: { gte: now },
+          },
+        ],
       },
       include: {
         plan: true,
@@ -250,17 +1142,192 @@ export class SubscriptionService {
     });
   }
 
+  /**
+   * Moves lapsed auto-renewing subscriptions into their grace period
+   * 
+   * An auto-renewing subscription whose renewal has not been paid by endDate
+   * becomes PAST_DUE instead of EXPIRED. The user keeps access until graceEndsAt
+   * while dunning reminders are sent. Like the expiry sweep, the update is
+   * conditional on the row still being ACTIVE so concurrent sweeps are safe.
+   * 
+   * @param limit - Maximum number of subscriptions to process in one sweep
+   * @returns Number of subscriptions moved to PAST_DUE by this call
+   */
+  async startGracePeriods(limit: number = 100): Promise<number> {
+    if (env.GRACE.DAYS <= 0) return 0;
+
+    const now = new Date();
+    const lapsed = await this.prisma.subscription.findMany({
+      where: {
+        status: SubscriptionStatus.ACTIVE,
+        autoRenew: true,
+        cancelAtPeriodEnd: false,
+        endDate: { lt: now },
+      },
+      orderBy: { endDate: 'asc' },
+      take: limit,
+    });
+
+    let started = 0;
+    for (const subscription of lapsed) {
+      const graceEndsAt = new Date(subscription.endDate!);
+      graceEndsAt.setDate(graceEndsAt.getDate() + env.GRACE.DAYS);
+
+      const result = await this.prisma.subscription.updateMany({
+        where: { id: subscription.id, status: SubscriptionStatus.ACTIVE },
+        data: {
+          status: SubscriptionStatus.PAST_DUE,
+          graceEndsAt,
+          dunningRemindersSent: 0,
+        },
+      });
+      if (result.count === 0) continue;
+      started++;
+
+      await this.audit.log({
+        userId: subscription.userId,
+        action: 'SUBSCRIPTION_PAST_DUE',
+        targetType: 'Subscription',
+        targetId: subscription.id,
+        metadata: { endDate: subscription.endDate, graceEndsAt },
+      });
+
+      await this.webhookService.dispatch(
+        subscription.userId,
+        'subscription.past_due',
+        {
+          id: subscription.id,
+          userId: subscription.userId,
+          planId: subscription.planId,
+          endDate: subscription.endDate,
+          graceEndsAt,
+        }
+      );
+    }
+
+    return started;
+  }
+
+  /**
+   * Expires subscriptions whose paid period (and grace period) has ended
+   * 
+   * Finds ACTIVE subscriptions with an endDate in the past that are not eligible
+   * for a grace period, PAST_DUE subscriptions whose graceEndsAt has passed, and
+   * trials that ended without being paid, and moves each one to EXPIRED. The update is conditional on the row still
+   * having the status it was read with, so when several instances sweep at the
+   * same time only one of them wins a given subscription and emits its events.
+   * For every subscription expired here:
+   * 1. Its open renewal or trial conversion payment is voided (FAILED), so a
+   *    link left in an old reminder can no longer be paid
+   * 2. A `subscription.expired` webhook is dispatched
+   * 3. An audit entry is written
+   * 4. The user is notified that their access has ended
+   * 
+   * @param limit - Maximum number of subscriptions to process in one sweep
+   * @returns Number of subscriptions expired by this call
+   */
+  async expireLapsedSubscriptions(limit: number = 100): Promise<number> {
+    const now = new Date();
+    const lapsed = await this.prisma.subscription.findMany({
+      where: {
+        OR: [
+          {
+            status: SubscriptionStatus.ACTIVE,
+            cancelAtPeriodEnd: false,
+            endDate: { lt: now },
+            ...(env.GRACE.DAYS > 0 ? { autoRenew: false } : {}),
+          },
+          {
+            status: SubscriptionStatus.PAST_DUE,
+            graceEndsAt: { lt: now },
+          },
+          {
+            status: SubscriptionStatus.TRIALING,
+            cancelAtPeriodEnd: false,
+            endDate: { lt: now },
+          },
+        ],
+      },
+      include: { plan: true, user: true },
+      orderBy: { endDate: 'asc' },
+      take: limit,
+    });
+
+    let expired = 0;
+    for (const subscription of lapsed) {
+      const result = await this.prisma.subscription.updateMany({
+        where: { id: subscription.id, status: subscription.status },
+        data: { status: SubscriptionStatus.EXPIRED, renewalPaymentId: null },
+      });
+      if (result.count === 0) continue;
+      expired++;
+
+      await this.paymentService.voidOpenPayments({
+        subscriptionId: subscription.id,
+        OR: [
+          ...(subscription.renewalPaymentId ? [{ id: subscription.renewalPaymentId }] : []),
+          { purpose: PaymentPurpose.TRIAL_CONVERSION },
+        ],
+      });
+
+      await this.audit.log({
+        userId: subscription.userId,
+        action: 'SUBSCRIPTION_EXPIRED',
+        targetType: 'Subscription',
+        targetId: subscription.id,
+        metadata: {
+          planId: subscription.planId,
+          endDate: subscription.endDate,
+          graceEndsAt: subscription.graceEndsAt,
+        },
+      });
+
+      await this.webhookService.dispatch(
+        subscription.userId,
+        'subscription.expired',
+        {
+          id: subscription.id,
+          userId: subscription.userId,
+          planId: subscription.planId,
+          startDate: subscription.startDate,
+          endDate: subscription.endDate,
+          expiredAt: now,
+        }
+      );
+
+      const contact = await this.resolveContact(subscription.id, subscription.user);
+      await this.notificationService.sendSubscriptionExpired(
+        contact.email,
+        contact.phone,
+        subscription.plan.name
+      );
+    }
+
+    return expired;
+  }
+
   /**
    * Cancels a subscription
    * 
-   * This sets the subscription status to CANCELLED. The user typically keeps
-   * access until their current period ends (based on endDate), but they won't
-   * be charged again.
+   * Two modes are supported:
+   * - At period end (default): the subscription stays ACTIVE (or TRIALING)
+   *   until endDate and is not renewed. applyScheduledCancellations then moves
+   *   it to CANCELLED. This can be undone with resumeSubscription until endDate.
+   * - Immediate: the subscription is CANCELLED now and access ends right away.
+   * 
+   * Either way, every open payment for the subscription (renewal invoice,
+   * trial conversion, upgrade) is voided and a scheduled downgrade is dropped.
+   * A subscription that has no current period left (PENDING, PAST_DUE) is
+   * always cancelled immediately.
    * 
    * @param subscriptionId - The subscription to cancel
+   * @param options - Whether to wait for the period end, and an optional reason
    * @returns Updated subscription
    */
-  async cancelSubscription(subscriptionId: string): Promise<Subscription> {
+  async cancelSubscription(
+    subscriptionId: string,
+    options: CancelSubscriptionOptions = {}
+  ): Promise<Subscription> {
     const subscription = await this.prisma.subscription.findUnique({
       where: { id: subscriptionId },
     });
@@ -269,13 +1336,233 @@ export class SubscriptionService {
       throw new NotFoundError('Subscription');
     }
 
-    return this.prisma.subscription.update({
+    if (
+      subscription.status === SubscriptionStatus.CANCELLED ||
+      subscription.status === SubscriptionStatus.EXPIRED
+    ) {
+      throw new ValidationError(`Subscription is already ${subscription.status.toLowerCase()}`);
+    }
+
+    const now = new Date();
+    const atPeriodEnd =
+      (options.atPeriodEnd ?? true) &&
+      (subscription.status === SubscriptionStatus.ACTIVE ||
+        subscription.status === SubscriptionStatus.TRIALING) &&
+      Boolean(subscription.endDate && subscription.endDate > now);
+
+    await this.paymentService.voidOpenPayments({ subscriptionId: subscription.id });
+
+    if (atPeriodEnd) {
+      const updated = await this.prisma.subscription.update({
+        where: { id: subscriptionId },
+        data: {
+          cancelAtPeriodEnd: true,
+          cancellationReason: options.reason,
+          pendingPlanId: null,
+          renewalPaymentId: null,
+          renewalOpenedAt: null,
+          renewalRemindersSent: 0,
+        },
+      });
+
+      await this.audit.log({
+        userId: updated.userId,
+        action: 'SUBSCRIPTION_CANCELLATION_SCHEDULED',
+        targetType: 'Subscription',
+        targetId: updated.id,
+        metadata: { reason: options.reason, effectiveAt: updated.endDate },
+      });
+
+      await this.webhookService.dispatch(
+        updated.userId,
+        'subscription.cancellation_scheduled',
+        {
+          id: updated.id,
+          userId: updated.userId,
+          planId: updated.planId,
+          endDate: updated.endDate,
+          reason: options.reason,
+        }
+      );
+
+      return updated;
+    }
+
+    const updated = await this.prisma.subscription.update({
       where: { id: subscriptionId },
       data: {
         status: SubscriptionStatus.CANCELLED,
         autoRenew: false,
+        cancelAtPeriodEnd: false,
+        cancelledAt: now,
+        cancellationReason: options.reason,
+        pendingPlanId: null,
+        renewalPaymentId: null,
+        graceEndsAt: null,
+      },
+    });
+
+    await this.recordCancellation(updated, { immediate: true });
+
+    return updated;
+  }
+
+  /**
+   * Undoes a cancellation scheduled for the end of the period
+   * 
+   * @param subscriptionId - The subscription to keep
+   * @returns Updated subscription
+   */
+  async resumeSubscription(subscriptionId: string): Promise<Subscription> {
+    const subscription = await this.prisma.subscription.findUnique({
+      where: { id: subscriptionId },
+    });
+
+    if (!subscription) {
+      throw new NotFoundError('Subscription');
+    }
+
+    const now = new Date();
+    if (
+      !subscription.cancelAtPeriodEnd ||
+      (subscription.status !== SubscriptionStatus.ACTIVE &&
+        subscription.status !== SubscriptionStatus.TRIALING) ||
+      !subscription.endDate ||
+      subscription.endDate <= now
+    ) {
+      throw new ValidationError('Subscription has no scheduled cancellation to undo');
+    }
+
+    const updated = await this.prisma.subscription.update({
+      where: { id: subscriptionId },
+      data: { cancelAtPeriodEnd: false, cancellationReason: null },
+    });
+
+    await this.audit.log({
+      userId: updated.userId,
+      action: 'SUBSCRIPTION_CANCELLATION_UNDONE',
+      targetType: 'Subscription',
+      targetId: updated.id,
+      metadata: { reason: subscription.cancellationReason },
+    });
+
+    await this.webhookService.dispatch(
+      updated.userId,
+      'subscription.resumed',
+      {
+        id: updated.id,
+        userId: updated.userId,
+        planId: updated.planId,
+        endDate: updated.endDate,
+      }
+    );
+
+    return updated;
+  }
+
+  /**
+   * Cancels subscriptions whose scheduled cancellation has come due
+   * 
+   * Like the expiry sweep, each update is conditional on the row still having
+   * the status it was read with and the cancellation flag set, so concurrent
+   * sweeps are safe.
+   * 
+   * @param limit - Maximum number of subscriptions to process in one sweep
+   * @returns Number of subscriptions cancelled by this call
+   */
+  async applyScheduledCancellations(limit: number = 100): Promise<number> {
+    const now = new Date();
+    const due = await this.prisma.subscription.findMany({
+      where: {
+        status: { in: [SubscriptionStatus.ACTIVE, SubscriptionStatus.TRIALING] },
+        cancelAtPeriodEnd: true,
+        endDate: { lt: now },
       },
+      orderBy: { endDate: 'asc' },
+      take: limit,
     });
+
+    let cancelled = 0;
+    for (const subscription of due) {
+      const result = await this.prisma.subscription.updateMany({
+        where: { id: subscription.id, status: subscription.status, cancelAtPeriodEnd: true },
+        data: {
+          status: SubscriptionStatus.CANCELLED,
+          autoRenew: false,
+          cancelAtPeriodEnd: false,
+          cancelledAt: now,
+        },
+      });
+      if (result.count === 0) continue;
+      cancelled++;
+
+      await this.recordCancellation(
+        { ...subscription, status: SubscriptionStatus.CANCELLED, cancelledAt: now },
+        { immediate: false }
+      );
+    }
+
+    return cancelled;
+  }
+
+  /**
+   * Writes the audit entry and dispatches `subscription.cancelled`
+   * 
+   * @param subscription - The subscription after cancellation
+   * @param details - Extra context recorded with the event
+   */
+  private async recordCancellation(
+    subscription: Subscription,
+    details: Record<string, any>
+  ): Promise<void> {
+    await this.audit.log({
+      userId: subscription.userId,
+      action: 'SUBSCRIPTION_CANCELLED',
+      targetType: 'Subscription',
+      targetId: subscription.id,
+      metadata: { reason: subscription.cancellationReason, ...details },
+    });
+
+    await this.webhookService.dispatch(
+      subscription.userId,
+      'subscription.cancelled',
+      {
+        id: subscription.id,
+        userId: subscription.userId,
+        planId: subscription.planId,
+        endDate: subscription.endDate,
+        cancelledAt: subscription.cancelledAt,
+        reason: subscription.cancellationReason,
+        ...details,
+      }
+    );
+  }
+
+  /**
+   * Works out where to reach the owner of a subscription
+   * 
+   * Prefers the contact details on the user record and falls back to the
+   * email/phone given when the most recent payment was created.
+   * 
+   * @param subscriptionId - The subscription whose owner should be contacted
+   * @param user - The subscription's user, if already loaded
+   * @returns Email and phone to notify (either may be undefined)
+   */
+  async resolveContact(
+    subscriptionId: string,
+    user?: Pick<User, 'email' | 'phone'> | null
+  ): Promise<{ email?: string; phone?: string }> {
+    let email = user?.email || undefined;
+    let phone = user?.phone || undefined;
+    if (email && phone) return { email, phone };
+
+    const lastPayment = await this.prisma.payment.findFirst({
+      where: { subscriptionId },
+      orderBy: { createdAt: 'desc' },
+    });
+    email = email || lastPayment?.userEmail || undefined;
+    phone = phone || lastPayment?.userPhone || undefined;
+    return { email, phone };
   }
 
   /**
@@ -293,22 +1580,108 @@ export class SubscriptionService {
     price: number;
     currency?: string;
     duration: number;
+    trialDays?: number;
     features?: any;
     isActive?: boolean;
     gateway: string;
+    fallbackGateways?: string[];
+    sellerId?: string;
   }): Promise<Plan> {
-    return this.prisma.plan.create({
+    const gateway = data.gateway.toLowerCase();
+    const fallbackGateways = Array.from(new Set((data.fallbackGateways || []).map(g => g.toLowerCase())))
+      .filter(g => g !== gateway);
+    const supported = getSupportedGateways();
+    const unsupported = [gateway, ...fallbackGateways].filter(g => !supported.includes(g));
+    if (unsupported.length > 0) {
+      throw new ValidationError(`Unsupported gateway(s): ${unsupported.join(', ')}`);
+    }
+
+    const currency = toCurrencyCode(data.currency);
+    const wrongCurrency = [gateway, ...fallbackGateways].filter(g => !getPaymentGateway(g).supportsCurrency(currency));
+    if (wrongCurrency.length > 0) {
+      throw new ValidationError(`Gateway(s) ${wrongCurrency.join(', ')} can't take payments in ${currency}`);
+    }
+
+    if (data.sellerId && !(await this.prisma.seller.findUnique({ where: { id: data.sellerId } }))) {
+      throw new NotFoundError('Seller');
+    }
+
+    const plan = await this.prisma.plan.create({
       data: {
         name: data.name,
         description: data.description,
         price: data.price,
-        currency: data.currency || 'IRR',
+        currency,
         duration: data.duration,
+        trialDays: data.trialDays,
         features: data.features,
         isActive: data.isActive ?? true,
-        gateway: data.gateway,
+        gateway,
+        fallbackGateways,
+        sellerId: data.sellerId,
       },
     });
+
+    await this.webhookService.broadcast('plan.created', this.planEventData(plan));
+    return plan;
+  }
+
+  /**
+   * Updates a plan's details, price, trial or availability
+   * 
+   * Existing subscriptions keep their current period; a new price applies
+   * from their next renewal. Changes are announced as `plan.updated` with
+   * the previous values.
+   * 
+   * @param id - The plan to update
+   * @param data - Fields to change
+   * @returns Updated plan
+   */
+  async updatePlan(id: string, data: {
+    name?: string;
+    description?: string | null;
+    price?: number;
+    trialDays?: number | null;
+    features?: string | null;
+    isActive?: boolean;
+    sellerId?: string | null;
+  }): Promise<Plan> {
+    const plan = await this.prisma.plan.findUnique({ where: { id } });
+    if (!plan) {
+      throw new NotFoundError('Plan');
+    }
+    if (data.sellerId && !(await this.prisma.seller.findUnique({ where: { id: data.sellerId } }))) {
+      throw new NotFoundError('Seller');
+    }
+
+    const updated = await this.prisma.plan.update({ where: { id }, data });
+
+    const before = this.planEventData(plan);
+    const after = this.planEventData(updated);
+    const previousAttributes = Object.fromEntries(
+      (Object.keys(after) as Array<keyof typeof after>)
+        .filter(key => before[key] !== after[key])
+        .map(key => [key, before[key]])
+    );
+    if (Object.keys(previousAttributes).length > 0) {
+      await this.webhookService.broadcast('plan.updated', { ...after, previousAttributes });
+    }
+    return updated;
+  }
+
+  private planEventData(plan: Plan): PlanEventData {
+    return {
+      id: plan.id,
+      name: plan.name,
+      description: plan.description,
+      price: plan.price,
+      currency: plan.currency,
+      duration: plan.duration,
+      trialDays: plan.trialDays,
+      features: plan.features,
+      isActive: plan.isActive,
+      gateway: plan.gateway,
+    };
   }
 
   /**
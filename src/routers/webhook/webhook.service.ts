@@ -1,28 +1,224 @@
-import { PrismaClient, Webhook, WebhookDelivery } from '@prisma/client';
+import { Prisma, PrismaClient, Webhook, WebhookDelivery } from '@prisma/client';
 import axios from 'axios';
 import crypto from 'crypto';
+import { ValidationError } from '../../utils/errors';
+import { WebhookDeliveryStatus } from '../../types/enums';
+import { AuditService } from '../audit/audit.service';
+import { NotificationService } from '../notification/notification.service';
+import { env } from '../../config/env';
+import { maskSecret } from '../../utils/crypto';
+import { isPublicUrl, publicHttpAgent, publicHttpsAgent } from '../../utils/network';
+import { EVENT_ID_HEADER, EVENT_TYPE_HEADER, SIGNATURE_HEADER, signWebhookPayload } from '../../utils/webhook-signature';
+import {
+  ALL_WEBHOOK_EVENTS,
+  WEBHOOK_API_VERSION,
+  WEBHOOK_EVENTS,
+  WEBHOOK_TEST_EVENT,
+  WebhookDeliveryFilter,
+  WebhookEvent,
+  WebhookEventData,
+  WebhookEventType,
+  WebhookReplayInput,
+  isWebhookEventType,
+} from '../../types/webhook.types';
 
+const RESPONSE_SNIPPET_LENGTH = 1000;
+const MAX_REPLAY_DELIVERIES = 1000;
+
+/**
+ * Webhook Service
+ *
+ * Manages users' webhooks and delivers events to them. Events are queued as
+ * WebhookDelivery rows and sent by the webhook-delivery job, which retries
+ * failures with exponential backoff and disables webhooks that keep failing.
+ */
 export class WebhookService {
-  constructor(private prisma: PrismaClient) {}
+  private audit: AuditService;
+  private notificationService: NotificationService;
+
+  constructor(private prisma: PrismaClient) {
+    this.audit = new AuditService(prisma);
+    this.notificationService = new NotificationService();
+  }
 
+  // Secrets are only shown in full when created or rotated
   async list(userId: string): Promise<Webhook[]> {
-    return this.prisma.webhook.findMany({ where: { userId }, orderBy: { createdAt: 'desc' } });
+    const hooks = await this.prisma.webhook.findMany({ where: { userId }, orderBy: { createdAt: 'desc' } });
+    return hooks.map(hook => this.mask(hook));
   }
 
   async create(userId: string, url: string, eventTypes: string[], secret?: string): Promise<Webhook> {
-    const sec = secret || crypto.randomBytes(32).toString('hex');
+    await this.assertUrl(url);
+    const sec = secret || this.generateSecret();
     return this.prisma.webhook.create({
-      data: { userId, url, eventTypes: eventTypes as any, secret: sec, isActive: true },
+      data: { userId, url, eventTypes: this.normalizeEventTypes(eventTypes), secret: sec, isActive: true },
     });
   }
 
   async update(userId: string, id: string, data: Partial<Pick<Webhook, 'url' | 'isActive'>> & { eventTypes?: string[] }): Promise<Webhook | null> {
     const found = await this.prisma.webhook.findUnique({ where: { id } });
     if (!found || found.userId !== userId) return null;
-    return this.prisma.webhook.update({
+    if (data.url) await this.assertUrl(data.url);
+    // Turning a webhook back on starts its failure tracking afresh
+    const reenabled = data.isActive === true && !found.isActive;
+    const updated = await this.prisma.webhook.update({
+      where: { id },
+      data: {
+        url: data.url ?? found.url,
+        isActive: data.isActive ?? found.isActive,
+        eventTypes: data.eventTypes ? this.normalizeEventTypes(data.eventTypes) : (found.eventTypes as any),
+        ...(reenabled ? { failingSince: null, disabledAt: null, disabledReason: null } : {}),
+      },
+    });
+    return this.mask(updated);
+  }
+
+  /**
+   * Replaces a webhook's signing secret. The new secret is returned once.
+   * For `graceHours` deliveries also carry a signature made with the old
+   * secret, so the receiver can switch over without rejecting events.
+   *
+   * @param graceHours - How long the old secret keeps signing; 0 drops it at once
+   */
+  async rotateSecret(userId: string, id: string, graceHours = env.WEBHOOK.SECRET_ROTATION_HOURS): Promise<Webhook | null> {
+    const found = await this.prisma.webhook.findUnique({ where: { id } });
+    if (!found || found.userId !== userId) return null;
+    const rotated = await this.prisma.webhook.update({
       where: { id },
-      data: { url: data.url ?? found.url, isActive: data.isActive ?? found.isActive, eventTypes: (data.eventTypes ?? (found.eventTypes as any)) as any },
+      data: {
+        secret: this.generateSecret(),
+        previousSecret: graceHours > 0 ? found.secret : null,
+        previousSecretExpiresAt: graceHours > 0 ? new Date(Date.now() + graceHours * 60 * 60 * 1000) : null,
+      },
+    });
+    return { ...rotated, previousSecret: rotated.previousSecret && maskSecret(rotated.previousSecret) };
+  }
+
+  /**
+   * Sends a `webhook.test` event to one webhook, once, so the receiver can
+   * check it gets and verifies deliveries. Inactive webhooks can be tested too.
+   *
+   * @returns The delivery with its outcome, or null if the webhook isn't the user's
+   */
+  async sendTest(userId: string, id: string): Promise<WebhookDelivery | null> {
+    const hook = await this.prisma.webhook.findUnique({ where: { id } });
+    if (!hook || hook.userId !== userId) return null;
+    const event = this.envelope(WEBHOOK_TEST_EVENT, { webhookId: hook.id, message: 'Test event' });
+    const delivery = await this.prisma.webhookDelivery.create({
+      data: {
+        webhookId: hook.id,
+        eventType: WEBHOOK_TEST_EVENT,
+        payload: event as any,
+        status: WebhookDeliveryStatus.PENDING,
+        attemptCount: 0,
+        // Sent right here, so the worker must not pick it up meanwhile
+        nextAttemptAt: this.claimUntil(),
+      },
     });
+    await this.attempt(hook, delivery, false);
+    return this.prisma.webhookDelivery.findUnique({ where: { id: delivery.id } });
+  }
+
+  /**
+   * Lists a webhook's deliveries, newest first
+   *
+   * @returns A page of deliveries and the cursor for the next one, or null
+   *          if the webhook isn't the user's
+   */
+  async listDeliveries(userId: string, webhookId: string, filter: WebhookDeliveryFilter): Promise<{ deliveries: WebhookDelivery[]; nextCursor: string | null } | null> {
+    const hook = await this.prisma.webhook.findUnique({ where: { id: webhookId } });
+    if (!hook || hook.userId !== userId) return null;
+
+    const deliveries = await this.prisma.webhookDelivery.findMany({
+      where: { webhookId, status: filter.status, eventType: filter.eventType },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: filter.limit + 1,
+      ...(filter.cursor ? { cursor: { id: filter.cursor }, skip: 1 } : {}),
+    });
+    const more = deliveries.length > filter.limit;
+    const page = more ? deliveries.slice(0, filter.limit) : deliveries;
+    return { deliveries: page, nextCursor: more ? page[page.length - 1].id : null };
+  }
+
+  /**
+   * Sends a delivery's event again, now, as a new delivery signed with the
+   * webhook's current secret. If it fails it is retried like any other delivery.
+   *
+   * @returns The new delivery with the outcome of its first attempt, or null
+   *          if the delivery isn't the user's
+   */
+  async redeliver(userId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+    const original = await this.prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { webhook: true },
+    });
+    if (!original || original.webhook.userId !== userId) return null;
+
+    const delivery = await this.prisma.webhookDelivery.create({
+      data: {
+        webhookId: original.webhookId,
+        eventType: original.eventType,
+        payload: original.payload as any,
+        status: WebhookDeliveryStatus.PENDING,
+        attemptCount: 0,
+        nextAttemptAt: this.claimUntil(),
+        originalDeliveryId: original.originalDeliveryId || original.id,
+      },
+    });
+    await this.attempt(original.webhook, delivery);
+    return this.prisma.webhookDelivery.findUnique({ where: { id: delivery.id } });
+  }
+
+  /**
+   * Queues every event sent to a webhook in a time window again, e.g. after
+   * the receiver was down. Redeliveries and events still queued are left out,
+   * so each event is sent once more.
+   *
+   * @returns How many deliveries were queued, or null if the webhook isn't the user's
+   * @throws ValidationError if the window has more than MAX_REPLAY_DELIVERIES events
+   */
+  async replay(userId: string, webhookId: string, input: WebhookReplayInput): Promise<{ queued: number } | null> {
+    const hook = await this.prisma.webhook.findUnique({ where: { id: webhookId } });
+    if (!hook || hook.userId !== userId) return null;
+    if (input.from >= input.to) {
+      throw new ValidationError('from must be before to');
+    }
+
+    const where = {
+      webhookId,
+      originalDeliveryId: null,
+      createdAt: { gte: input.from, lt: input.to },
+      eventType: input.eventTypes?.length ? { in: input.eventTypes } : { not: WEBHOOK_TEST_EVENT },
+      status: input.onlyFailed
+        ? WebhookDeliveryStatus.FAILED
+        : { in: [WebhookDeliveryStatus.SUCCESS, WebhookDeliveryStatus.FAILED] },
+    };
+    const count = await this.prisma.webhookDelivery.count({ where });
+    if (count > MAX_REPLAY_DELIVERIES) {
+      throw new ValidationError(`${count} events in this window; replay at most ${MAX_REPLAY_DELIVERIES} at a time`);
+    }
+
+    const originals = await this.prisma.webhookDelivery.findMany({ where, orderBy: { createdAt: 'asc' } });
+    const now = new Date();
+    await this.prisma.webhookDelivery.createMany({
+      data: originals.map(original => ({
+        webhookId,
+        eventType: original.eventType,
+        payload: original.payload as any,
+        status: WebhookDeliveryStatus.PENDING,
+        attemptCount: 0,
+        nextAttemptAt: now,
+        originalDeliveryId: original.id,
+      })),
+    });
+    return { queued: originals.length };
+  }
+
+  /**
+   * Lists the events webhooks can subscribe to
+   */
+  listEventTypes(): Array<{ type: WebhookEventType; description: string }> {
+    return (Object.keys(WEBHOOK_EVENTS) as WebhookEventType[]).map(type => ({ type, description: WEBHOOK_EVENTS[type] }));
   }
 
   async remove(userId: string, id: string): Promise<boolean> {
@@ -32,57 +228,341 @@ export class WebhookService {
     return true;
   }
 
-  private sign(secret: string, payload: any): string {
-    const h = crypto.createHmac('sha256', secret);
-    h.update(JSON.stringify(payload));
-    return h.digest('hex');
+  /**
+   * Queues an event for every active webhook of the user that subscribes to it.
+   * Nothing is sent here: the webhook-delivery job picks the deliveries up,
+   * so a slow or broken receiver never holds up the caller.
+   *
+   * @returns The event as delivered; every webhook gets the same id
+   */
+  async dispatch<T extends WebhookEventType>(userId: string, type: T, data: WebhookEventData[T]): Promise<WebhookEvent<T>> {
+    const hooks = await this.prisma.webhook.findMany({ where: { userId, isActive: true } });
+    const event = this.envelope(type, data);
+    await this.enqueue(hooks, event);
+    return event;
   }
 
-  async dispatch(userId: string, eventType: string, payload: any): Promise<void> {
-    const hooks = await this.prisma.webhook.findMany({ where: { userId, isActive: true } });
-    for (const hook of hooks) {
+  /**
+   * Queues an event for every active webhook of every user that subscribes
+   * to it. For events about shared records, such as plans.
+   */
+  async broadcast<T extends WebhookEventType>(type: T, data: WebhookEventData[T]): Promise<WebhookEvent<T>> {
+    const hooks = await this.prisma.webhook.findMany({ where: { isActive: true } });
+    const event = this.envelope(type, data);
+    await this.enqueue(hooks, event);
+    return event;
+  }
+
+  private async enqueue(hooks: Webhook[], event: WebhookEvent): Promise<void> {
+    const subscribed = hooks.filter(hook => {
       const types = (hook.eventTypes as any as string[]) || [];
-      if (types.length && !types.includes(eventType)) continue;
-      const signature = this.sign(hook.secret, payload);
-      const delivery = await this.prisma.webhookDelivery.create({
+      return !types.length || types.includes(ALL_WEBHOOK_EVENTS) || types.includes(event.type);
+    });
+    if (subscribed.length === 0) return;
+    const now = new Date();
+    await this.prisma.webhookDelivery.createMany({
+      data: subscribed.map(hook => ({
+        webhookId: hook.id,
+        eventType: event.type,
+        payload: event as any,
+        status: WebhookDeliveryStatus.PENDING,
+        attemptCount: 0,
+        nextAttemptAt: now,
+      })),
+    });
+  }
+
+  private envelope<T extends string, D>(type: T, data: D): { id: string; type: T; created: string; apiVersion: string; data: D } {
+    return {
+      id: `evt_${crypto.randomBytes(12).toString('hex')}`,
+      type,
+      created: new Date().toISOString(),
+      apiVersion: WEBHOOK_API_VERSION,
+      data,
+    };
+  }
+
+  /**
+   * Sends queued deliveries that are due, oldest first
+   *
+   * The batch is shared fairly: every webhook with due deliveries gets its
+   * oldest one in before any gets a second, and none gets more than
+   * BATCH_PER_WEBHOOK, so a backlog at one broken receiver can't crowd out
+   * everyone else's events.
+   *
+   * Each delivery is claimed before it is sent by pushing its nextAttemptAt
+   * past the request timeout, so two workers never send it at the same time
+   * and one that crashed mid-send is picked up again once the claim lapses.
+   * After a failure the rest of that webhook's due deliveries are put back
+   * by one retry interval instead of being tried again on the next run.
+   *
+   * @param limit - Maximum number of deliveries to look at
+   * @returns How many were delivered and how many failed
+   */
+  async processDue(limit: number): Promise<{ delivered: number; failed: number }> {
+    const now = new Date();
+    // Numbers each webhook's due deliveries oldest first and takes the firsts of all webhooks, then the seconds, ...
+    const picked = await this.prisma.$queryRaw<Array<{ id: string }>>(Prisma.sql`
+      SELECT ranked.id FROM (
+        SELECT d.id, d."createdAt",
+               ROW_NUMBER() OVER (PARTITION BY d."webhookId" ORDER BY d."createdAt", d.id) AS position
+        FROM "WebhookDelivery" d
+        JOIN "Webhook" w ON w.id = d."webhookId"
+        WHERE d.status = ${WebhookDeliveryStatus.PENDING}
+          AND w."isActive" = true
+          AND (d."nextAttemptAt" IS NULL OR d."nextAttemptAt" <= ${now})
+      ) ranked
+      WHERE ranked.position <= ${env.WEBHOOK.BATCH_PER_WEBHOOK}
+      ORDER BY ranked.position, ranked."createdAt"
+      LIMIT ${limit}
+    `);
+    if (picked.length === 0) return { delivered: 0, failed: 0 };
+
+    const due = await this.prisma.webhookDelivery.findMany({
+      where: { id: { in: picked.map(row => row.id) } },
+      include: { webhook: true },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    const byWebhook = new Map<string, typeof due>();
+    for (const delivery of due) {
+      byWebhook.set(delivery.webhookId, [...(byWebhook.get(delivery.webhookId) || []), delivery]);
+    }
+
+    const result = { delivered: 0, failed: 0 };
+    // Webhooks are worked through in parallel, so one slow receiver doesn't delay the others
+    await Promise.all([...byWebhook.values()].map(async deliveries => {
+      let hook = deliveries[0].webhook;
+      for (const delivery of deliveries) {
+        const claim = await this.prisma.webhookDelivery.updateMany({
+          where: { id: delivery.id, status: WebhookDeliveryStatus.PENDING, nextAttemptAt: delivery.nextAttemptAt },
+          data: { nextAttemptAt: this.claimUntil() },
+        });
+        if (claim.count === 0) continue;
+
+        const error = await this.attempt(hook, delivery);
+        if (!error) {
+          result.delivered++;
+          hook = await this.recordSuccess(hook);
+          continue;
+        }
+        result.failed++;
+        hook = await this.recordFailure(hook, error);
+        if (hook.isActive) await this.postponeDue(hook.id);
+        break;
+      }
+    }));
+    return result;
+  }
+
+  // Holds back a failing webhook's due deliveries for one retry interval, so
+  // the next runs don't keep sending them to a receiver that just failed
+  private async postponeDue(webhookId: string): Promise<void> {
+    const now = new Date();
+    await this.prisma.webhookDelivery.updateMany({
+      where: {
+        webhookId,
+        status: WebhookDeliveryStatus.PENDING,
+        OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }],
+      },
+      data: { nextAttemptAt: new Date(now.getTime() + this.retryDelayMs(1)) },
+    });
+  }
+
+  /**
+   * Posts a delivery to its webhook once and records the outcome
+   *
+   * @param retry - Schedule another attempt on failure (with backoff) until MAX_ATTEMPTS
+   * @returns Why the attempt failed, or null if it was delivered
+   */
+  private async attempt(hook: Webhook, delivery: WebhookDelivery, retry = true): Promise<string | null> {
+    const attemptCount = delivery.attemptCount + 1;
+    const lastAttemptAt = new Date();
+    // Signed per attempt, so the timestamp is fresh and a rotated secret is picked up
+    const body = JSON.stringify(delivery.payload);
+    const signature = signWebhookPayload(this.signingSecrets(hook), body);
+    // The URL was checked when saved; its host may resolve elsewhere by now.
+    // Response bodies are only kept for public targets, so the delivery log
+    // can't be used to read internal services.
+    const publicTarget = await isPublicUrl(hook.url);
+    try {
+      if (!env.WEBHOOK.ALLOW_PRIVATE_URLS && !publicTarget) {
+        throw new Error('Webhook URL does not resolve to a public address');
+      }
+      const response = await axios.post(hook.url, body, {
+        headers: {
+          [EVENT_TYPE_HEADER]: delivery.eventType,
+          [EVENT_ID_HEADER]: this.eventId(delivery),
+          [SIGNATURE_HEADER]: signature,
+          'Content-Type': 'application/json',
+        },
+        timeout: env.WEBHOOK.TIMEOUT_MS,
+        responseType: 'text',
+        // A redirect could point anywhere, and the agents re-check the
+        // address when connecting
+        maxRedirects: 0,
+        ...(env.WEBHOOK.ALLOW_PRIVATE_URLS ? {} : { httpAgent: publicHttpAgent, httpsAgent: publicHttpsAgent }),
+      });
+      await this.prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: WebhookDeliveryStatus.SUCCESS,
+          signature,
+          attemptCount,
+          lastAttemptAt,
+          nextAttemptAt: null,
+          lastError: null,
+          responseStatus: response.status,
+          responseBody: publicTarget ? this.snippet(response.data) : null,
+          latencyMs: Date.now() - lastAttemptAt.getTime(),
+        },
+      });
+      return null;
+    } catch (err: any) {
+      const lastError = err?.response ? `HTTP ${err.response.status}` : err?.message || 'Delivery failed';
+      const exhausted = !retry || attemptCount >= env.WEBHOOK.MAX_ATTEMPTS;
+      await this.prisma.webhookDelivery.update({
+        where: { id: delivery.id },
         data: {
-          webhookId: hook.id,
-          eventType,
-          payload,
+          status: exhausted ? WebhookDeliveryStatus.FAILED : WebhookDeliveryStatus.PENDING,
           signature,
-          status: 'PENDING',
-          attemptCount: 0,
-        } as any,
+          attemptCount,
+          lastAttemptAt,
+          nextAttemptAt: exhausted ? null : new Date(lastAttemptAt.getTime() + this.retryDelayMs(attemptCount)),
+          lastError,
+          responseStatus: err?.response?.status ?? null,
+          responseBody: publicTarget && err?.response ? this.snippet(err.response.data) : null,
+          latencyMs: Date.now() - lastAttemptAt.getTime(),
+        },
       });
-      await this.tryDeliver(hook, delivery);
+      return lastError;
     }
   }
 
-  private async tryDeliver(hook: Webhook, delivery: WebhookDelivery): Promise<void> {
-    const maxAttempts = 3;
-    const backoff = [0, 1000, 3000];
-    for (let i = delivery.attemptCount; i < maxAttempts; i++) {
-      try {
-        if (backoff[i] > 0) await new Promise(r => setTimeout(r, backoff[i]));
-        await axios.post(hook.url, delivery.payload, {
-          headers: {
-            'X-Webhook-Event': delivery.eventType,
-            'X-Webhook-Signature': delivery.signature,
-            'Content-Type': 'application/json',
-          },
-          timeout: 5000,
-        });
-        await this.prisma.webhookDelivery.update({
-          where: { id: delivery.id },
-          data: { status: 'SUCCESS', attemptCount: i + 1, lastAttemptAt: new Date() } as any,
-        });
-        return;
-      } catch (err) {
-        await this.prisma.webhookDelivery.update({
-          where: { id: delivery.id },
-          data: { status: i + 1 >= maxAttempts ? 'FAILED' : 'PENDING', attemptCount: i + 1, lastAttemptAt: new Date() } as any,
-        });
-      }
+  /**
+   * Exponential backoff: RETRY_BASE_SEC after the first failure, doubling up
+   * to RETRY_MAX_SEC, with some jitter so retries after an outage spread out
+   */
+  private retryDelayMs(attemptCount: number): number {
+    const seconds = Math.min(env.WEBHOOK.RETRY_BASE_SEC * 2 ** (attemptCount - 1), env.WEBHOOK.RETRY_MAX_SEC);
+    return Math.round(seconds * 1000 * (0.9 + Math.random() * 0.2));
+  }
+
+  private async recordSuccess(hook: Webhook): Promise<Webhook> {
+    if (!hook.failingSince) return hook;
+    return this.prisma.webhook.update({ where: { id: hook.id }, data: { failingSince: null } });
+  }
+
+  /**
+   * Notes a failed delivery. A webhook that has failed without a single
+   * success for DISABLE_AFTER_HOURS is disabled.
+   */
+  private async recordFailure(hook: Webhook, lastError: string): Promise<Webhook> {
+    const now = new Date();
+    if (!hook.failingSince) {
+      return this.prisma.webhook.update({ where: { id: hook.id }, data: { failingSince: now } });
+    }
+    if (now.getTime() - hook.failingSince.getTime() < env.WEBHOOK.DISABLE_AFTER_HOURS * 60 * 60 * 1000) {
+      return hook;
     }
+    return this.disable(hook, hook.failingSince, lastError);
+  }
+
+  /**
+   * Turns off a webhook that keeps failing, gives up on its queued deliveries
+   * and emails its owner
+   */
+  private async disable(hook: Webhook, failingSince: Date, lastError: string): Promise<Webhook> {
+    const disabledReason = `Deliveries failing since ${failingSince.toISOString()}: ${lastError}`;
+    const result = await this.prisma.webhook.updateMany({
+      where: { id: hook.id, isActive: true },
+      data: { isActive: false, disabledAt: new Date(), disabledReason },
+    });
+    const updated = await this.prisma.webhook.findUniqueOrThrow({ where: { id: hook.id }, include: { user: true } });
+    // Another worker got there first
+    if (result.count === 0) return updated;
+
+    await this.prisma.webhookDelivery.updateMany({
+      where: { webhookId: hook.id, status: WebhookDeliveryStatus.PENDING },
+      data: { status: WebhookDeliveryStatus.FAILED, nextAttemptAt: null, lastError: 'Webhook disabled' },
+    });
+    await this.audit.log({
+      userId: hook.userId,
+      action: 'WEBHOOK_DISABLED',
+      targetType: 'Webhook',
+      targetId: hook.id,
+      metadata: { url: hook.url, failingSince, lastError },
+    });
+    await this.notificationService.sendWebhookDisabled(updated.user.email || undefined, hook.url, failingSince, lastError);
+    console.warn(`[Webhook] Disabled ${hook.id} (${hook.url}): ${disabledReason}`);
+    return updated;
+  }
+
+  /**
+   * Checks requested event types against the catalogue
+   *
+   * @throws ValidationError naming the unknown types
+   */
+  private normalizeEventTypes(eventTypes: string[]): string[] {
+    const unique = Array.from(new Set(eventTypes.map(type => type.trim())));
+    if (unique.length === 0) {
+      throw new ValidationError('At least one event type is required');
+    }
+    if (unique.includes(ALL_WEBHOOK_EVENTS)) {
+      return [ALL_WEBHOOK_EVENTS];
+    }
+    const unknown = unique.filter(type => !isWebhookEventType(type));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown event type(s): ${unknown.join(', ')}. See GET /api/webhook/events`);
+    }
+    return unique;
+  }
+
+  private async assertUrl(url: string): Promise<void> {
+    const protocol = new URL(url).protocol;
+    if (protocol !== 'https:' && protocol !== 'http:') {
+      throw new ValidationError('Webhook URL must be http or https');
+    }
+    if (!env.WEBHOOK.ALLOW_PRIVATE_URLS && !(await isPublicUrl(url))) {
+      throw new ValidationError('Webhook URL must resolve to a public address');
+    }
+  }
+
+  // The envelope id, which redeliveries and replays keep. Deliveries queued
+  // before events had an envelope fall back to the first delivery's id.
+  private eventId(delivery: WebhookDelivery): string {
+    const payload = delivery.payload as any;
+    return payload?.apiVersion && typeof payload.id === 'string'
+      ? payload.id
+      : delivery.originalDeliveryId || delivery.id;
+  }
+
+  // The current secret, plus the previous one until its rotation grace period ends
+  private signingSecrets(hook: Webhook): string[] {
+    const previousValid = hook.previousSecret && hook.previousSecretExpiresAt && hook.previousSecretExpiresAt > new Date();
+    return previousValid ? [hook.secret, hook.previousSecret!] : [hook.secret];
+  }
+
+  // A claimed delivery is hidden from the worker until its attempt has surely finished
+  private claimUntil(): Date {
+    return new Date(Date.now() + env.WEBHOOK.TIMEOUT_MS * 2 + 60_000);
+  }
+
+  private snippet(body: unknown): string | null {
+    if (body === undefined || body === null || body === '') return null;
+    const text = typeof body === 'string' ? body : JSON.stringify(body);
+    return text.length > RESPONSE_SNIPPET_LENGTH ? `${text.slice(0, RESPONSE_SNIPPET_LENGTH)}…` : text;
+  }
+
+  private generateSecret(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  private mask(hook: Webhook): Webhook {
+    return {
+      ...hook,
+      secret: maskSecret(hook.secret),
+      previousSecret: hook.previousSecret && maskSecret(hook.previousSecret),
+    };
   }
 }
@@ -0,0 +1,81 @@
+export type Calendar = 'jalali' | 'gregorian';
+
+export type AnalyticsInterval = 'day' | 'week' | 'month';
+
+export interface AnalyticsQuery {
+  from: Date;
+  to: Date;
+  interval: AnalyticsInterval;
+  calendar: Calendar;
+}
+
+export interface PeriodBucket {
+  period: string; // e.g. 1403-01 (Jalali month) or 2024-03-20 (Gregorian day)
+  start: Date;
+  end: Date;
+}
+
+// All report amounts are in Rials, whatever currency the plans are priced in
+export interface MrrReport {
+  currency: 'IRR';
+  mrr: number;
+  activeSubscriptions: number;
+  periods: Array<PeriodBucket & { mrr: number; activeSubscriptions: number }>;
+}
+
+export interface SubscriptionFlow {
+  new: number;
+  churned: number;
+  net: number;
+  churnRate: number | null; // churned / active at the start; null when none were active
+}
+
+export interface SubscriptionFlowReport {
+  totals: SubscriptionFlow;
+  periods: Array<PeriodBucket & SubscriptionFlow>;
+}
+
+export interface RevenueTotals {
+  payments: number;
+  gross: number;
+  refunded: number;
+  net: number;
+}
+
+export interface RevenueReport {
+  currency: 'IRR';
+  totals: RevenueTotals;
+  periods: Array<PeriodBucket & RevenueTotals>;
+  byPlan: Array<RevenueTotals & { planId: string; planName: string }>;
+  byGateway: Array<RevenueTotals & { gateway: string }>;
+}
+
+export interface PaymentOutcomes {
+  attempts: number;
+  succeeded: number;
+  failed: number;
+  suspicious: number;
+  pending: number;
+  successRate: number | null; // succeeded / settled attempts (pending ones are left out)
+}
+
+export interface PaymentSuccessReport {
+  totals: PaymentOutcomes;
+  periods: Array<PeriodBucket & PaymentOutcomes>;
+  byGateway: Array<PaymentOutcomes & { gateway: string }>;
+}
+
+export interface TrialOutcomes {
+  started: number;
+  converted: number;
+  expired: number;
+  cancelled: number;
+  active: number;
+  conversionRate: number | null; // converted / trials that have ended
+}
+
+export interface TrialConversionReport {
+  totals: TrialOutcomes;
+  periods: Array<PeriodBucket & TrialOutcomes>; // By the period the trial started in
+  byPlan: Array<TrialOutcomes & { planId: string; planName: string }>;
+}
@@ -0,0 +1,44 @@
+import { Coupon } from '@prisma/client';
+import { CouponType } from './enums';
+
+export interface CreateCouponInput {
+  code: string;
+  description?: string;
+  type: CouponType;
+  value: number;
+  planIds?: string[];
+  startsAt?: Date;
+  expiresAt?: Date;
+  maxRedemptions?: number;
+  perUserLimit?: number | null;
+  isActive?: boolean;
+}
+
+export interface UpdateCouponInput {
+  description?: string;
+  planIds?: string[];
+  startsAt?: Date | null;
+  expiresAt?: Date | null;
+  maxRedemptions?: number | null;
+  perUserLimit?: number | null;
+  isActive?: boolean;
+}
+
+export interface CouponQuote {
+  coupon: Coupon;
+  originalAmount: number;
+  discountAmount: number;
+  amount: number;
+}
+
+export interface CouponStats {
+  couponId: string;
+  code: string;
+  redemptions: number;
+  completed: number;
+  pending: number;
+  failed: number;
+  totalDiscount: number;
+  revenue: number;
+  remaining: number | null;
+}
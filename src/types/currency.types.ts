@@ -0,0 +1,13 @@
+/**
+ * Currencies a plan can be priced in. Toman (IRT) is not an ISO code but is
+ * what most Iranian gateways and users talk in: 1 IRT = 10 IRR.
+ */
+export type CurrencyCode = 'IRR' | 'IRT';
+
+export interface Currency {
+  code: CurrencyCode;
+  minorUnits: number; // Decimal places of the smallest unit; amounts are stored in that unit
+  rials: number; // Value of one smallest unit in Rials, for converting between currencies
+  name: string;
+  localName: string; // Persian name, for SMS
+}
@@ -1,12 +1,42 @@
 export enum SubscriptionStatus {
   PENDING = 'PENDING',
+  TRIALING = 'TRIALING',
   ACTIVE = 'ACTIVE',
+  PAST_DUE = 'PAST_DUE',
   EXPIRED = 'EXPIRED',
   CANCELLED = 'CANCELLED',
 }
 
 export enum PaymentStatus {
   PENDING = 'PENDING',
+  VERIFYING = 'VERIFYING',
   COMPLETED = 'COMPLETED',
   FAILED = 'FAILED',
+  REFUNDED = 'REFUNDED',
+  PARTIALLY_REFUNDED = 'PARTIALLY_REFUNDED',
+  SUSPICIOUS = 'SUSPICIOUS',
+}
+
+export enum RefundStatus {
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+  UNKNOWN = 'UNKNOWN', // The gateway didn't answer; the amount stays reserved until settled
+}
+
+export enum PaymentPurpose {
+  NEW = 'NEW',
+  RENEWAL = 'RENEWAL',
+  PLAN_CHANGE = 'PLAN_CHANGE',
+  TRIAL_CONVERSION = 'TRIAL_CONVERSION',
+}
+
+export enum CouponType {
+  PERCENT = 'PERCENT',
+  FIXED = 'FIXED',
+}
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'PENDING',
+  SUCCESS = 'SUCCESS',
+  FAILED = 'FAILED',
 }
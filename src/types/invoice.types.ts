@@ -0,0 +1,45 @@
+import { Invoice } from '@prisma/client';
+
+/**
+ * Seller or buyer as printed on an invoice. Iranian tax invoices identify
+ * companies by national ID (shenase-ye melli) and economic code.
+ */
+export interface InvoiceParty {
+  name: string;
+  legalName?: string;
+  nationalId?: string;
+  economicCode?: string;
+  registrationNumber?: string;
+  address?: string;
+  postalCode?: string;
+  phone?: string;
+  email?: string;
+}
+
+export type InvoiceLineKind = 'ITEM' | 'DISCOUNT' | 'TAX';
+
+export interface InvoiceLine {
+  kind: InvoiceLineKind;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number; // Negative for discounts
+}
+
+export interface CreateSellerInput extends InvoiceParty {
+  vatRate?: number;
+  invoicePrefix?: string;
+  isDefault?: boolean;
+}
+
+export type UpdateSellerInput = Partial<CreateSellerInput>;
+
+export type InvoiceFormat = 'json' | 'html' | 'pdf';
+
+// A rendered invoice, ready to download or attach to an email
+export interface InvoiceDocument {
+  invoice: Invoice;
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
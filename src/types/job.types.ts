@@ -0,0 +1,5 @@
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run(): Promise<void>;
+}
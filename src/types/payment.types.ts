@@ -1,43 +1,158 @@
 import { Payment } from '@prisma/client';
+import { PaymentPurpose } from './enums';
+import { CurrencyCode } from './currency.types';
 
 export interface PaymentGatewayConfig {
   merchantId: string;
   sandbox: boolean;
+  options?: Record<string, any>; // Extra per-gateway settings from GatewayCredential.config
 }
 
 export interface CreatePaymentRequest {
   amount: number;
+  currency?: CurrencyCode; // Currency of amount (default IRR); gateways convert to their own unit
   description: string;
   callbackUrl: string;
+  orderId?: string; // Our reference for the payment, for gateways that require one
   email?: string;
   mobile?: string;
   metadata?: Record<string, any>;
 }
 
+/**
+ * How to send the user to the gateway when a plain link is not enough:
+ * bank IPGs expect the browser to POST a form with the payment token
+ */
+export interface PaymentRedirect {
+  method: 'GET' | 'POST';
+  url: string;
+  fields?: Record<string, string>;
+}
+
 export interface CreatePaymentResponse {
   paymentUrl: string;
   authority: string;
   gatewayTxId?: string;
   message?: string;
+  redirect?: PaymentRedirect; // Set when the gateway needs a form post instead of paymentUrl
+}
+
+export interface CreatePaymentOptions {
+  purpose?: PaymentPurpose;
+  planName?: string;
+  metadata?: Record<string, any>;
+  notify?: boolean;
+  discount?: PaymentDiscount;
+}
+
+export interface PaymentDiscount {
+  couponId: string;
+  originalAmount: number;
+  discountAmount: number;
 }
 
 export interface VerifyPaymentRequest {
   authority: string;
   amount?: number;
+  currency?: CurrencyCode;
+  orderId?: string;
+  params?: Record<string, string>; // Parameters the gateway sent to our callback
 }
 
 export interface VerifyPaymentResponse {
   refId: string;
+  amount?: number; // Amount the gateway captured
+  currency?: string; // Unit of amount, as the gateway reports it
+  authority?: string; // Transaction the gateway verified
+  merchantId?: string; // Merchant account the transaction belongs to
   cardPan?: string;
   cardHash?: string;
   feeType?: string;
   fee?: number;
 }
 
+/**
+ * Result parameters a gateway sends back with the user to our callback URL
+ * status: OK or NOK when the gateway reports the outcome, empty when only
+ * verification can tell
+ * params: everything the gateway sent, for gateways that verify with
+ * callback values (e.g. Saman's RefNum, Mellat's SaleReferenceId)
+ */
+export interface GatewayCallbackParams {
+  authority: string;
+  status: string;
+  params: Record<string, string>;
+}
+
+export interface InquirePaymentRequest {
+  authority: string;
+  amount: number;
+  currency?: CurrencyCode;
+  orderId?: string;
+  params?: Record<string, string>; // Callback parameters, if the callback arrived
+}
+
+/**
+ * Gateway-reported state of a transaction:
+ * PAID - money captured but not verified yet; VERIFIED - captured and verified;
+ * PENDING - user has not finished paying; FAILED - cancelled, expired or reversed;
+ * UNKNOWN - the gateway has no inquiry API, only verification can tell
+ */
+export type GatewayPaymentState = 'PAID' | 'VERIFIED' | 'PENDING' | 'FAILED' | 'UNKNOWN';
+
+export interface InquirePaymentResponse {
+  state: GatewayPaymentState;
+  gatewayStatus?: string;
+  message?: string;
+}
+
+export interface ReconciliationResult {
+  paymentId: string;
+  authority: string;
+  gateway: string;
+  state?: GatewayPaymentState;
+  action: 'completed' | 'failed' | 'unchanged' | 'error';
+  activated?: boolean;
+  error?: string;
+}
+
+export interface RefundPaymentRequest {
+  authority: string;
+  orderId?: string;
+  refId?: string;
+  amount: number;
+  paymentAmount?: number; // What was paid, for gateways that can only reverse in full
+  currency?: CurrencyCode;
+  reason?: string;
+  params?: Record<string, string>;
+}
+
+export interface RefundPaymentResponse {
+  refundId: string;
+  message?: string;
+}
+
+export interface RefundOptions {
+  amount?: number;
+  reason?: string;
+  requestedBy?: string;
+}
+
 export interface IPaymentGateway {
   name: string;
   createPayment(request: CreatePaymentRequest): Promise<CreatePaymentResponse>;
   verifyPayment(request: VerifyPaymentRequest): Promise<VerifyPaymentResponse>;
+  inquirePayment(request: InquirePaymentRequest): Promise<InquirePaymentResponse>;
+  refundPayment(request: RefundPaymentRequest): Promise<RefundPaymentResponse>;
+  testConnection(): Promise<GatewayConnectionTest>;
+  supportsCurrency(currency: CurrencyCode): boolean;
+}
+
+export interface GatewayConnectionTest {
+  ok: boolean;
+  message: string;
+  code?: number; // Gateway result code when the gateway rejected the request
+  latencyMs: number;
 }
 
 export interface ZarinpalRequestResponse {
@@ -63,3 +178,68 @@ export interface ZarinpalVerifyResponse {
   };
   errors: any[];
 }
+
+export interface ZarinpalRefundResponse {
+  data?: {
+    resource?: {
+      terminal_id: string;
+      id: string;
+      amount: number;
+      timeline?: {
+        refund_amount: number;
+        refund_time: string;
+        refund_status: string;
+      };
+    };
+  };
+  errors?: Array<{ message: string }>;
+}
+
+export interface ZarinpalInquiryResponse {
+  data: {
+    code: number;
+    message: string;
+    status: 'VERIFIED' | 'PAID' | 'IN_BANK' | 'FAILED' | 'REVERSED';
+  };
+  errors: any[];
+}
+
+/**
+ * Circuit breaker state of a gateway:
+ * CLOSED - healthy; OPEN - too many recent transport failures, skipped while
+ * other gateways are available; HALF_OPEN - cooldown over, the next request
+ * decides whether it closes or opens again
+ */
+export type GatewayBreakerState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface GatewayHealth {
+  gateway: string;
+  state: GatewayBreakerState;
+  requests: number; // Requests in the breaker window
+  failures: number;
+  failureRate: number;
+  openUntil: Date | null;
+}
+
+export interface GatewayRouting {
+  order: string[]; // Configured failover order
+  preferred: string | null; // Gateway the next payment would try first
+  gateways: GatewayHealth[];
+}
+
+// Gateway credential as returned by the API: secrets show only their last four characters
+export interface MaskedGatewayCredential {
+  id: string;
+  userId: string;
+  gateway: string;
+  merchantId: string;
+  sandbox: boolean;
+  config: Record<string, string> | null;
+  priority: number | null;
+  lastVerifiedAt: Date | null; // Last connection test
+  lastVerificationOk: boolean | null;
+  lastVerificationError: string | null;
+  encrypted: boolean; // Stored encrypted; false for rows written before a master key was set
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -6,6 +6,26 @@ export interface CreateSubscriptionInput {
   autoRenew?: boolean;
   userEmail?: string;
   userPhone?: string;
+  couponCode?: string;
+}
+
+export interface ChangePlanInput {
+  subscriptionId: string;
+  planId: string;
+  userEmail?: string;
+  userPhone?: string;
+}
+
+export interface PlanChangeProration {
+  currentPlanPrice: number;
+  newPlanPrice: number;
+  unusedCredit: number;
+  amountDue: number;
+}
+
+export interface CancelSubscriptionOptions {
+  atPeriodEnd?: boolean;
+  reason?: string;
 }
 
 export interface NotificationData {
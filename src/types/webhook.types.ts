@@ -0,0 +1,146 @@
+/**
+ * Events a webhook can subscribe to, with what each one means
+ */
+export const WEBHOOK_EVENTS = {
+  'payment.created': 'A payment was started and its payment link issued',
+  'payment.completed': 'A payment was verified and the money received',
+  'payment.failed': 'A payment was cancelled, declined by the gateway or abandoned',
+  'payment.refunded': 'A payment was refunded in full or in part',
+  'subscription.created': 'A subscription was created, pending its first payment or as a trial',
+  'subscription.activated': 'A subscription started after its first payment',
+  'subscription.renewed': 'A subscription was extended by a renewal payment',
+  'subscription.recovered': 'A past-due subscription was paid within its grace period',
+  'subscription.past_due': 'A renewal was not paid by the end of the period; access continues until graceEndsAt',
+  'subscription.expired': 'A subscription or unpaid trial ended',
+  'subscription.cancelled': 'A subscription was cancelled',
+  'subscription.cancellation_scheduled': 'A subscription will be cancelled at the end of its period',
+  'subscription.resumed': 'A scheduled cancellation was undone',
+  'subscription.plan_changed': 'A subscription moved to another plan',
+  'subscription.trial_started': 'A free trial started',
+  'subscription.trial_ending': 'A free trial ends soon',
+  'subscription.trial_converted': 'A trial was paid for and became a paid subscription',
+  'plan.created': 'A plan was added to the catalogue (sent to every subscribed webhook)',
+  'plan.updated': 'A plan\'s price, trial or availability changed (sent to every subscribed webhook)',
+  'apikey.created': 'An API key was issued to the user',
+  'apikey.revoked': 'One of the user\'s API keys was deactivated',
+  'gateway_credential.updated': 'Gateway credentials were added or changed',
+  'gateway_credential.deleted': 'Gateway credentials were removed',
+} as const;
+
+export type WebhookEventType = keyof typeof WEBHOOK_EVENTS;
+
+// Subscribes a webhook to every event, including ones added later
+export const ALL_WEBHOOK_EVENTS = '*';
+
+// Sent by "send test event"; delivered whatever the webhook subscribes to
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+// Changes when the envelope or a payload changes shape; sent as `apiVersion`
+export const WEBHOOK_API_VERSION = '2026-10-18';
+
+/**
+ * What every delivery posts: the same envelope for all event types, with the
+ * event-specific payload under `data`. Dates are sent as ISO 8601 strings.
+ */
+export interface WebhookEvent<T extends WebhookEventType = WebhookEventType> {
+  id: string; // evt_...; the same on retries, redeliveries and replays
+  type: T;
+  created: string; // When the event happened
+  apiVersion: string;
+  data: WebhookEventData[T];
+}
+
+export interface PaymentEventData {
+  id: string;
+  subscriptionId: string;
+  userId: string;
+  amount: number;
+  currency: string;
+  gateway: string;
+  status: string;
+  purpose: string;
+}
+
+// cancelled: by the user or at the gateway; declined: the gateway refused to
+// verify it; abandoned: never paid and given up on by the reconciler
+export type PaymentFailureReason = 'cancelled' | 'declined' | 'abandoned';
+
+export interface SubscriptionEventData {
+  id: string;
+  userId: string;
+  planId: string;
+}
+
+export interface PlanEventData {
+  id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  currency: string;
+  duration: number;
+  trialDays: number | null;
+  features: string | null;
+  isActive: boolean;
+  gateway: string;
+}
+
+export interface ApiKeyEventData {
+  id: string;
+  userId: string;
+  label: string | null;
+}
+
+export interface GatewayCredentialEventData {
+  id: string;
+  userId: string;
+  gateway: string;
+  sandbox: boolean;
+  priority: number | null;
+}
+
+/**
+ * The `data` of each event type
+ */
+export interface WebhookEventData {
+  'payment.created': PaymentEventData & { paymentUrl: string | null; couponId: string | null; discountAmount: number };
+  'payment.completed': PaymentEventData & { refId?: string };
+  'payment.failed': PaymentEventData & { reason: PaymentFailureReason; message?: string };
+  'payment.refunded': PaymentEventData & { refundId: string; refundedAmount: number; refundAmount: number; reason?: string };
+  'subscription.created': SubscriptionEventData & { status: string; autoRenew: boolean; trialEndsAt: Date | null };
+  'subscription.activated': SubscriptionEventData & { startDate: Date | null; endDate: Date | null };
+  'subscription.renewed': SubscriptionEventData & { previousEndDate: Date | null; endDate: Date | null };
+  'subscription.recovered': SubscriptionEventData & { previousEndDate: Date | null; endDate: Date | null };
+  'subscription.past_due': SubscriptionEventData & { endDate: Date | null; graceEndsAt: Date };
+  'subscription.expired': SubscriptionEventData & { startDate: Date | null; endDate: Date | null; expiredAt: Date };
+  'subscription.cancelled': SubscriptionEventData & { endDate: Date | null; cancelledAt: Date | null; reason: string | null; [detail: string]: unknown };
+  'subscription.cancellation_scheduled': SubscriptionEventData & { endDate: Date | null; reason?: string };
+  'subscription.resumed': SubscriptionEventData & { endDate: Date | null };
+  'subscription.plan_changed': Omit<SubscriptionEventData, 'planId'> & { fromPlanId: string; toPlanId: string; startDate: Date | null; endDate: Date | null; [detail: string]: unknown };
+  'subscription.trial_started': SubscriptionEventData & { trialEndsAt: Date };
+  'subscription.trial_ending': SubscriptionEventData & { trialEndsAt: Date | null };
+  'subscription.trial_converted': SubscriptionEventData & { trialEndsAt: Date | null; startDate: Date | null; endDate: Date | null };
+  'plan.created': PlanEventData;
+  'plan.updated': PlanEventData & { previousAttributes: Partial<PlanEventData> };
+  'apikey.created': ApiKeyEventData;
+  'apikey.revoked': ApiKeyEventData;
+  'gateway_credential.updated': GatewayCredentialEventData;
+  'gateway_credential.deleted': GatewayCredentialEventData;
+}
+
+export interface WebhookDeliveryFilter {
+  status?: string;
+  eventType?: string;
+  limit: number;
+  cursor?: string; // id of the last delivery on the previous page
+}
+
+export interface WebhookReplayInput {
+  from: Date;
+  to: Date;
+  eventTypes?: string[];
+  onlyFailed?: boolean;
+}
+
+export function isWebhookEventType(type: string): type is WebhookEventType {
+  return Object.prototype.hasOwnProperty.call(WEBHOOK_EVENTS, type);
+}
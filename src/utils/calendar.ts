@@ -0,0 +1,108 @@
+import { AnalyticsInterval, Calendar, PeriodBucket } from '../types/analytics.types';
+import { ValidationError } from './errors';
+
+// Periods follow the Iranian day, whichever calendar they are labelled in
+export const REPORTING_TIME_ZONE = 'Asia/Tehran';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_BUCKETS = 400;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters: Record<Calendar, Intl.DateTimeFormat> = {
+  jalali: new Intl.DateTimeFormat('en-US-u-ca-persian-nu-latn', {
+    timeZone: REPORTING_TIME_ZONE,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    weekday: 'short',
+  }),
+  gregorian: new Intl.DateTimeFormat('en-US-u-ca-gregory-nu-latn', {
+    timeZone: REPORTING_TIME_ZONE,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    weekday: 'short',
+  }),
+};
+
+interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number; // 0 = Sunday
+}
+
+function calendarDate(date: Date, calendar: Calendar): CalendarDate {
+  const parts = Object.fromEntries(formatters[calendar].formatToParts(date).map(part => [part.type, part.value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Names the period a moment falls in: `1403-01` (month), `1403-01-15` (day),
+ * or the day its week starts on (week). Jalali weeks start on Saturday,
+ * Gregorian weeks on Monday.
+ */
+export function periodKey(date: Date, calendar: Calendar, interval: AnalyticsInterval): string {
+  if (interval === 'week') {
+    const { weekday } = calendarDate(date, calendar);
+    const daysIntoWeek = calendar === 'jalali' ? (weekday + 1) % 7 : (weekday + 6) % 7;
+    date = new Date(date.getTime() - daysIntoWeek * DAY_MS);
+  }
+  const { year, month, day } = calendarDate(date, calendar);
+  return interval === 'month' ? `${year}-${pad(month)}` : `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Splits a date range into consecutive periods. The first and last periods
+ * are cut to the range.
+ *
+ * @throws ValidationError if the range is empty or has too many periods
+ */
+export function periodBuckets(from: Date, to: Date, calendar: Calendar, interval: AnalyticsInterval): PeriodBucket[] {
+  if (from >= to) {
+    throw new ValidationError('from must be before to');
+  }
+
+  const buckets: PeriodBucket[] = [];
+  // Iran has no daylight saving time, so stepping a day at a time visits every local day once
+  for (let time = from.getTime(); time < to.getTime(); time += DAY_MS) {
+    const start = new Date(time);
+    const period = periodKey(start, calendar, interval);
+    if (buckets.length > 0 && buckets[buckets.length - 1].period === period) continue;
+
+    if (buckets.length > 0) {
+      // The previous period ends where this one starts: at local midnight
+      const dayStart = startOfDay(start);
+      buckets[buckets.length - 1].end = dayStart;
+      buckets.push({ period, start: dayStart, end: to });
+    } else {
+      buckets.push({ period, start: from, end: to });
+    }
+    if (buckets.length > MAX_BUCKETS) {
+      throw new ValidationError(`The range has more than ${MAX_BUCKETS} ${interval}s; use a longer interval or a shorter range`);
+    }
+  }
+  return buckets;
+}
+
+function startOfDay(date: Date): Date {
+  const { hour, minute, second } = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: REPORTING_TIME_ZONE,
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23',
+    }).formatToParts(date).map(part => [part.type, Number(part.value)])
+  );
+  return new Date(date.getTime() - ((hour * 60 + minute) * 60 + second) * 1000 - date.getMilliseconds());
+}
@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import { env } from '../config/env';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+const PREFIX = 'enc:v1:';
+
+/**
+ * A per-record data key, wrapped (encrypted) with the master key `keyId`
+ */
+export interface Envelope {
+  keyId: string;
+  dataKey: string;
+}
+
+let masterKeys: Map<string, Buffer> | undefined;
+
+/**
+ * Parses CREDENTIAL_MASTER_KEYS ("id:base64key,id:base64key"). Old keys stay
+ * in the list after a rotation so records wrapped with them can still be read.
+ */
+function getMasterKeys(): Map<string, Buffer> {
+  if (masterKeys) return masterKeys;
+  const keys = new Map<string, Buffer>();
+  for (const entry of (env.CREDENTIALS.MASTER_KEYS || '').split(',').map(s => s.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const id = separator > 0 ? entry.slice(0, separator).trim() : '';
+    const key = Buffer.from(entry.slice(separator + 1).trim(), 'base64');
+    if (!id || key.length !== KEY_BYTES) {
+      throw new Error('CREDENTIAL_MASTER_KEYS entries must be "<id>:<base64 of 32 bytes>"');
+    }
+    keys.set(id, key);
+  }
+  masterKeys = keys;
+  return keys;
+}
+
+/**
+ * Id of the master key new data keys are wrapped with: CREDENTIAL_ACTIVE_KEY_ID,
+ * or the first key in CREDENTIAL_MASTER_KEYS. Undefined when no key is set.
+ */
+export function activeKeyId(): string | undefined {
+  const keys = getMasterKeys();
+  if (keys.size === 0) return undefined;
+  const id = env.CREDENTIALS.ACTIVE_KEY_ID || keys.keys().next().value;
+  if (!id || !keys.has(id)) {
+    throw new Error(`CREDENTIAL_ACTIVE_KEY_ID '${id}' is not in CREDENTIAL_MASTER_KEYS`);
+  }
+  return id;
+}
+
+function masterKey(keyId: string): Buffer {
+  const key = getMasterKeys().get(keyId);
+  if (!key) {
+    throw new Error(`Master key '${keyId}' is not configured; add it to CREDENTIAL_MASTER_KEYS`);
+  }
+  return key;
+}
+
+/**
+ * Encrypts a value with AES-256-GCM. `context` is bound to the ciphertext
+ * (as additional authenticated data), so it only decrypts with the same context.
+ */
+export function encryptValue(key: Buffer, plaintext: string, context = ''): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(context, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return PREFIX + Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+export function decryptValue(key: Buffer, value: string, context = ''): string {
+  if (!isEncrypted(value)) {
+    throw new Error('Value is not encrypted');
+  }
+  const raw = Buffer.from(value.slice(PREFIX.length), 'base64');
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, raw.subarray(0, IV_BYTES));
+  decipher.setAAD(Buffer.from(context, 'utf8'));
+  decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]).toString('utf8');
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+/**
+ * Generates a fresh data key and wraps it with the active master key
+ *
+ * @returns The plain data key (to encrypt with, never stored) and its envelope
+ */
+export function createEnvelope(): { key: Buffer; envelope: Envelope } {
+  const keyId = activeKeyId();
+  if (!keyId) {
+    throw new Error('CREDENTIAL_MASTER_KEYS is not set');
+  }
+  const key = crypto.randomBytes(KEY_BYTES);
+  return { key, envelope: { keyId, dataKey: encryptValue(masterKey(keyId), key.toString('base64'), keyId) } };
+}
+
+export function openEnvelope(envelope: Envelope): Buffer {
+  return Buffer.from(decryptValue(masterKey(envelope.keyId), envelope.dataKey, envelope.keyId), 'base64');
+}
+
+/**
+ * Wraps an envelope's data key with the active master key. The data it
+ * encrypts does not change, so rotating the master key is cheap.
+ */
+export function rewrapEnvelope(envelope: Envelope): Envelope {
+  const key = openEnvelope(envelope);
+  const keyId = activeKeyId()!;
+  return { keyId, dataKey: encryptValue(masterKey(keyId), key.toString('base64'), keyId) };
+}
+
+/**
+ * Hides all but the last four characters of a secret
+ */
+export function maskSecret(value: string): string {
+  if (value.length <= 4) return '****';
+  return `****${value.slice(-4)}`;
+}
+
+/**
+ * Short, stable digest of a value, for comparing secrets without storing them
+ */
+export function fingerprint(value: string): string {
+  return crypto.createHash('sha256').update(value, 'utf8').digest('hex').slice(0, 16);
+}
@@ -0,0 +1,54 @@
+import { Currency, CurrencyCode } from '../types/currency.types';
+import { ValidationError } from './errors';
+
+export const CURRENCIES: Record<CurrencyCode, Currency> = {
+  IRR: { code: 'IRR', minorUnits: 0, rials: 1, name: 'IRR', localName: 'ریال' },
+  IRT: { code: 'IRT', minorUnits: 0, rials: 10, name: 'Toman', localName: 'تومان' },
+};
+
+export function isCurrencyCode(code: string): code is CurrencyCode {
+  return Object.prototype.hasOwnProperty.call(CURRENCIES, code);
+}
+
+/**
+ * Normalizes a stored or user-given currency code
+ *
+ * @throws ValidationError if the currency is not supported
+ */
+export function toCurrencyCode(code: string | null | undefined): CurrencyCode {
+  const normalized = (code || 'IRR').trim().toUpperCase();
+  if (!isCurrencyCode(normalized)) {
+    throw new ValidationError(`Currency '${code}' is not supported. Available currencies: ${Object.keys(CURRENCIES).join(', ')}`);
+  }
+  return normalized;
+}
+
+/**
+ * Converts an amount (in smallest units) between currencies
+ *
+ * @throws ValidationError if the amount can't be expressed exactly in the
+ * target currency (e.g. 15 IRR in Toman)
+ */
+export function convertAmount(amount: number, from: CurrencyCode, to: CurrencyCode): number {
+  if (from === to) return amount;
+  const rials = amount * CURRENCIES[from].rials;
+  if (rials % CURRENCIES[to].rials !== 0) {
+    throw new ValidationError(`${amount} ${from} can't be expressed in whole ${to}`);
+  }
+  return rials / CURRENCIES[to].rials;
+}
+
+/**
+ * Formats an amount for people: Persian digits with the currency's name
+ *
+ * @param amount - Amount in the currency's smallest unit
+ * @param currency - Currency code (stored codes are matched case-insensitively)
+ * @param locale - 'fa' names the currency in Persian (SMS), 'en' in English (email)
+ */
+export function formatMoney(amount: number, currency: string, locale: 'fa' | 'en' = 'fa'): string {
+  const code = currency.toUpperCase();
+  const info = isCurrencyCode(code) ? CURRENCIES[code] : undefined;
+  const value = info && info.minorUnits > 0 ? amount / 10 ** info.minorUnits : amount;
+  const label = info ? (locale === 'fa' ? info.localName : info.name) : code;
+  return `${value.toLocaleString('fa-IR')} ${label}`;
+}
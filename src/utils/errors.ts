@@ -19,8 +19,17 @@ export class ValidationError extends AppError {
   }
 }
 
+export class ConflictError extends AppError {
+  constructor(message: string) {
+    super(message, 409);
+    this.name = 'ConflictError';
+  }
+}
+
 export class PaymentGatewayError extends AppError {
-  constructor(message: string, public code?: number) {
+  // transport: the gateway couldn't be reached or didn't answer (timeout,
+  // connection error, 5xx); otherwise the gateway rejected the request
+  constructor(message: string, public code?: number, public transport = false) {
     super(message, 502);
     this.name = 'PaymentGatewayError';
   }
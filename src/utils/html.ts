@@ -0,0 +1,38 @@
+import { PaymentRedirect } from '../types/payment.types';
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Renders a page that sends the browser on to the gateway by submitting a form
+ * (with a button for browsers that block the script)
+ *
+ * @param redirect - Where to go and which fields to post
+ * @returns HTML document
+ */
+export function renderRedirectPage(redirect: PaymentRedirect): string {
+  const inputs = Object.entries(redirect.fields || {})
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join('\n      ');
+
+  return `<!DOCTYPE html>
+<html lang="fa" dir="rtl">
+  <head>
+    <meta charset="utf-8">
+    <title>Redirecting to payment</title>
+  </head>
+  <body>
+    <form id="payment" method="${redirect.method}" action="${escapeHtml(redirect.url)}">
+      ${inputs}
+      <noscript><button type="submit">Continue to payment</button></noscript>
+    </form>
+    <script>document.getElementById('payment').submit();</script>
+  </body>
+</html>`;
+}
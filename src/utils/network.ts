@@ -0,0 +1,116 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+/**
+ * Outbound requests to user-supplied URLs
+ *
+ * Webhook URLs come from users, so the server must not be made to call into
+ * its own network. Loopback, private, link-local (including cloud metadata at
+ * 169.254.169.254), shared, multicast and other reserved ranges are refused.
+ * Check a URL with isPublicUrl when it is saved and again before each request,
+ * and send the request through publicHttpAgent / publicHttpsAgent, which refuse
+ * to connect when a hostname resolves to such an address at connection time.
+ */
+
+const blocked = new net.BlockList();
+
+const BLOCKED_IPV4: Array<[string, number]> = [
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8], // Private
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8], // Loopback
+  ['169.254.0.0', 16], // Link-local, cloud metadata
+  ['172.16.0.0', 12], // Private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // Documentation
+  ['192.88.99.0', 24], // 6to4 relay
+  ['192.168.0.0', 16], // Private
+  ['198.18.0.0', 15], // Benchmarking
+  ['198.51.100.0', 24], // Documentation
+  ['203.0.113.0', 24], // Documentation
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved, broadcast
+];
+
+const BLOCKED_IPV6: Array<[string, number]> = [
+  ['::', 128], // Unspecified
+  ['::1', 128], // Loopback
+  ['64:ff9b::', 96], // NAT64
+  ['100::', 64], // Discard
+  ['2001::', 32], // Teredo
+  ['2001:db8::', 32], // Documentation
+  ['2002::', 16], // 6to4
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+];
+
+for (const [prefix, bits] of BLOCKED_IPV4) blocked.addSubnet(prefix, bits, 'ipv4');
+for (const [prefix, bits] of BLOCKED_IPV6) blocked.addSubnet(prefix, bits, 'ipv6');
+
+/**
+ * Whether an IP address is reachable on the public internet
+ *
+ * @param address - IPv4 or IPv6 address
+ * @returns false for reserved ranges and for anything that is not an IP
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  // BlockList also matches IPv4 against IPv4-mapped IPv6 rules and the other
+  // way round, so mapped addresses (::ffff:127.0.0.1) are covered by the IPv4 list
+  if (family === 6 && /^::ffff:/i.test(address) && !/^::ffff:\d+\.\d+\.\d+\.\d+$/i.test(address)) {
+    return false; // Hex-form mapped addresses; no legitimate receiver uses them
+  }
+  return !blocked.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Whether every address a URL's host resolves to is public
+ *
+ * @param url - Absolute URL
+ * @returns false if the URL is invalid, its host does not resolve, or any of
+ *          its addresses is not public
+ */
+export async function isPublicUrl(url: string): Promise<boolean> {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  } catch {
+    return false;
+  }
+  if (net.isIP(hostname)) return isPublicAddress(hostname);
+
+  try {
+    const addresses = await dns.promises.lookup(hostname, { all: true, verbatim: true });
+    return addresses.length > 0 && addresses.every(a => isPublicAddress(a.address));
+  } catch {
+    return false;
+  }
+}
+
+// Resolves like dns.lookup, but fails when any address is not public. Runs
+// when the socket connects, so a hostname re-pointed after isPublicUrl
+// checked it is still refused.
+function publicLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+    const refused = addresses.find(a => !isPublicAddress(a.address));
+    if (refused || addresses.length === 0) {
+      const err: NodeJS.ErrnoException = new Error(`${hostname} does not resolve to a public address`);
+      err.code = 'ENOTPUBLIC';
+      return callback(err, '');
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+export const publicHttpAgent = new http.Agent({ lookup: publicLookup } as http.AgentOptions);
+export const publicHttpsAgent = new https.Agent({ lookup: publicLookup } as https.AgentOptions);
@@ -0,0 +1,13 @@
+/**
+ * Normalizes an Iranian mobile number to the local 09xxxxxxxxx form
+ *
+ * @param phone - Phone number as entered (+98..., 0098..., 09...)
+ * @returns Normalized phone number
+ */
+export function normalizePhone(phone: string): string {
+  let p = phone.trim().replace(/[\s-]/g, '');
+  if (p.startsWith('+98')) p = '0' + p.slice(3);
+  else if (p.startsWith('0098')) p = '0' + p.slice(4);
+  else if (p.startsWith('98') && p.length === 12) p = '0' + p.slice(2);
+  return p;
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { CouponType, RefundStatus } from '../types/enums';
 
 export const verifyPaymentSchema = z.object({
   authority: z.string(),
@@ -11,6 +12,47 @@ export const createSubscriptionSchema = z.object({
   autoRenew: z.boolean().optional(),
   userEmail: z.string().email().optional(),
   userPhone: z.string().optional(),
+  couponCode: z.string().min(1).max(64).optional(),
+}).strict();
+
+export const changePlanSchema = z.object({
+  subscriptionId: z.string(),
+  planId: z.string(),
+  userEmail: z.string().email().optional(),
+  userPhone: z.string().optional(),
+}).strict();
+
+export const cancelSubscriptionSchema = z.object({
+  subscriptionId: z.string(),
+  atPeriodEnd: z.boolean().optional(),
+  reason: z.string().max(500).optional(),
+}).strict();
+
+export const resumeSubscriptionSchema = z.object({
+  subscriptionId: z.string(),
+}).strict();
+
+export const payTrialSchema = z.object({
+  subscriptionId: z.string(),
+  userEmail: z.string().email().optional(),
+  userPhone: z.string().optional(),
+}).strict();
+
+export const refundPaymentSchema = z.object({
+  paymentId: z.string(),
+  amount: z.number().int().positive().optional(),
+  reason: z.string().max(500).optional(),
+  revokeSubscription: z.boolean().optional(),
+}).strict();
+
+export const settleRefundSchema = z.object({
+  refundId: z.string(),
+  outcome: z.enum([RefundStatus.COMPLETED, RefundStatus.FAILED]),
+  gatewayRefundId: z.string().optional(),
+}).strict();
+
+export const reconcilePaymentSchema = z.object({
+  paymentId: z.string(),
 }).strict();
 
 export const createUserSchema = z.object({
@@ -25,9 +67,88 @@ export const createPlanSchema = z.object({
   price: z.number().int(),
   currency: z.string().optional(),
   duration: z.number().int(),
+  trialDays: z.number().int().positive().optional(),
   features: z.string().optional(),
   isActive: z.boolean().optional(),
   gateway: z.string().min(2),
+  fallbackGateways: z.array(z.string().min(2)).max(10).optional(),
+  sellerId: z.string().optional(),
+});
+
+export const updatePlanSchema = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  description: z.string().nullable().optional(),
+  price: z.number().int().optional(),
+  trialDays: z.number().int().positive().nullable().optional(),
+  features: z.string().nullable().optional(),
+  isActive: z.boolean().optional(),
+  sellerId: z.string().nullable().optional(),
+});
+
+export const createCouponSchema = z.object({
+  code: z.string().regex(/^[A-Za-z0-9_-]{3,64}$/),
+  description: z.string().max(500).optional(),
+  type: z.nativeEnum(CouponType),
+  value: z.number().int().positive(),
+  planIds: z.array(z.string()).optional(),
+  startsAt: z.coerce.date().optional(),
+  expiresAt: z.coerce.date().optional(),
+  maxRedemptions: z.number().int().positive().optional(),
+  perUserLimit: z.number().int().positive().nullable().optional(),
+  isActive: z.boolean().optional(),
+}).strict();
+
+export const updateCouponSchema = z.object({
+  id: z.string(),
+  description: z.string().max(500).optional(),
+  planIds: z.array(z.string()).optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+  maxRedemptions: z.number().int().positive().nullable().optional(),
+  perUserLimit: z.number().int().positive().nullable().optional(),
+  isActive: z.boolean().optional(),
+}).strict();
+
+const invoicePartyFields = {
+  legalName: z.string().max(200).optional(),
+  nationalId: z.string().regex(/^\d{10,11}$/).optional(),
+  economicCode: z.string().regex(/^\d{12,14}$/).optional(),
+  registrationNumber: z.string().max(32).optional(),
+  address: z.string().max(500).optional(),
+  postalCode: z.string().regex(/^\d{10}$/).optional(),
+  phone: z.string().max(32).optional(),
+  email: z.string().email().optional(),
+};
+
+export const createSellerSchema = z.object({
+  name: z.string().min(1).max(200),
+  ...invoicePartyFields,
+  vatRate: z.number().min(0).max(100).optional(),
+  invoicePrefix: z.string().regex(/^[A-Za-z0-9]{1,10}$/).optional(),
+  isDefault: z.boolean().optional(),
+}).strict();
+
+export const updateSellerSchema = createSellerSchema.partial().extend({
+  id: z.string(),
+}).strict();
+
+export const updateBillingSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  ...invoicePartyFields,
+}).strict();
+
+const DEFAULT_ANALYTICS_RANGE_DAYS = 365;
+
+export const analyticsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  interval: z.enum(['day', 'week', 'month']).default('month'),
+  calendar: z.enum(['jalali', 'gregorian']).default('jalali'),
+}).transform(query => {
+  const to = query.to ?? new Date();
+  const from = query.from ?? new Date(to.getTime() - DEFAULT_ANALYTICS_RANGE_DAYS * 24 * 60 * 60 * 1000);
+  return { ...query, from, to };
 });
 
 export const createApiKeySchema = z.object({
@@ -60,9 +181,44 @@ export const updateWebhookSchema = z.object({
   eventTypes: z.array(z.string()).optional(),
 });
 
+export const webhookRefSchema = z.object({
+  id: z.string(),
+});
+
+export const rotateWebhookSecretSchema = z.object({
+  id: z.string(),
+  graceHours: z.number().int().min(0).max(168).optional(),
+});
+
+export const listWebhookDeliveriesSchema = z.object({
+  webhookId: z.string(),
+  status: z.enum(['PENDING', 'SUCCESS', 'FAILED']).optional(),
+  eventType: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  cursor: z.string().optional(),
+});
+
+export const replayWebhookSchema = z.object({
+  webhookId: z.string(),
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  eventTypes: z.array(z.string()).optional(),
+  onlyFailed: z.boolean().optional(),
+});
+
 export const upsertGatewayCredentialSchema = z.object({
   gateway: z.string().min(2),
   merchantId: z.string().min(2),
   sandbox: z.boolean().optional(),
   config: z.record(z.any()).optional(),
+  priority: z.number().int().min(0).nullable().optional(),
+});
+
+export const gatewayCredentialRefSchema = z.object({
+  gateway: z.string().min(2),
+});
+
+export const updateGatewayCredentialSchema = z.object({
+  gateway: z.string().min(2),
+  sandbox: z.boolean(),
 });
@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+
+/**
+ * Webhook signatures
+ *
+ * Every delivery carries an `X-Webhook-Signature` header:
+ *
+ *     t=1710921600,v1=5257a869e7...,v1=9f1c0a...
+ *
+ * `t` is when the request was sent (Unix seconds) and each `v1` is the hex
+ * HMAC-SHA256 of `${t}.${rawBody}` with one of the webhook's secrets. While
+ * a secret is being rotated there is one `v1` for the new secret and one
+ * for the previous one. `X-Webhook-Id` identifies the event; it stays the
+ * same when a delivery is retried or redelivered, so receivers can drop
+ * duplicates.
+ *
+ * This module only depends on Node's crypto so receivers can copy it as is.
+ */
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const EVENT_ID_HEADER = 'X-Webhook-Id';
+export const EVENT_TYPE_HEADER = 'X-Webhook-Event';
+
+const SCHEME = 'v1';
+const DEFAULT_TOLERANCE_SEC = 300;
+
+function hmac(secret: string, timestamp: number, rawBody: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${rawBody}`, 'utf8').digest('hex');
+}
+
+/**
+ * Builds the signature header for a request body
+ *
+ * @param secrets - The webhook's current secret, then the previous one during a rotation
+ * @param rawBody - The exact body that is sent
+ * @param timestamp - Unix seconds; defaults to now
+ */
+export function signWebhookPayload(secrets: string[], rawBody: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  return [`t=${timestamp}`, ...secrets.map(secret => `${SCHEME}=${hmac(secret, timestamp, rawBody)}`)].join(',');
+}
+
+/**
+ * Splits a signature header into its timestamp and signatures
+ *
+ * @returns null if the header is malformed
+ */
+export function parseSignatureHeader(header: string): { timestamp: number; signatures: string[] } | null {
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+  for (const part of header.split(',')) {
+    const separator = part.indexOf('=');
+    if (separator < 0) continue;
+    const key = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+    if (key === 't') timestamp = Number(value);
+    else if (key === SCHEME && value) signatures.push(value);
+  }
+  if (timestamp === undefined || !Number.isInteger(timestamp) || signatures.length === 0) {
+    return null;
+  }
+  return { timestamp, signatures };
+}
+
+/**
+ * Checks a received webhook request
+ *
+ * Verify against the raw request body exactly as received (before any JSON
+ * parsing), e.g. with `express.raw({ type: 'application/json' })`.
+ *
+ * @param header - The X-Webhook-Signature header
+ * @param rawBody - The raw request body
+ * @param secret - Your webhook secret
+ * @param toleranceSec - How old a request may be; older ones are rejected as replays
+ * @returns true if one of the signatures matches and the timestamp is recent
+ */
+export function verifyWebhookSignature(
+  header: string | undefined,
+  rawBody: string | Buffer,
+  secret: string,
+  toleranceSec = DEFAULT_TOLERANCE_SEC
+): boolean {
+  const parsed = header ? parseSignatureHeader(header) : null;
+  if (!parsed) return false;
+  if (Math.abs(Math.floor(Date.now() / 1000) - parsed.timestamp) > toleranceSec) return false;
+
+  const expected = Buffer.from(hmac(secret, parsed.timestamp, rawBody.toString()), 'utf8');
+  return parsed.signatures.some(signature => {
+    const received = Buffer.from(signature, 'utf8');
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  });
+}